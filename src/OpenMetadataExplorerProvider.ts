@@ -1,7 +1,54 @@
 import * as vscode from 'vscode';
+import { AuthService } from './services/AuthService';
+import { CredentialService } from './services/CredentialService';
+import { EmbeddingService, reciprocalRankFusion } from './services/EmbeddingService';
+import { HealthCheckService } from './services/HealthCheckService';
+import { log } from './services/LogService';
+import { ConnectionProfile, ProfileService } from './services/ProfileService';
+import { AuthError } from './services/HttpClient';
+import {
+    isLocalEndpoint,
+    sampleValuesByColumn,
+    SENSITIVE_TAG,
+    withoutSensitiveColumns,
+    withoutSensitiveSample
+} from './services/PrivacyService';
+import { renderVersionDocument, VERSION_SCHEME, VersionDocumentProvider } from './services/VersionDocumentProvider';
+import { TableAnalysisContext } from './services/LocalLLMService';
 import { UnifiedLLMService } from './services/UnifiedLLMService';
 import { LineageService } from './services/LineageService';
-import { OpenMetadataService } from './services/OpenMetadataService';
+import { applyStructuredQuery, OpenMetadataService, SearchOptions, SearchResponse, VersionConflictError } from './services/OpenMetadataService';
+import {
+    ClassificationReport,
+    DescriptionDraft,
+    DescriptionOutcome,
+    EntityDetails,
+    EntityResult,
+    EntityType,
+    hasFilters,
+    HostMessage,
+    PII_PREFIX,
+    LineageDirection,
+    parseWebviewRequest,
+    SearchContext,
+    SearchCursor,
+    StructuredQuery,
+    Suggestion,
+    TableProfile,
+    TableResult,
+    TableUsage,
+    TagChange,
+    TagOption,
+    TIER_PREFIX,
+    withVersion
+} from './shared/protocol';
+
+// Per profile, since queries refer to that catalog
+const RECENT_SEARCHES_KEY = 'openmetadataExplorer.recentSearches';
+const MAX_RECENT_SEARCHES = 8;
+const START_SUGGESTIONS = 5;
+// Tags offered to the LLM for classifying columns, PII first
+const MAX_CLASSIFICATION_TAGS = 60;
 
 export class OpenMetadataExplorerProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'openmetadataExplorer';
@@ -9,33 +56,179 @@ export class OpenMetadataExplorerProvider implements vscode.WebviewViewProvider
     private openMetadataService: OpenMetadataService;
     private llmService: UnifiedLLMService;
     private lineageService!: LineageService;
+    private embeddings: EmbeddingService;
+    private versionDocuments: VersionDocumentProvider;
+    // In-flight webview requests by request ID
+    private inFlight = new Map<string, AbortController>();
+    // Latest request ID per slot; starting a request in a slot cancels the one it supersedes
+    private latestInSlot = new Map<string, string>();
+    private profile: ConnectionProfile;
+    public readonly health: HealthCheckService;
+    private getOpenMetadataToken = () => this.auth.getAccessToken(this.profile);
 
-    constructor(private readonly _extensionUri: vscode.Uri, private context: vscode.ExtensionContext) {
-        console.log('🔧 OpenMetadataExplorerProvider: Starting constructor...');
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private context: vscode.ExtensionContext,
+        private credentials: CredentialService,
+        private profiles: ProfileService,
+        private auth: AuthService
+    ) {
+        log.debug('OpenMetadataExplorerProvider: Starting constructor...');
 
         try {
-            console.log('🗄️ Initializing OpenMetadata service...');
-            this.openMetadataService = new OpenMetadataService();
+            this.profile = this.profiles.getActiveProfile();
+            log.info(`Using connection profile: ${this.profile.name}`);
+
+            log.debug('Initializing OpenMetadata service...');
+            this.openMetadataService = new OpenMetadataService(this.profile.openmetadataUrl, this.getOpenMetadataToken);
 
-            console.log('🤖 Initializing Unified LLM service...');
-            this.llmService = new UnifiedLLMService();
+            log.debug('Initializing Unified LLM service...');
+            this.llmService = new UnifiedLLMService(
+                () => this.profile.llm,
+                () => this.credentials.get('llm.token', this.profile.tokenSecret)
+            );
 
-            console.log('📊 Initializing Lineage service...');
+            log.debug('Initializing Lineage service...');
             this.initializeLineageService();
 
-            console.log('✅ OpenMetadataExplorerProvider constructor completed');
+            this.embeddings = new EmbeddingService(
+                this.context.globalStorageUri,
+                () => this.credentials.get('llm.token', this.profile.tokenSecret)
+            );
+
+            this.versionDocuments = new VersionDocumentProvider(() => this.openMetadataService);
+
+            this.health = new HealthCheckService(
+                this.context,
+                () => this.openMetadataService.checkConnection(),
+                () => this.llmService.checkConnection()
+            );
+
+            // Rebuild services when settings change, no window reload needed
+            this.context.subscriptions.push(
+                vscode.workspace.onDidChangeConfiguration(event => this.handleConfigurationChange(event)),
+                // Tokens are resolved per request, so a new secret only needs to be reflected in the UI
+                this.credentials.onDidChange(() => {
+                    this.sendConfig();
+                    this.health.check();
+                }),
+                this.health.onDidChange(health => this.postMessage({ type: 'connectionHealth', health })),
+                vscode.workspace.registerTextDocumentContentProvider(VERSION_SCHEME, this.versionDocuments),
+                { dispose: () => this.dispose() }
+            );
+
+            log.debug('OpenMetadataExplorerProvider constructor completed');
         } catch (error) {
-            console.error('❌ Error in OpenMetadataExplorerProvider constructor:', error);
+            log.error('Error in OpenMetadataExplorerProvider constructor:', error);
             throw error;
         }
     }
 
     private initializeLineageService() {
-        const config = vscode.workspace.getConfiguration('openmetadataExplorer');
-        const openmetadataUrl = config.get<string>('openmetadataUrl') || 'http://localhost:8585';
-        const authToken = config.get<string>('openmetadataAuthToken') || '';
+        this.lineageService = new LineageService(this.profile.openmetadataUrl, this.getOpenMetadataToken);
+    }
+
+    private handleConfigurationChange(event: vscode.ConfigurationChangeEvent) {
+        if (!event.affectsConfiguration('openmetadataExplorer')) return;
+
+        // Compare the effective profile rather than individual keys: switching profiles,
+        // editing a profile and editing the top-level settings all end up here
+        const previous = this.profile;
+        this.profile = this.profiles.getActiveProfile();
+
+        const tokensChanged = previous.tokenSecret !== this.profile.tokenSecret ||
+            event.affectsConfiguration('openmetadataExplorer.openmetadataAuthToken') ||
+            event.affectsConfiguration('openmetadataExplorer.llm.token');
+        const openMetadataChanged = tokensChanged || previous.openmetadataUrl !== this.profile.openmetadataUrl;
+        const llmChanged = tokensChanged || JSON.stringify(previous.llm) !== JSON.stringify(this.profile.llm);
+
+        if (!openMetadataChanged && !llmChanged) {
+            this.sendConfig();
+            return;
+        }
+
+        // Requests made with the old settings must not deliver results
+        this.cancelAllRequests();
+
+        if (openMetadataChanged) {
+            log.info(`OpenMetadata settings changed (profile: ${this.profile.name}), rebuilding services...`);
+            this.openMetadataService = new OpenMetadataService(this.profile.openmetadataUrl, this.getOpenMetadataToken);
+            this.initializeLineageService();
+            this.embeddings.cancelSync();
+        }
+
+        if (llmChanged) {
+            log.info('LLM settings changed, reloading LLM service...');
+            this.llmService.reload();
+        }
+
+        this.sendConfig();
+        this.health.check();
+    }
+
+    public dispose() {
+        this.cancelAllRequests();
+        this.embeddings.cancelSync();
+    }
+
+    /**
+     * Embed every table of the current server again, e.g. after changing the embedding model.
+     */
+    public async rebuildSemanticIndex() {
+        if (!this.embeddings.isEnabled()) {
+            const enable = await vscode.window.showInformationMessage(
+                'Semantic search is turned off.', 'Open Settings'
+            );
+            if (enable) {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'openmetadataExplorer.semanticSearch');
+            }
+            return;
+        }
+
+        try {
+            const result = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Building semantic index...' },
+                () => this.embeddings.sync(this.openMetadataService, this.profile.openmetadataUrl, true)
+            );
+            vscode.window.showInformationMessage(`Semantic index built: ${result.total} tables.`);
+        } catch (error) {
+            log.error('Semantic index rebuild failed:', error);
+            vscode.window.showErrorMessage(`Failed to build the semantic index: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private beginRequest(requestId: string, slot?: string): AbortSignal {
+        if (slot) {
+            const superseded = this.latestInSlot.get(slot);
+            if (superseded) {
+                this.cancelRequest(superseded);
+            }
+            this.latestInSlot.set(slot, requestId);
+        }
+
+        const controller = new AbortController();
+        this.inFlight.set(requestId, controller);
+        return controller.signal;
+    }
 
-        this.lineageService = new LineageService(openmetadataUrl, authToken);
+    private endRequest(requestId: string) {
+        this.inFlight.delete(requestId);
+    }
+
+    private cancelRequest(requestId: string) {
+        const controller = this.inFlight.get(requestId);
+        if (controller) {
+            log.debug(`Cancelling request ${requestId}`);
+            controller.abort();
+            this.inFlight.delete(requestId);
+        }
+    }
+
+    private cancelAllRequests() {
+        for (const requestId of [...this.inFlight.keys()]) {
+            this.cancelRequest(requestId);
+        }
+        this.latestInSlot.clear();
     }
 
     public resolveWebviewView(
@@ -53,57 +246,184 @@ export class OpenMetadataExplorerProvider implements vscode.WebviewViewProvider
         webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
         // Handle messages from the webview
-        webviewView.webview.onDidReceiveMessage(async (data) => {
-            switch (data.type) {
+        webviewView.webview.onDidReceiveMessage(async (data: unknown) => {
+            const request = parseWebviewRequest(data);
+            if (!request) {
+                log.warn('Ignoring invalid webview message:', data);
+                return;
+            }
+
+            switch (request.type) {
                 case 'search':
-                    await this.handleSearch(data.query);
+                    await this.handleSearch(request.requestId, request.query, {
+                        entityType: request.entityType,
+                        filters: request.filters,
+                        sort: request.sort
+                    }, request.structuredQuery, request.literal);
+                    break;
+                case 'loadMoreResults':
+                    await this.handleLoadMoreResults(request.requestId, request.cursor, {
+                        entityType: request.entityType,
+                        filters: request.filters,
+                        sort: request.sort
+                    }, request.structuredQuery);
                     break;
                 case 'getConfig':
                     await this.sendConfig();
                     break;
+                case 'switchProfile':
+                    await vscode.commands.executeCommand('openmetadataExplorer.switchProfile');
+                    break;
+                case 'testConnections':
+                    await this.health.testConnections();
+                    break;
+                case 'runFix':
+                    await this.health.runFix(request.fix);
+                    break;
+                case 'getStartSuggestions':
+                    await this.handleGetStartSuggestions();
+                    break;
+                case 'suggest':
+                    await this.handleSuggest(request.requestId, request.query);
+                    break;
+                case 'getEntityDetails':
+                    await this.handleGetEntityDetails(request.requestId, request.fqn, request.entityType);
+                    break;
+                case 'getTableProfile':
+                    await this.handleGetTableProfile(request.requestId, request.fqn);
+                    break;
+                case 'getColumnProfileHistory':
+                    await this.handleGetColumnProfileHistory(request.requestId, request.columnFqn);
+                    break;
+                case 'getSampleData':
+                    await this.handleGetSampleData(request.requestId, request.fqn);
+                    break;
+                case 'getDataQuality':
+                    await this.handleGetDataQuality(request.requestId, request.fqn);
+                    break;
+                case 'getTableUsage':
+                    await this.handleGetTableUsage(request.requestId, request.fqn);
+                    break;
+                case 'openQuery':
+                    await this.handleOpenQuery(request.sql);
+                    break;
+                case 'getEntityVersions':
+                    await this.handleGetEntityVersions(request.requestId, request.fqn, request.entityType);
+                    break;
+                case 'openVersionDiff':
+                    await this.handleOpenVersionDiff(request.entityType, request.entityId, request.name, request.fromVersion, request.toVersion);
+                    break;
+                case 'summarizeVersionChange':
+                    await this.handleSummarizeVersionChange(request.requestId, request.entityType, request.entityId, request.fromVersion, request.toVersion);
+                    break;
+                case 'copyToClipboard':
+                    await vscode.env.clipboard.writeText(request.text);
+                    vscode.window.showInformationMessage(`${request.label || 'Text'} copied to the clipboard`);
+                    break;
+                case 'analyzeTable':
+                    await this.handleAnalyzeTable(request.requestId, request.fqn);
+                    break;
+                case 'generateDescription':
+                    await this.handleGenerateDescription(request.requestId, request.fqn, request.column);
+                    break;
+                case 'generateSchemaDescriptions':
+                    await this.handleGenerateSchemaDescriptions(request.requestId, request.schemaFqn);
+                    break;
+                case 'applyDescription':
+                    await this.handleApplyDescription(request.requestId, request.fqn, request.description, request.column);
+                    break;
+                case 'getTagOptions':
+                    await this.handleGetTagOptions(request.requestId);
+                    break;
+                case 'updateTags':
+                    await this.handleUpdateTags(request.requestId, request.fqn, request.change, request.column, request.version);
+                    break;
+                case 'classifyColumns':
+                    await this.handleClassifyColumns(request.requestId, request.fqn, request.includeSampleValues);
+                    break;
+                case 'applyClassifications':
+                    await this.handleApplyClassifications(request.requestId, request.fqn, request.accepted, request.version);
+                    break;
                 case 'getLineage':
-                    await this.handleGetLineage(data.tableFqn, data.entityType);
+                    await this.handleGetLineage(request.requestId, request.tableFqn, request.entityType);
                     break;
                 case 'expandLineage':
-                    await this.handleExpandLineage(data.tableFqn, data.nodeId, data.direction, data.entityType);
+                    await this.handleExpandLineage(request.requestId, request.tableFqn, request.nodeId, request.direction, request.entityType);
                     break;
                 case 'collapseLineage':
-                    await this.handleCollapseLineage(data.tableFqn, data.nodeId, data.direction);
+                    await this.handleCollapseLineage(request.requestId, request.tableFqn, request.nodeId, request.direction);
+                    break;
+                case 'cancel':
+                    this.cancelRequest(request.requestId);
                     break;
                 case 'error':
-                    vscode.window.showErrorMessage(data.message);
+                    vscode.window.showErrorMessage(request.message);
                     break;
                 case 'info':
-                    vscode.window.showInformationMessage(data.message);
+                    vscode.window.showInformationMessage(request.message);
                     break;
             }
         });
     }
 
-    private async handleSearch(query: string) {
+    private postMessage(message: HostMessage) {
+        this._view?.webview.postMessage(withVersion(message));
+    }
+
+    private async handleSearch(requestId: string, query: string, options: SearchOptions, structuredQuery?: StructuredQuery, literal?: boolean) {
         if (!this._view) return;
 
+        // A new search supersedes the previous one, including its pending AI insights
+        const signal = this.beginRequest(requestId, 'search');
+        await this.rememberSearch(query);
+
         try {
             // Show loading state
-            this._view.webview.postMessage({
+            this.postMessage({
                 type: 'searchStarted',
+                requestId: requestId,
                 query: query
             });
 
-            // Search OpenMetadata with natural language processing
-            const searchResult = await this.openMetadataService.searchWithNaturalLanguage(query);
+            // An interpretation edited in the webview is reused as is; otherwise ask the LLM for one
+            const interpretedQuery = structuredQuery
+                ?? (literal ? undefined : await this.interpretQuery(query, signal));
+            if (signal.aborted) {
+                this.postSearchCancelled(requestId, query);
+                return;
+            }
+
+            // Search OpenMetadata with the interpretation, or with natural language processing
+            const keywordResult = interpretedQuery
+                ? await this.openMetadataService.searchStructured(interpretedQuery, options, signal)
+                : await this.openMetadataService.searchWithNaturalLanguage(query, options, signal);
+            const searchResult = { ...keywordResult, ...await this.withSemanticHits(query, keywordResult, options, interpretedQuery, signal) };
+            if (signal.aborted) {
+                this.postSearchCancelled(requestId, query);
+                return;
+            }
+
+            const found = searchResult.total ?? searchResult.results.length;
+            const searchContext: SearchContext = {
+                originalQuery: query,
+                searchTermsUsed: searchResult.searchTermsUsed,
+                wasNaturalLanguage: searchResult.wasNaturalLanguage,
+                entityType: options.entityType,
+                filters: options.filters,
+                interpretedQuery
+            };
 
             // Send results immediately for fast display
-            this._view.webview.postMessage({
+            this.postMessage({
                 type: 'searchResults',
+                requestId: requestId,
                 query: query,
                 results: searchResult.results,
+                facets: searchResult.facets,
+                total: searchResult.total,
+                nextCursor: searchResult.nextCursor,
                 aiInsights: '',
-                searchContext: {
-                    originalQuery: query,
-                    searchTermsUsed: searchResult.searchTermsUsed,
-                    wasNaturalLanguage: searchResult.wasNaturalLanguage
-                }
+                searchContext
             });
 
             // Get AI insights asynchronously if LLM service is configured
@@ -112,88 +432,877 @@ export class OpenMetadataExplorerProvider implements vscode.WebviewViewProvider
                     const aiInsights = await this.llmService.searchInsights(
                         query,
                         searchResult.results,
-                        searchResult.searchTermsUsed,
-                        searchResult.wasNaturalLanguage
+                        searchContext,
+                        signal
                     );
+                    if (signal.aborted) {
+                        this.postSearchCancelled(requestId, query);
+                        return;
+                    }
 
                     // Send AI insights as a separate update
-                    this._view.webview.postMessage({
+                    this.postMessage({
                         type: 'aiInsightsUpdate',
+                        requestId: requestId,
                         aiInsights: aiInsights
                     });
                 } catch (error) {
-                    console.error('AI insights error:', error);
-                    this._view.webview.postMessage({
+                    if (signal.aborted) {
+                        this.postSearchCancelled(requestId, query);
+                        return;
+                    }
+                    log.error('AI insights error:', error);
+                    this.postMessage({
                         type: 'aiInsightsUpdate',
+                        requestId: requestId,
                         aiInsights: searchResult.wasNaturalLanguage
-                            ? `I found ${searchResult.results.length} tables related to ${searchResult.searchTermsUsed.join(' and ')}. AI analysis is currently unavailable.`
-                            : `Found ${searchResult.results.length} tables. AI analysis is currently unavailable.`
+                            ? `I found ${found} data assets related to ${searchResult.searchTermsUsed.join(' and ')}. AI analysis is currently unavailable.`
+                            : `Found ${found} data assets. AI analysis is currently unavailable.`
                     });
                 }
             } else if (!this.llmService.isConfigured()) {
-                this._view.webview.postMessage({
+                this.postMessage({
                     type: 'aiInsightsUpdate',
+                    requestId: requestId,
                     aiInsights: searchResult.wasNaturalLanguage
-                        ? `I found ${searchResult.results.length} tables related to ${searchResult.searchTermsUsed.join(' and ')}. Configure LLM provider in settings for AI analysis.`
-                        : `Found ${searchResult.results.length} tables. Configure LLM provider in settings for AI analysis.`
+                        ? `I found ${found} data assets related to ${searchResult.searchTermsUsed.join(' and ')}. Configure LLM provider in settings for AI analysis.`
+                        : `Found ${found} data assets. Configure LLM provider in settings for AI analysis.`
                 });
             }
 
         } catch (error) {
-            console.error('Search error:', error);
-            this._view.webview.postMessage({
+            if (signal.aborted) {
+                this.postSearchCancelled(requestId, query);
+                return;
+            }
+
+            log.error('Search error:', error);
+            this.postMessage({
                 type: 'searchError',
+                requestId: requestId,
                 error: error instanceof Error ? error.message : 'Unknown error occurred'
             });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleSuggest(requestId: string, query: string) {
+        // Only the suggestions for the latest keystroke are wanted
+        const signal = this.beginRequest(requestId, 'suggest');
+
+        try {
+            const suggestions = await this.openMetadataService.suggest(query, signal);
+            if (signal.aborted) return;
+            this.postMessage({ type: 'suggestions', requestId, suggestions });
+        } catch (error) {
+            if (signal.aborted) return;
+            log.debug('Suggest error:', error);
+            this.postMessage({ type: 'suggestions', requestId, suggestions: [] });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    // Popular tables, recently updated assets and recent searches for the empty search box
+    private async handleGetStartSuggestions() {
+        const toSuggestions = (results: EntityResult[]): Suggestion[] => results.slice(0, START_SUGGESTIONS).map(result => ({
+            kind: 'asset',
+            label: result.displayName || result.name,
+            value: result.name,
+            entityType: result.entityType,
+            detail: result.service
+        }));
+
+        const [popular, recentlyUpdated] = await Promise.allSettled([
+            this.openMetadataService.search('*', { entityType: 'table', sort: 'popularity', size: START_SUGGESTIONS }),
+            this.openMetadataService.search('*', { sort: 'updated', size: START_SUGGESTIONS })
+        ]);
+        if (popular.status === 'rejected') {
+            log.debug('Could not load popular tables:', popular.reason);
+        }
+        if (recentlyUpdated.status === 'rejected') {
+            log.debug('Could not load recently updated assets:', recentlyUpdated.reason);
+        }
+
+        this.postMessage({
+            type: 'startSuggestions',
+            suggestions: {
+                popular: popular.status === 'fulfilled' ? toSuggestions(popular.value.results) : [],
+                recentlyUpdated: recentlyUpdated.status === 'fulfilled' ? toSuggestions(recentlyUpdated.value.results) : [],
+                recentSearches: this.recentSearches()
+            }
+        });
+    }
+
+    private recentSearches(): string[] {
+        return this.context.globalState.get<string[]>(`${RECENT_SEARCHES_KEY}.${this.profile.name}`) || [];
+    }
+
+    private async rememberSearch(query: string) {
+        // Filter-only searches from picked tags and owners
+        if (query === '*') return;
+        const recent = [query, ...this.recentSearches().filter(q => q.toLowerCase() !== query.toLowerCase())];
+        await this.context.globalState.update(`${RECENT_SEARCHES_KEY}.${this.profile.name}`, recent.slice(0, MAX_RECENT_SEARCHES));
+    }
+
+    /**
+     * Fuse semantic matches from the local embedding index into the first page of
+     * keyword results. Only for unfiltered table searches by relevance, since the
+     * index knows nothing about filters or other sort orders.
+     */
+    private async withSemanticHits(
+        query: string,
+        keywordResult: SearchResponse,
+        options: SearchOptions,
+        interpretedQuery: StructuredQuery | undefined,
+        signal: AbortSignal
+    ): Promise<SearchResponse> {
+        const scoped = hasFilters(options.filters) || (options.entityType && options.entityType !== 'table')
+            || (options.sort && options.sort !== 'relevance')
+            || (interpretedQuery && (interpretedQuery.entityTypes || interpretedQuery.filters
+                || interpretedQuery.updatedAfter || interpretedQuery.updatedBefore));
+        if (!this.embeddings.isEnabled() || scoped) {
+            return keywordResult;
+        }
+
+        try {
+            const semantic = await this.embeddings.search(query, this.openMetadataService, this.profile.openmetadataUrl, signal);
+            const results = reciprocalRankFusion([keywordResult.results, semantic]);
+            const added = results.length - keywordResult.results.length;
+            if (added > 0) {
+                log.debug(`Semantic search added ${added} results`);
+            }
+            return {
+                ...keywordResult,
+                results,
+                total: keywordResult.total === undefined ? undefined : keywordResult.total + added
+            };
+        } catch (error) {
+            if (signal.aborted) throw error;
+            // Keyword results are still useful without the embedding model
+            log.warn('Semantic search failed, showing keyword results only:', error);
+            return keywordResult;
+        }
+    }
+
+    // Uses the LLM only when the openmetadataExplorer.search.llmQueryTranslation setting allows it
+    private async interpretQuery(query: string, signal: AbortSignal): Promise<StructuredQuery | undefined> {
+        const mode = vscode.workspace.getConfiguration('openmetadataExplorer.search').get<string>('llmQueryTranslation', 'off');
+        if (mode === 'off' || !this.llmService.isConfigured()) {
+            return undefined;
+        }
+        if (mode !== 'always' && !this.openMetadataService.isNaturalLanguageQuery(query)) {
+            return undefined;
+        }
+        return this.llmService.translateQuery(query, signal);
+    }
+
+    private async handleLoadMoreResults(requestId: string, cursor: SearchCursor, options: SearchOptions, structuredQuery?: StructuredQuery) {
+        if (!this._view) return;
+
+        // Only the most recently requested page is wanted
+        const signal = this.beginRequest(requestId, 'searchPage');
+
+        try {
+            const page = await this.openMetadataService.searchPage(
+                cursor,
+                structuredQuery ? applyStructuredQuery(options, structuredQuery) : options,
+                signal
+            );
+            if (signal.aborted) return;
+
+            this.postMessage({
+                type: 'moreResults',
+                requestId: requestId,
+                results: page.results,
+                total: page.total,
+                nextCursor: page.nextCursor
+            });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Load more results error:', error);
+            this.postMessage({
+                type: 'moreResultsError',
+                requestId: requestId,
+                error: error instanceof Error ? error.message : 'Failed to load more results'
+            });
+        } finally {
+            this.endRequest(requestId);
         }
     }
 
-    private async handleGetLineage(tableFqn: string, entityType: string = 'table') {
+    private postSearchCancelled(requestId: string, query: string) {
+        this.postMessage({
+            type: 'searchCancelled',
+            requestId: requestId,
+            query: query
+        });
+    }
+
+    private async handleGetEntityDetails(requestId: string, fqn: string, entityType: EntityType) {
         if (!this._view) return;
 
+        // Only one detail panel is shown at a time
+        const signal = this.beginRequest(requestId, 'details');
+
+        try {
+            const details = await this.openMetadataService.getEntityDetails(entityType, fqn, signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'entityDetails', requestId, details });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Entity details error:', error);
+            this.postMessage({
+                type: 'entityDetailsError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to load entity details'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleGetTableProfile(requestId: string, fqn: string) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId, 'profile');
+
+        try {
+            const profile = await this.openMetadataService.getTableProfile(fqn, signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'tableProfile', requestId, profile });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Table profile error:', error);
+            this.postMessage({
+                type: 'tableProfileError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to load the table profile'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleGetColumnProfileHistory(requestId: string, columnFqn: string) {
+        if (!this._view) return;
+
+        // Several columns can be expanded at once, so there is no slot
+        const signal = this.beginRequest(requestId);
+
+        try {
+            const history = await this.openMetadataService.getColumnProfileHistory(columnFqn, signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'columnProfileHistory', requestId, columnFqn, history });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Column profile error:', error);
+            this.postMessage({
+                type: 'columnProfileHistoryError',
+                requestId,
+                columnFqn,
+                error: error instanceof Error ? error.message : 'Failed to load the column profile'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleGetSampleData(requestId: string, fqn: string) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId, 'sample');
+
+        try {
+            const sampleData = withoutSensitiveSample(await this.openMetadataService.getSampleData(fqn, signal));
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'sampleData', requestId, sampleData });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Sample data error:', error);
+            this.postMessage({
+                type: 'sampleDataError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to load sample data'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    // No slot: every expanded table card loads its own report
+    private async handleGetDataQuality(requestId: string, fqn: string) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId);
+
+        try {
+            const report = await this.openMetadataService.getDataQuality(fqn, signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'dataQuality', requestId, fqn, report });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Data quality error:', error);
+            this.postMessage({
+                type: 'dataQualityError',
+                requestId,
+                fqn,
+                error: error instanceof Error ? error.message : 'Failed to load data quality results'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleGetTableUsage(requestId: string, fqn: string) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId, 'usage');
+
+        try {
+            const usage = await this.openMetadataService.getTableUsage(fqn, signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'tableUsage', requestId, usage });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Table usage error:', error);
+            this.postMessage({
+                type: 'tableUsageError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to load usage'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleOpenQuery(sql: string) {
+        try {
+            const document = await vscode.workspace.openTextDocument({ language: 'sql', content: sql });
+            await vscode.window.showTextDocument(document, { preview: false });
+        } catch (error) {
+            log.error('Failed to open query:', error);
+            vscode.window.showErrorMessage(`Failed to open the query: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private async handleGetEntityVersions(requestId: string, fqn: string, entityType: EntityType) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId, 'versions');
+
+        try {
+            const { entityId, versions } = await this.openMetadataService.getEntityVersions(entityType, fqn, signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'entityVersions', requestId, entityId, versions });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Version history error:', error);
+            this.postMessage({
+                type: 'entityVersionsError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to load the version history'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleOpenVersionDiff(entityType: EntityType, entityId: string, name: string, fromVersion: number, toVersion: number) {
+        try {
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                VersionDocumentProvider.uri(entityType, entityId, name, fromVersion),
+                VersionDocumentProvider.uri(entityType, entityId, name, toVersion),
+                `${name}: v${fromVersion} ↔ v${toVersion}`
+            );
+        } catch (error) {
+            log.error('Failed to open version diff:', error);
+            vscode.window.showErrorMessage(`Failed to compare versions: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private async handleSummarizeVersionChange(requestId: string, entityType: EntityType, entityId: string, fromVersion: number, toVersion: number) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId, 'versionSummary');
+
+        try {
+            const [before, after, history] = await Promise.all([
+                this.openMetadataService.getEntityVersion(entityType, entityId, fromVersion, signal),
+                this.openMetadataService.getEntityVersion(entityType, entityId, toVersion, signal),
+                this.openMetadataService.getVersionHistory(entityType, entityId, signal)
+            ]);
+            // Impact is described from lineage when there is any
+            const downstream = await this.lineageService.getDirectionalLineage(after.fullyQualifiedName, entityType, 0, 1, signal)
+                .then(lineage => lineage.nodes.filter(node => node.id !== lineage.centerNode.id).map(node => node.fullyQualifiedName || node.name))
+                .catch((error): string[] => {
+                    if (signal.aborted) throw error;
+                    log.debug('No lineage for version summary:', error);
+                    return [];
+                });
+
+            // Sensitive columns stay out of the prompt, including the changes recorded for them
+            const visibleBefore = withoutSensitiveColumns(before.columns).columns;
+            const visibleAfter = withoutSensitiveColumns(after.columns).columns;
+            // Change descriptions name columns by their raw name, quoted when it contains a dot
+            const hidden = [...before.columns || [], ...after.columns || []]
+                .filter(column => !visibleBefore?.includes(column) && !visibleAfter?.includes(column))
+                .flatMap(column => [`columns.${column.name}`, `columns."${column.name}"`]);
+            const changes = history
+                .filter(version => version.version > fromVersion && version.version <= toVersion)
+                .flatMap(version => version.changes)
+                .filter(change => !hidden.some(field => change.field === field || change.field.startsWith(`${field}.`)));
+
+            const summary = await this.llmService.summarizeVersionChange({
+                name: after.displayName || after.name,
+                entityType,
+                fromVersion,
+                toVersion,
+                before: renderVersionDocument({ ...before, columns: visibleBefore }),
+                after: renderVersionDocument({ ...after, columns: visibleAfter }),
+                changes,
+                owners: after.owners.map(owner => owner.name),
+                followers: after.followers.length,
+                downstream
+            }, signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'versionSummary', requestId, summary });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Version summary error:', error);
+            this.postMessage({
+                type: 'versionSummary',
+                requestId,
+                summary: `❌ AI summary failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    /**
+     * A table with its profile and usage, ready for an LLM prompt. Sensitive
+     * columns and their metrics are left out when the privacy setting is on.
+     */
+    private async loadTableForLLM(fqn: string, signal: AbortSignal): Promise<{ details: EntityDetails; table: TableResult; context: TableAnalysisContext }> {
+        const [details, profile, usage] = await Promise.all([
+            this.openMetadataService.getEntityDetails('table', fqn, signal),
+            // Without a profile or usage the prompt falls back to names and descriptions
+            this.openMetadataService.getTableProfile(fqn, signal).catch((error): TableProfile | undefined => {
+                if (signal.aborted) throw error;
+                log.debug('No profile for table prompt:', error);
+                return undefined;
+            }),
+            this.openMetadataService.getTableUsage(fqn, signal).catch((error): TableUsage | undefined => {
+                if (signal.aborted) throw error;
+                log.debug('No usage for table prompt:', error);
+                return undefined;
+            })
+        ]);
+        const visible = withoutSensitiveColumns(details.columns, profile);
+
+        return {
+            details,
+            table: {
+                id: details.id,
+                entityType: 'table',
+                name: details.name,
+                displayName: details.displayName,
+                fullyQualifiedName: details.fullyQualifiedName,
+                description: details.description,
+                service: details.service,
+                owners: details.owners.map(owner => owner.name),
+                updatedAt: details.updatedAt ? new Date(details.updatedAt).toISOString() : undefined,
+                tags: details.tier ? [details.tier, ...details.tags] : details.tags,
+                tableType: details.tableType,
+                database: details.database,
+                schema: details.schema,
+                columns: visible.columns,
+                rowCount: profile?.rowCount
+            },
+            context: { profile: visible.profile, usage }
+        };
+    }
+
+    private async handleAnalyzeTable(requestId: string, fqn: string) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId, 'analysis');
+
+        try {
+            const { table, context } = await this.loadTableForLLM(fqn, signal);
+            const analysis = await this.llmService.analyzeTable(table, signal, context);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'tableAnalysis', requestId, analysis });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Table analysis error:', error);
+            this.postMessage({
+                type: 'tableAnalysis',
+                requestId,
+                analysis: `❌ AI analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async draftDescription(fqn: string, column: string | undefined, signal: AbortSignal): Promise<DescriptionDraft> {
+        const [{ details, table, context }, canEdit] = await Promise.all([
+            this.loadTableForLLM(fqn, signal),
+            this.openMetadataService.canEditDescription(fqn, signal)
+        ]);
+
+        let current = details.description;
+        if (column) {
+            const target = details.columns?.find(c => c.name === column);
+            if (!target) {
+                throw new Error(`Column ${column} not found in ${fqn}`);
+            }
+            // A sensitive column is missing from the prompt's column list
+            if (!table.columns?.includes(target)) {
+                throw new Error(`${column} is tagged ${SENSITIVE_TAG}, so it is not sent to the LLM. Turn off openmetadataExplorer.privacy.excludeSensitiveColumns to allow it.`);
+            }
+            current = target.description;
+        }
+
+        const draft = await this.llmService.generateDescription(table, column, signal, context);
+        return { fqn, column, current, draft, canEdit };
+    }
+
+    private async handleGenerateDescription(requestId: string, fqn: string, column?: string) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId, 'description');
+
+        try {
+            const draft = await this.draftDescription(fqn, column, signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'descriptionDraft', requestId, draft });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Description draft error:', error);
+            this.postMessage({
+                type: 'descriptionDraftError',
+                requestId,
+                fqn,
+                error: error instanceof Error ? error.message : 'Failed to draft a description'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    // Drafts one table at a time so results arrive as they are ready and a cancel stops the walk
+    private async handleGenerateSchemaDescriptions(requestId: string, schemaFqn: string) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId, 'schemaDescriptions');
+
+        try {
+            const tables = await this.openMetadataService.listUndocumentedTables(schemaFqn, signal);
+            if (signal.aborted) return;
+            this.postMessage({ type: 'undocumentedTables', requestId, schemaFqn, tables });
+
+            for (const fqn of tables) {
+                try {
+                    const draft = await this.draftDescription(fqn, undefined, signal);
+                    if (signal.aborted) return;
+                    this.postMessage({ type: 'descriptionDraft', requestId, draft });
+                } catch (error) {
+                    if (signal.aborted) return;
+                    log.error(`Description draft error for ${fqn}:`, error);
+                    this.postMessage({
+                        type: 'descriptionDraftError',
+                        requestId,
+                        fqn,
+                        error: error instanceof Error ? error.message : 'Failed to draft a description'
+                    });
+                }
+            }
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Undocumented tables error:', error);
+            this.postMessage({
+                type: 'undocumentedTablesError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to list the tables of the schema'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    // Users without edit rights get a task for the owners instead of an error
+    private async handleApplyDescription(requestId: string, fqn: string, description: string, column?: string) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId);
+
+        try {
+            let outcome: DescriptionOutcome = 'updated';
+            try {
+                await this.openMetadataService.updateDescription(fqn, description, column, signal);
+            } catch (error) {
+                if (!(error instanceof AuthError) || error.status !== 403) throw error;
+                log.info(`Not allowed to edit ${fqn}, requesting the description instead`);
+                await this.openMetadataService.requestDescription(fqn, description, column, signal);
+                outcome = 'taskCreated';
+            }
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'descriptionApplied', requestId, outcome });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Description update error:', error);
+            this.postMessage({
+                type: 'descriptionApplyError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to save the description'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleGetTagOptions(requestId: string) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId);
+
+        try {
+            const options = await this.openMetadataService.getTagOptions(signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'tagOptions', requestId, options });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Tag options error:', error);
+            this.postMessage({
+                type: 'tagOptionsError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to load tags and glossary terms'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleUpdateTags(requestId: string, fqn: string, change: TagChange, column?: string, version?: number) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId);
+
+        try {
+            const state = await this.openMetadataService.updateTags(fqn, change, column, version, signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'tagsUpdated', requestId, state });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Tag update error:', error);
+            this.postMessage({
+                type: 'tagsUpdateError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to update tags',
+                current: error instanceof VersionConflictError ? error.current : undefined
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    /**
+     * Ask the LLM for classification tags per column. Columns already tagged as
+     * sensitive are skipped. Sample values are only sent to an LLM on this
+     * machine, and never those of sensitive columns.
+     */
+    private async handleClassifyColumns(requestId: string, fqn: string, includeSampleValues: boolean) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId, 'classification');
+
+        try {
+            const [details, options] = await Promise.all([
+                this.openMetadataService.getEntityDetails('table', fqn, signal),
+                // Without the catalog's tags the LLM can still propose the PII ones
+                this.openMetadataService.getTagOptions(signal).catch((error): TagOption[] => {
+                    if (signal.aborted) throw error;
+                    log.debug('No tag options for classification:', error);
+                    return [];
+                })
+            ]);
+            const columns = details.columns || [];
+            const candidates = columns.filter(column => !column.tags.includes(SENSITIVE_TAG));
+
+            const local = isLocalEndpoint(this.llmService.getConfiguration().apiUrl);
+            let sampleValues = new Map<string, string[]>();
+            if (includeSampleValues && local) {
+                try {
+                    sampleValues = sampleValuesByColumn(withoutSensitiveSample(await this.openMetadataService.getSampleData(fqn, signal)));
+                } catch (error) {
+                    if (signal.aborted) return;
+                    log.debug('No sample data for classification:', error);
+                }
+            }
+
+            const piiTags: TagOption[] = ['PII.Sensitive', 'PII.NonSensitive'].map(tag => ({ fqn: tag, source: 'Classification' }));
+            const candidateTags = [
+                ...piiTags.map(tag => options.find(option => option.fqn === tag.fqn) || tag),
+                ...options.filter(option => option.source === 'Classification' &&
+                    !option.fqn.startsWith(PII_PREFIX) && !option.fqn.startsWith(TIER_PREFIX))
+            ].slice(0, MAX_CLASSIFICATION_TAGS);
+
+            const classifications = await this.llmService.classifyColumns({
+                table: details.fullyQualifiedName,
+                description: details.description,
+                columns: candidates.map(column => ({
+                    name: column.name,
+                    dataType: column.dataTypeDisplay || column.dataType,
+                    description: column.description,
+                    tags: column.tags,
+                    sampleValues: sampleValues.get(column.name)
+                })),
+                candidateTags
+            }, signal);
+            if (signal.aborted) return;
+
+            const report: ClassificationReport = {
+                fqn,
+                version: details.version,
+                columns: classifications.map(classification => ({
+                    ...classification,
+                    current: columns.find(column => column.name === classification.column)?.tags || []
+                })),
+                skippedColumns: columns.filter(column => !candidates.includes(column)).map(column => column.name),
+                usedSampleValues: [...sampleValues.values()].some(values => values.length > 0),
+                sampleValuesWithheld: includeSampleValues && !local
+            };
+            this.postMessage({ type: 'columnClassifications', requestId, report });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Column classification error:', error);
+            this.postMessage({
+                type: 'columnClassificationsError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to classify columns'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleApplyClassifications(requestId: string, fqn: string, accepted: { column: string; tags: string[] }[], version?: number) {
+        if (!this._view) return;
+
+        const signal = this.beginRequest(requestId);
+
+        try {
+            await this.openMetadataService.addColumnTags(fqn, accepted, version, signal);
+            if (signal.aborted) return;
+
+            this.postMessage({ type: 'classificationsApplied', requestId, columns: accepted.length });
+        } catch (error) {
+            if (signal.aborted) return;
+
+            log.error('Apply classifications error:', error);
+            this.postMessage({
+                type: 'classificationsApplyError',
+                requestId,
+                error: error instanceof Error ? error.message : 'Failed to apply the classifications'
+            });
+        } finally {
+            this.endRequest(requestId);
+        }
+    }
+
+    private async handleGetLineage(requestId: string, tableFqn: string, entityType: EntityType) {
+        if (!this._view) return;
+
+        // Only one lineage graph is shown at a time
+        const signal = this.beginRequest(requestId, 'lineage');
+
         try {
             // Get simple lineage data
-            const lineageData = await this.lineageService.getSimpleLineage(tableFqn, entityType, 2);
-            
+            const lineageData = await this.lineageService.getSimpleLineage(tableFqn, entityType, 2, signal);
+            if (signal.aborted) return;
+
             // Send lineage data to webview
-            this._view.webview.postMessage({
+            this.postMessage({
                 type: 'lineageData',
+                requestId: requestId,
                 tableFqn: tableFqn,
                 lineageData: lineageData
             });
 
         } catch (error) {
-            console.error('Lineage error:', error);
-            this._view.webview.postMessage({
+            if (signal.aborted) return;
+            log.error('Lineage error:', error);
+            this.postMessage({
                 type: 'lineageError',
+                requestId: requestId,
                 tableFqn: tableFqn,
                 error: error instanceof Error ? error.message : 'Failed to load lineage data'
             });
+        } finally {
+            this.endRequest(requestId);
         }
     }
 
-    private async handleExpandLineage(tableFqn: string, nodeId: string, direction: string, entityType: string = 'table') {
+    private async handleExpandLineage(
+        requestId: string,
+        tableFqn: string,
+        nodeId: string,
+        direction: LineageDirection,
+        entityType: EntityType
+    ) {
         if (!this._view) return;
 
+        const signal = this.beginRequest(requestId);
+
         try {
-            console.log(`Expanding lineage for node ${nodeId} in direction ${direction}`);
+            log.debug(`Expanding lineage for node ${nodeId} in direction ${direction}`);
             
             // Get lineage data in the specified direction only
-            let expandedData;
-            if (direction === 'upstream') {
-                // Only get upstream data
-                expandedData = await this.lineageService.getDirectionalLineage(nodeId, entityType, 2, 0);
-            } else if (direction === 'downstream') {
-                // Only get downstream data  
-                expandedData = await this.lineageService.getDirectionalLineage(nodeId, entityType, 0, 2);
-            } else {
-                // Fallback - get both directions (shouldn't happen)
-                expandedData = await this.lineageService.getSimpleLineage(nodeId, entityType, 2);
-            }
+            const expandedData = direction === 'upstream'
+                ? await this.lineageService.getDirectionalLineage(nodeId, entityType, 2, 0, signal)
+                : await this.lineageService.getDirectionalLineage(nodeId, entityType, 0, 2, signal);
             
+            // Cancelled expansions must not be merged into the graph
+            if (signal.aborted) return;
+
             // Send expanded data to webview to be merged
-            this._view.webview.postMessage({
+            this.postMessage({
                 type: 'expandedLineageData',
+                requestId: requestId,
                 tableFqn: tableFqn,
                 nodeId: nodeId,
                 direction: direction,
@@ -201,27 +1310,32 @@ export class OpenMetadataExplorerProvider implements vscode.WebviewViewProvider
             });
 
         } catch (error) {
-            console.error('Expand lineage error:', error);
+            if (signal.aborted) return;
+            log.error('Expand lineage error:', error);
             
             // If there's no additional data, send an empty response
-            this._view.webview.postMessage({
+            this.postMessage({
                 type: 'expandedLineageData',
+                requestId: requestId,
                 tableFqn: tableFqn,
                 nodeId: nodeId,
                 direction: direction,
                 expandedData: { nodes: [], edges: [], centerNode: null }
             });
+        } finally {
+            this.endRequest(requestId);
         }
     }
 
-    private async handleCollapseLineage(tableFqn: string, nodeId: string, direction: string) {
+    private async handleCollapseLineage(requestId: string, tableFqn: string, nodeId: string, direction: LineageDirection) {
         if (!this._view) return;
 
-        console.log(`Collapsing lineage for node ${nodeId} in direction ${direction}`);
+        log.debug(`Collapsing lineage for node ${nodeId} in direction ${direction}`);
         
         // Send collapse confirmation to webview
-        this._view.webview.postMessage({
+        this.postMessage({
             type: 'collapsedLineage',
+            requestId: requestId,
             tableFqn: tableFqn,
             nodeId: nodeId,
             direction: direction
@@ -231,22 +1345,27 @@ export class OpenMetadataExplorerProvider implements vscode.WebviewViewProvider
     private async sendConfig() {
         if (!this._view) return;
 
-        const config = vscode.workspace.getConfiguration('openmetadataExplorer');
         const llmConfig = this.llmService.getConfiguration();
-        this._view.webview.postMessage({
+        const hasAuthToken = await this.auth.hasSession(this.profile);
+        this.postMessage({
             type: 'config',
             config: {
-                openmetadataUrl: config.get<string>('openmetadataUrl'),
-                hasAuthToken: !!config.get<string>('openmetadataAuthToken'),
+                profileName: this.profile.name,
+                profileCount: this.profiles.getProfiles().length,
+                openmetadataUrl: this.profile.openmetadataUrl,
+                hasAuthToken,
                 llmApiUrl: llmConfig.apiUrl,
                 llmModel: llmConfig.model,
                 llmConfigured: this.llmService.isConfigured()
             }
         });
+        this.postMessage({ type: 'connectionHealth', health: this.health.health });
     }
 
     public refresh() {
         if (this._view) {
+            // Replies to the old page would be lost; the new page restores its state and starts afresh
+            this.cancelAllRequests();
             this._view.webview.html = this._getHtmlForWebview(this._view.webview);
         }
     }
@@ -260,8 +1379,8 @@ export class OpenMetadataExplorerProvider implements vscode.WebviewViewProvider
             vscode.Uri.joinPath(this._extensionUri, 'assets', 'robot_icon_32.png')
         );
 
-        console.log('🔗 Webview script URI:', scriptUri.toString());
-        console.log('🖼️ Logo URI:', logoUri.toString());
+        log.debug('Webview script URI:', scriptUri.toString());
+        log.debug('Logo URI:', logoUri.toString());
 
         // Use a nonce to only allow specific scripts to be run
         const nonce = getNonce();
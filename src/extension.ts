@@ -1,38 +1,72 @@
 import * as vscode from 'vscode';
 import { OpenMetadataExplorerProvider } from './OpenMetadataExplorerProvider';
+import { AuthService } from './services/AuthService';
+import { CredentialService } from './services/CredentialService';
+import { DiagnosticsService } from './services/DiagnosticsService';
+import { log } from './services/LogService';
+import { ProfileService } from './services/ProfileService';
 
 export function activate(context: vscode.ExtensionContext) {
-    console.log('🚀 Local LLM Chat for OpenMetadata: Starting activation...');
+    log.initialize(context);
+    log.info('Local LLM Chat for OpenMetadata: Starting activation...');
 
     try {
+        // Tokens live in SecretStorage; move any plain-text ones over before services use them
+        const credentials = new CredentialService(context);
+        credentials.migrateFromSettings().catch(error => {
+            log.error('Failed to migrate tokens to secret storage:', error);
+        });
+
+        const profiles = new ProfileService(context);
+        const auth = new AuthService(context, credentials, profiles);
+        const diagnostics = new DiagnosticsService(context, credentials, profiles);
+
         // Create the webview provider
-        console.log('🔧 Creating webview provider...');
-        const provider = new OpenMetadataExplorerProvider(context.extensionUri, context);
+        log.debug('Creating webview provider...');
+        const provider = new OpenMetadataExplorerProvider(context.extensionUri, context, credentials, profiles, auth);
 
         // Register the webview provider
-        console.log('📝 Registering webview provider...');
+        log.debug('Registering webview provider...');
         context.subscriptions.push(
-            vscode.window.registerWebviewViewProvider('openmetadataExplorer', provider)
+            vscode.window.registerWebviewViewProvider('openmetadataExplorer', provider, {
+                // Keep running searches and the lineage graph alive while another panel is shown
+                webviewOptions: { retainContextWhenHidden: true }
+            })
         );
 
         // Register refresh command
-        console.log('⚙️ Registering commands...');
+        log.debug('Registering commands...');
         context.subscriptions.push(
             vscode.commands.registerCommand('openmetadataExplorer.refresh', () => {
                 provider.refresh();
-            })
+            }),
+            vscode.commands.registerCommand('openmetadataExplorer.setOpenMetadataToken', () => {
+                const profile = profiles.getActiveProfile();
+                return credentials.promptAndStore('openmetadataAuthToken', profile.name, profile.tokenSecret);
+            }),
+            vscode.commands.registerCommand('openmetadataExplorer.setLlmApiKey', () => {
+                const profile = profiles.getActiveProfile();
+                return credentials.promptAndStore('llm.token', profile.name, profile.tokenSecret);
+            }),
+            vscode.commands.registerCommand('openmetadataExplorer.signIn', () => auth.signIn()),
+            vscode.commands.registerCommand('openmetadataExplorer.signOut', () => auth.signOut()),
+            vscode.commands.registerCommand('openmetadataExplorer.switchProfile', () => profiles.switchProfile()),
+            vscode.commands.registerCommand('openmetadataExplorer.testConnections', () => provider.health.testConnections()),
+            vscode.commands.registerCommand('openmetadataExplorer.copyDiagnostics', () => diagnostics.copyToClipboard()),
+            vscode.commands.registerCommand('openmetadataExplorer.showLog', () => log.show()),
+            vscode.commands.registerCommand('openmetadataExplorer.rebuildSemanticIndex', () => provider.rebuildSemanticIndex())
         );
 
-        console.log('✅ Local LLM Chat for OpenMetadata activated successfully!');
+        log.info('Local LLM Chat for OpenMetadata activated successfully!');
 
         // Show welcome message
         vscode.window.showInformationMessage('Local LLM Chat for OpenMetadata is ready! 🚀');
     } catch (error) {
-        console.error('❌ Failed to activate Local LLM Chat for OpenMetadata:', error);
+        log.error('Failed to activate Local LLM Chat for OpenMetadata:', error);
         vscode.window.showErrorMessage(`Failed to activate Local LLM Chat for OpenMetadata: ${error}`);
     }
 }
 
 export function deactivate() {
-    console.log('Local LLM Chat for OpenMetadata deactivated');
+    log.info('Local LLM Chat for OpenMetadata deactivated');
 }
\ No newline at end of file
@@ -0,0 +1,358 @@
+import * as vscode from 'vscode';
+import { CredentialService } from './CredentialService';
+import { AuthError, HttpClient } from './HttpClient';
+import { log } from './LogService';
+import { OidcSettings, OidcTokens, refreshOidcTokens, signInWithBrowser } from './OidcClient';
+import { ConnectionProfile, ProfileService } from './ProfileService';
+
+export const AUTH_PROVIDER_ID = 'openmetadata';
+
+// Refresh tokens this long before they expire
+const REFRESH_MARGIN = 60 * 1000;
+const LAST_EMAIL_KEY = 'openmetadataExplorer.lastLoginEmail';
+
+interface StoredSession {
+    method: 'basic' | 'oidc';
+    account: string;
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+    // OIDC only: where and as whom to refresh
+    tokenEndpoint?: string;
+    clientId?: string;
+}
+
+// Response of OpenMetadata's /users/login and /users/refresh
+interface JwtResponse {
+    accessToken: string;
+    refreshToken?: string;
+    expiryDuration?: number;
+}
+
+// Response of /system/config/auth
+interface ServerAuthConfig {
+    provider?: string;
+    authority?: string;
+    clientId?: string;
+}
+
+function jwtExpiry(token: string): number | undefined {
+    try {
+        const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString('utf8'));
+        return typeof payload.exp === 'number' ? payload.exp * 1000 : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Signs in to OpenMetadata with username and password (basic auth) or through
+ * the server's OIDC provider in the browser, and keeps the session of each
+ * profile in SecretStorage. Sessions are refreshed shortly before they expire.
+ * Without a session, the token stored with "Set OpenMetadata Token" is used.
+ *
+ * Also registered as a VS Code authentication provider, so sessions show up
+ * in the Accounts menu.
+ */
+export class AuthService implements vscode.AuthenticationProvider {
+    private readonly sessionsEmitter = new vscode.EventEmitter<vscode.AuthenticationProviderAuthenticationSessionsChangeEvent>();
+    readonly onDidChangeSessions = this.sessionsEmitter.event;
+    // One refresh per profile at a time; concurrent requests wait for it
+    private refreshing = new Map<string, Promise<StoredSession | undefined>>();
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly credentials: CredentialService,
+        private readonly profiles: ProfileService
+    ) {
+        context.subscriptions.push(
+            this.sessionsEmitter,
+            vscode.authentication.registerAuthenticationProvider(AUTH_PROVIDER_ID, 'OpenMetadata', this)
+        );
+    }
+
+    /**
+     * Bearer token for the profile: the signed-in session if there is one,
+     * otherwise the stored token.
+     */
+    async getAccessToken(profile: ConnectionProfile): Promise<string | undefined> {
+        let session = await this.load(profile);
+        if (!session) {
+            return this.credentials.get('openmetadataAuthToken', profile.tokenSecret);
+        }
+
+        if (session.expiresAt && session.expiresAt - REFRESH_MARGIN < Date.now()) {
+            session = await this.refresh(profile, session);
+        }
+
+        return session?.accessToken;
+    }
+
+    /**
+     * Whether the profile has a session or a stored token. Does not refresh the
+     * session, so it works offline.
+     */
+    async hasSession(profile: ConnectionProfile): Promise<boolean> {
+        return !!(await this.load(profile)) || !!(await this.credentials.get('openmetadataAuthToken', profile.tokenSecret));
+    }
+
+    async signIn(): Promise<void> {
+        const profile = this.profiles.getActiveProfile();
+        const serverConfig = await this.getServerAuthConfig(profile);
+        const oidc = this.getOidcSettings(serverConfig);
+
+        const items: (vscode.QuickPickItem & { method: 'basic' | 'oidc' | 'token' })[] = [
+            { label: '$(account) Username and password', description: 'OpenMetadata basic login', method: 'basic' },
+            { label: '$(globe) Single sign-on', description: oidc ? new URL(oidc.authority).host : 'Not configured on this server', method: 'oidc' },
+            { label: '$(key) Paste a token', description: 'Bot or personal access token', method: 'token' }
+        ];
+        // Offer the method the server is configured for first
+        if (serverConfig?.provider && serverConfig.provider !== 'basic') {
+            items.unshift(items.splice(1, 1)[0]);
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: `Sign In to OpenMetadata (${profile.name} profile)`,
+            placeHolder: profile.openmetadataUrl
+        });
+        if (!picked) return;
+
+        try {
+            if (picked.method === 'token') {
+                await this.credentials.promptAndStore('openmetadataAuthToken', profile.name, profile.tokenSecret);
+                return;
+            }
+
+            const session = picked.method === 'basic'
+                ? await this.basicLogin(profile)
+                : await this.oidcLogin(oidc);
+            if (!session) return;
+
+            await this.save(profile, session);
+            this.sessionsEmitter.fire({ added: [this.toAuthenticationSession(profile, session)], removed: [], changed: [] });
+            vscode.window.showInformationMessage(`Signed in to OpenMetadata as ${session.account}.`);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) return;
+            log.error('Sign-in failed:', error);
+            vscode.window.showErrorMessage(`Sign-in to OpenMetadata failed: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    async signOut(): Promise<void> {
+        const profile = this.profiles.getActiveProfile();
+        const session = await this.load(profile);
+        if (!session) {
+            vscode.window.showInformationMessage(`Not signed in to OpenMetadata (${profile.name} profile).`);
+            return;
+        }
+
+        await this.context.secrets.delete(this.secretKey(profile));
+        this.sessionsEmitter.fire({ added: [], removed: [this.toAuthenticationSession(profile, session)], changed: [] });
+        vscode.window.showInformationMessage(`Signed out of OpenMetadata (${session.account}).`);
+    }
+
+    async getSessions(): Promise<vscode.AuthenticationSession[]> {
+        const profile = this.profiles.getActiveProfile();
+        const session = await this.load(profile);
+        return session ? [this.toAuthenticationSession(profile, session)] : [];
+    }
+
+    async createSession(): Promise<vscode.AuthenticationSession> {
+        await this.signIn();
+        const [session] = await this.getSessions();
+        if (!session) {
+            throw new Error('Sign-in to OpenMetadata was cancelled');
+        }
+        return session;
+    }
+
+    async removeSession(): Promise<void> {
+        await this.signOut();
+    }
+
+    private async basicLogin(profile: ConnectionProfile): Promise<StoredSession | undefined> {
+        const email = await vscode.window.showInputBox({
+            title: 'OpenMetadata Sign In (1/2)',
+            prompt: 'Email address',
+            value: this.context.globalState.get<string>(LAST_EMAIL_KEY),
+            ignoreFocusOut: true
+        });
+        if (!email) return undefined;
+
+        const password = await vscode.window.showInputBox({
+            title: 'OpenMetadata Sign In (2/2)',
+            prompt: `Password for ${email}`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (!password) return undefined;
+
+        await this.context.globalState.update(LAST_EMAIL_KEY, email);
+
+        // OpenMetadata expects the password base64-encoded
+        const response = await this.http(profile).post<JwtResponse>('/api/v1/users/login', {
+            email,
+            password: Buffer.from(password, 'utf8').toString('base64')
+        }, { retries: 0 });
+
+        return this.fromJwtResponse(email, response);
+    }
+
+    private async oidcLogin(settings: OidcSettings | undefined): Promise<StoredSession | undefined> {
+        if (!settings) {
+            const choice = await vscode.window.showWarningMessage(
+                'This OpenMetadata server does not advertise an SSO provider. Set the OIDC authority and client ID in the settings.',
+                'Open Settings'
+            );
+            if (choice === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'openmetadataExplorer.oidc');
+            }
+            return undefined;
+        }
+
+        const tokens = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Signing in to OpenMetadata in your browser...', cancellable: true },
+            (_progress, token) => signInWithBrowser(settings, token)
+        );
+
+        return this.fromOidcTokens(tokens, settings.clientId);
+    }
+
+    private refresh(profile: ConnectionProfile, session: StoredSession): Promise<StoredSession | undefined> {
+        const key = this.secretKey(profile);
+        let pending = this.refreshing.get(key);
+        if (!pending) {
+            pending = this.doRefresh(profile, session).finally(() => this.refreshing.delete(key));
+            this.refreshing.set(key, pending);
+        }
+        return pending;
+    }
+
+    private async doRefresh(profile: ConnectionProfile, session: StoredSession): Promise<StoredSession | undefined> {
+        if (!session.refreshToken) {
+            return this.expire(profile, session);
+        }
+
+        try {
+            log.info(`Refreshing OpenMetadata session of ${session.account}`);
+            const refreshed = session.method === 'oidc'
+                ? this.fromOidcTokens(await refreshOidcTokens(session.tokenEndpoint!, session.clientId!, session.refreshToken), session.clientId!, session.account)
+                : this.fromJwtResponse(session.account, await this.http(profile).post<JwtResponse>('/api/v1/users/refresh', {
+                    refreshToken: session.refreshToken
+                }));
+
+            await this.save(profile, refreshed);
+            return refreshed;
+        } catch (error) {
+            log.error('Refreshing the OpenMetadata session failed:', error);
+            // Only a rejected refresh token ends the session; after a network or
+            // server error the next request tries again
+            if (error instanceof AuthError) {
+                return this.expire(profile, session);
+            }
+            throw error;
+        }
+    }
+
+    private async expire(profile: ConnectionProfile, session: StoredSession): Promise<undefined> {
+        await this.context.secrets.delete(this.secretKey(profile));
+        this.sessionsEmitter.fire({ added: [], removed: [this.toAuthenticationSession(profile, session)], changed: [] });
+
+        vscode.window.showWarningMessage(`Your OpenMetadata session (${session.account}) has expired.`, 'Sign In')
+            .then(choice => {
+                if (choice === 'Sign In') {
+                    this.signIn();
+                }
+            });
+        return undefined;
+    }
+
+    private fromJwtResponse(account: string, response: JwtResponse): StoredSession {
+        return {
+            method: 'basic',
+            account,
+            accessToken: response.accessToken,
+            refreshToken: response.refreshToken,
+            expiresAt: jwtExpiry(response.accessToken)
+        };
+    }
+
+    private fromOidcTokens(tokens: OidcTokens, clientId: string, account?: string): StoredSession {
+        let name = account;
+        if (!name) {
+            try {
+                const claims = JSON.parse(Buffer.from(tokens.idToken.split('.')[1], 'base64').toString('utf8'));
+                name = claims.email || claims.preferred_username || claims.sub;
+            } catch {
+                // Opaque token; fall through to the generic name
+            }
+        }
+
+        return {
+            method: 'oidc',
+            account: name || 'SSO user',
+            accessToken: tokens.idToken,
+            refreshToken: tokens.refreshToken,
+            expiresAt: jwtExpiry(tokens.idToken) ?? tokens.expiresAt,
+            tokenEndpoint: tokens.tokenEndpoint,
+            clientId
+        };
+    }
+
+    private async getServerAuthConfig(profile: ConnectionProfile): Promise<ServerAuthConfig | undefined> {
+        try {
+            return await this.http(profile).get<ServerAuthConfig>('/api/v1/system/config/auth', { retries: 0, timeout: 10000 });
+        } catch (error) {
+            log.warn('Could not read the server authentication config:', error);
+            return undefined;
+        }
+    }
+
+    // Settings take precedence over what the server advertises
+    private getOidcSettings(serverConfig?: ServerAuthConfig): OidcSettings | undefined {
+        const config = vscode.workspace.getConfiguration('openmetadataExplorer.oidc');
+        const serverOidc = serverConfig?.provider && serverConfig.provider !== 'basic' ? serverConfig : undefined;
+        const authority = config.get<string>('authority') || serverOidc?.authority;
+        const clientId = config.get<string>('clientId') || serverOidc?.clientId;
+
+        if (!authority || !clientId) {
+            return undefined;
+        }
+        return { authority, clientId, scopes: config.get<string>('scopes') || 'openid email profile offline_access' };
+    }
+
+    private http(profile: ConnectionProfile): HttpClient {
+        return new HttpClient({ name: 'OpenMetadata', baseUrl: profile.openmetadataUrl });
+    }
+
+    private async load(profile: ConnectionProfile): Promise<StoredSession | undefined> {
+        const stored = await this.context.secrets.get(this.secretKey(profile));
+        if (!stored) return undefined;
+
+        try {
+            return JSON.parse(stored);
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async save(profile: ConnectionProfile, session: StoredSession): Promise<void> {
+        await this.context.secrets.store(this.secretKey(profile), JSON.stringify(session));
+    }
+
+    private toAuthenticationSession(profile: ConnectionProfile, session: StoredSession): vscode.AuthenticationSession {
+        return {
+            id: profile.name,
+            accessToken: session.accessToken,
+            account: { id: session.account, label: `${session.account} (${profile.name})` },
+            scopes: []
+        };
+    }
+
+    // Sessions sit next to the profile's tokens in SecretStorage
+    private secretKey(profile: ConnectionProfile): string {
+        return profile.tokenSecret
+            ? `openmetadataExplorer.profiles.${profile.tokenSecret}.session`
+            : 'openmetadataExplorer.session';
+    }
+}
@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { log } from './LogService';
+
+// Setting keys (relative to `openmetadataExplorer`) that hold credentials
+export type CredentialKey = 'openmetadataAuthToken' | 'llm.token';
+
+const CREDENTIAL_LABELS: Record<CredentialKey, string> = {
+    'openmetadataAuthToken': 'OpenMetadata token',
+    'llm.token': 'LLM API key'
+};
+
+const MIGRATION_FLAG = 'openmetadataExplorer.secretsMigrated';
+
+/**
+ * Resolves credentials from VS Code's SecretStorage. Credentials of the default
+ * profile fall back to the deprecated plain-text settings of the same name;
+ * named profiles keep theirs under their `tokenSecret`.
+ */
+export class CredentialService {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+    // Set while tokens are being moved so the resulting settings changes don't trigger a warning
+    private moving = false;
+
+    constructor(private readonly context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            this.changeEmitter,
+            context.secrets.onDidChange(event => {
+                if (event.key.startsWith('openmetadataExplorer.')) {
+                    this.changeEmitter.fire();
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                const changed = this.allKeys().filter(key => event.affectsConfiguration(`openmetadataExplorer.${key}`));
+                if (changed.length > 0 && !this.moving) {
+                    this.warnAboutPlainTextTokens(changed);
+                }
+            })
+        );
+    }
+
+    async get(key: CredentialKey, tokenSecret?: string): Promise<string | undefined> {
+        const secret = await this.context.secrets.get(this.secretKey(key, tokenSecret));
+        if (secret || tokenSecret) {
+            return secret || undefined;
+        }
+
+        return vscode.workspace.getConfiguration('openmetadataExplorer').get<string>(key) || undefined;
+    }
+
+    async store(key: CredentialKey, value: string, tokenSecret?: string): Promise<void> {
+        if (value) {
+            await this.context.secrets.store(this.secretKey(key, tokenSecret), value);
+        } else {
+            await this.context.secrets.delete(this.secretKey(key, tokenSecret));
+        }
+    }
+
+    /**
+     * Ask the user for a credential and store it in SecretStorage.
+     * An empty value clears the stored credential.
+     */
+    async promptAndStore(key: CredentialKey, profileName: string, tokenSecret?: string): Promise<void> {
+        const label = CREDENTIAL_LABELS[key];
+        const value = await vscode.window.showInputBox({
+            title: `Set ${label} (${profileName} profile)`,
+            prompt: `Enter the ${label}. It is kept in VS Code's secret storage. Leave empty to remove it.`,
+            password: true,
+            ignoreFocusOut: true
+        });
+
+        // Escape cancels without touching the stored value
+        if (value === undefined) return;
+
+        await this.store(key, value.trim(), tokenSecret);
+        vscode.window.showInformationMessage(value.trim() ? `${label} saved to secret storage.` : `${label} removed.`);
+    }
+
+    /**
+     * Move plain-text tokens from settings into SecretStorage. Runs once per installation;
+     * afterwards tokens that reappear in settings only trigger a warning.
+     */
+    async migrateFromSettings(): Promise<void> {
+        if (!this.context.globalState.get<boolean>(MIGRATION_FLAG)) {
+            for (const key of this.getPlainTextKeys()) {
+                // Never overwrite a token that was already stored securely
+                if (!(await this.context.secrets.get(this.secretKey(key)))) {
+                    await this.moveToSecretStorage(key);
+                }
+            }
+            await this.context.globalState.update(MIGRATION_FLAG, true);
+        }
+
+        await this.warnAboutPlainTextTokens(this.allKeys());
+    }
+
+    private async warnAboutPlainTextTokens(keys: CredentialKey[]): Promise<void> {
+        const plainTextKeys = this.getPlainTextKeys().filter(key => keys.includes(key));
+        if (plainTextKeys.length === 0) return;
+
+        const labels = plainTextKeys.map(key => CREDENTIAL_LABELS[key]).join(' and ');
+        const choice = await vscode.window.showWarningMessage(
+            `Your ${labels} is stored in plain-text settings, which may be synced or shared. Move it to secret storage?`,
+            'Move to Secret Storage',
+            'Open Settings'
+        );
+
+        if (choice === 'Move to Secret Storage') {
+            for (const key of plainTextKeys) {
+                await this.moveToSecretStorage(key);
+            }
+        } else if (choice === 'Open Settings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'openmetadataExplorer');
+        }
+    }
+
+    private async moveToSecretStorage(key: CredentialKey): Promise<void> {
+        const config = vscode.workspace.getConfiguration('openmetadataExplorer');
+        const inspected = config.inspect<string>(key);
+        const value = inspected?.workspaceFolderValue || inspected?.workspaceValue || inspected?.globalValue;
+        if (!value) return;
+
+        await this.store(key, value);
+
+        this.moving = true;
+        try {
+            if (inspected?.globalValue !== undefined) {
+                await config.update(key, undefined, vscode.ConfigurationTarget.Global);
+            }
+            if (inspected?.workspaceValue !== undefined) {
+                await config.update(key, undefined, vscode.ConfigurationTarget.Workspace);
+            }
+        } catch (error) {
+            log.error(`Failed to remove ${key} from settings:`, error);
+            vscode.window.showWarningMessage(`${CREDENTIAL_LABELS[key]} was copied to secret storage but could not be removed from settings. Please remove it manually.`);
+        } finally {
+            this.moving = false;
+        }
+    }
+
+    // Keys that have an explicit (non-default) value in any settings scope
+    private getPlainTextKeys(): CredentialKey[] {
+        const config = vscode.workspace.getConfiguration('openmetadataExplorer');
+        return this.allKeys().filter(key => {
+            const inspected = config.inspect<string>(key);
+            return !!(inspected?.globalValue || inspected?.workspaceValue || inspected?.workspaceFolderValue);
+        });
+    }
+
+    private allKeys(): CredentialKey[] {
+        return Object.keys(CREDENTIAL_LABELS) as CredentialKey[];
+    }
+
+    private secretKey(key: CredentialKey, tokenSecret?: string): string {
+        return tokenSecret
+            ? `openmetadataExplorer.profiles.${tokenSecret}.${key}`
+            : `openmetadataExplorer.${key}`;
+    }
+}
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { CredentialKey, CredentialService } from './CredentialService';
+import { log, redactValue } from './LogService';
+import { ProfileService } from './ProfileService';
+
+const CREDENTIAL_KEYS: CredentialKey[] = ['openmetadataAuthToken', 'llm.token'];
+
+/**
+ * Builds the diagnostics bundle users attach to bug reports: versions,
+ * settings without secrets and the most recent errors.
+ */
+export class DiagnosticsService {
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly credentials: CredentialService,
+        private readonly profiles: ProfileService
+    ) {}
+
+    async copyToClipboard(): Promise<void> {
+        const report = await this.buildReport();
+        await vscode.env.clipboard.writeText(report);
+
+        const choice = await vscode.window.showInformationMessage(
+            'OpenMetadata Explorer diagnostics copied to the clipboard. Secrets are not included.',
+            'Open Log'
+        );
+        if (choice === 'Open Log') {
+            log.show();
+        }
+    }
+
+    async buildReport(): Promise<string> {
+        const packageJSON = this.context.extension.packageJSON;
+        const profile = this.profiles.getActiveProfile();
+
+        // Only report whether a credential is present, never its value
+        const credentials: Record<string, boolean> = {};
+        for (const key of CREDENTIAL_KEYS) {
+            credentials[key] = !!(await this.credentials.get(key, profile.tokenSecret));
+        }
+
+        const recentErrors = log.getRecentErrors();
+
+        return [
+            '## OpenMetadata Explorer diagnostics',
+            '',
+            `- Extension: ${packageJSON.name} ${packageJSON.version}`,
+            `- VS Code: ${vscode.version} (${vscode.env.appName}${vscode.env.remoteName ? `, remote: ${vscode.env.remoteName}` : ''})`,
+            `- Platform: ${process.platform} ${process.arch}, Node ${process.versions.node}`,
+            `- Active profile: ${profile.name} (${this.profiles.getProfiles().length} configured)`,
+            '',
+            '### Credentials present',
+            '```json',
+            JSON.stringify(credentials, null, 2),
+            '```',
+            '',
+            '### Settings',
+            '```json',
+            JSON.stringify(this.getSettings(), null, 2),
+            '```',
+            '',
+            `### Recent errors (${recentErrors.length})`,
+            '```',
+            recentErrors.length > 0 ? recentErrors.join('\n') : 'None',
+            '```'
+        ].join('\n');
+    }
+
+    private getSettings(): Record<string, unknown> {
+        const config = vscode.workspace.getConfiguration();
+        const properties = Object.keys(this.context.extension.packageJSON.contributes?.configuration?.properties || {});
+        const settings: Record<string, unknown> = {};
+
+        for (const key of properties) {
+            settings[key] = config.get(key);
+        }
+
+        return redactValue(settings) as Record<string, unknown>;
+    }
+}
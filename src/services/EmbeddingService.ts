@@ -0,0 +1,306 @@
+import { createHash } from 'crypto';
+import * as vscode from 'vscode';
+import { TableResult } from '../shared/protocol';
+import { bearerAuth, CancelledError, HttpClient } from './HttpClient';
+import { log } from './LogService';
+import { OpenMetadataService } from './OpenMetadataService';
+
+// Bump when the stored format or the embedded text changes, to force a rebuild
+const INDEX_VERSION = 1;
+const EMBED_BATCH_SIZE = 32;
+// Long texts are cut; most embedding models only read the first few hundred tokens
+const MAX_TEXT_LENGTH = 2000;
+const SEMANTIC_HITS = 10;
+// Weaker matches are mostly noise that would push keyword hits down
+const MIN_SIMILARITY = 0.3;
+// Searches start a background sync when the index is older than this
+const SYNC_INTERVAL = 60 * 60 * 1000;
+
+export interface EmbeddingSettings {
+    enabled: boolean;
+    // OpenAI-compatible embeddings endpoint, e.g. Ollama's http://localhost:11434/v1/embeddings
+    url: string;
+    model: string;
+}
+
+interface IndexedTable {
+    // Stored without profiles and other heavy column fields
+    table: TableResult;
+    vector: number[];
+}
+
+interface SemanticIndex {
+    version: number;
+    model: string;
+    openmetadataUrl: string;
+    // Epoch ms of the last completed sync
+    syncedAt?: number;
+    // By table ID
+    tables: Record<string, IndexedTable>;
+}
+
+export interface SyncResult {
+    embedded: number;
+    removed: number;
+    total: number;
+}
+
+export function getEmbeddingSettings(): EmbeddingSettings {
+    const config = vscode.workspace.getConfiguration('openmetadataExplorer.semanticSearch');
+    return {
+        enabled: config.get<boolean>('enabled') ?? false,
+        url: config.get<string>('embeddingsUrl') || 'http://localhost:11434/v1/embeddings',
+        model: config.get<string>('model') || 'nomic-embed-text'
+    };
+}
+
+/**
+ * Merge ranked lists with reciprocal rank fusion: each item scores the sum of
+ * 1 / (k + rank) over the lists it appears in. The first list's copy of an item wins.
+ */
+export function reciprocalRankFusion<T extends { id: string }>(lists: T[][], k = 60): T[] {
+    const scores = new Map<string, { item: T; score: number }>();
+
+    for (const list of lists) {
+        list.forEach((item, rank) => {
+            const entry = scores.get(item.id);
+            if (entry) {
+                entry.score += 1 / (k + rank + 1);
+            } else {
+                scores.set(item.id, { item, score: 1 / (k + rank + 1) });
+            }
+        });
+    }
+
+    return [...scores.values()]
+        .sort((a, b) => b.score - a.score)
+        .map(entry => entry.item);
+}
+
+/**
+ * Local vector index of table names, descriptions and columns, kept in the
+ * extension's global storage. Embeddings come from an OpenAI-compatible
+ * endpoint, so a local model keeps semantic search fully offline.
+ */
+export class EmbeddingService {
+    private http: HttpClient;
+    // Loaded index of the current server and model
+    private index?: SemanticIndex;
+    private syncing?: Promise<SyncResult>;
+    private syncController?: AbortController;
+
+    constructor(
+        private readonly storageUri: vscode.Uri,
+        getApiKey: () => Promise<string | undefined>
+    ) {
+        this.http = new HttpClient({
+            name: 'Embeddings',
+            getHeaders: bearerAuth(getApiKey),
+            timeout: 60000
+        });
+    }
+
+    isEnabled(): boolean {
+        return getEmbeddingSettings().enabled;
+    }
+
+    /**
+     * Tables most similar to the query, best first. Empty until the first sync
+     * finishes; starts a background sync when the index is missing or stale.
+     */
+    async search(query: string, openMetadata: OpenMetadataService, openmetadataUrl: string, signal?: AbortSignal): Promise<TableResult[]> {
+        const settings = getEmbeddingSettings();
+        const index = await this.loadIndex(openmetadataUrl, settings.model);
+
+        if (!index.syncedAt || Date.now() - index.syncedAt > SYNC_INTERVAL) {
+            this.startSync(openMetadata, openmetadataUrl);
+        }
+
+        const entries = Object.values(index.tables);
+        if (entries.length === 0) {
+            return [];
+        }
+
+        const [queryVector] = await this.embed([query], settings, signal);
+        return entries
+            .map(entry => ({ table: entry.table, similarity: cosineSimilarity(queryVector, entry.vector) }))
+            .filter(hit => hit.similarity >= MIN_SIMILARITY)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, SEMANTIC_HITS)
+            .map(hit => hit.table);
+    }
+
+    /**
+     * Bring the index up to date: embed tables that are new or changed since
+     * they were indexed (by `updatedAt`) and drop deleted ones. With `rebuild`
+     * every table is embedded again.
+     */
+    sync(openMetadata: OpenMetadataService, openmetadataUrl: string, rebuild = false): Promise<SyncResult> {
+        if (rebuild) {
+            this.cancelSync();
+        }
+        if (!this.syncing) {
+            const controller = new AbortController();
+            this.syncController = controller;
+            this.syncing = this.runSync(openMetadata, openmetadataUrl, rebuild, controller.signal).finally(() => {
+                if (this.syncController === controller) {
+                    this.syncing = undefined;
+                    this.syncController = undefined;
+                }
+            });
+        }
+        return this.syncing;
+    }
+
+    // Stops a running sync, e.g. because the server changed; the stored index is left as it was
+    cancelSync() {
+        this.syncController?.abort();
+        this.syncing = undefined;
+        this.syncController = undefined;
+    }
+
+    private startSync(openMetadata: OpenMetadataService, openmetadataUrl: string) {
+        this.sync(openMetadata, openmetadataUrl).catch(error => {
+            if (!(error instanceof CancelledError)) {
+                log.warn('Semantic index sync failed:', error);
+            }
+        });
+    }
+
+    private async runSync(openMetadata: OpenMetadataService, openmetadataUrl: string, rebuild: boolean, signal: AbortSignal): Promise<SyncResult> {
+        const settings = getEmbeddingSettings();
+        const index = await this.loadIndex(openmetadataUrl, settings.model);
+        const previous = rebuild ? {} : index.tables;
+        const tables: Record<string, IndexedTable> = {};
+        const pending: TableResult[] = [];
+        let embedded = 0;
+
+        log.info(`Syncing semantic index for ${openmetadataUrl} (${Object.keys(previous).length} tables indexed)`);
+
+        const embedPending = async () => {
+            const vectors = await this.embed(pending.map(tableText), settings, signal);
+            pending.forEach((table, i) => {
+                tables[table.id] = { table, vector: vectors[i] };
+            });
+            embedded += pending.length;
+            pending.length = 0;
+        };
+
+        let after: string | undefined;
+        do {
+            const page = await openMetadata.listTables(after, signal);
+            for (const table of page.tables) {
+                const known = previous[table.id];
+                if (known && known.table.updatedAt === table.updatedAt) {
+                    tables[table.id] = known;
+                } else {
+                    pending.push(compact(table));
+                }
+            }
+            while (pending.length >= EMBED_BATCH_SIZE) {
+                const rest = pending.splice(EMBED_BATCH_SIZE);
+                await embedPending();
+                pending.push(...rest);
+            }
+            after = page.after;
+        } while (after);
+
+        if (pending.length > 0) {
+            await embedPending();
+        }
+
+        const removed = Object.keys(previous).filter(id => !tables[id]).length;
+        index.tables = tables;
+        index.syncedAt = Date.now();
+        await this.saveIndex(index);
+
+        log.info(`Semantic index synced: ${embedded} embedded, ${removed} removed, ${Object.keys(tables).length} total`);
+        return { embedded, removed, total: Object.keys(tables).length };
+    }
+
+    private async embed(texts: string[], settings: EmbeddingSettings, signal?: AbortSignal): Promise<number[][]> {
+        const data = await this.http.post(settings.url, { model: settings.model, input: texts }, { signal, idempotent: true });
+        const vectors: number[][] = [];
+        for (const item of data?.data || []) {
+            vectors[item.index ?? vectors.length] = item.embedding;
+        }
+        if (vectors.length !== texts.length || vectors.some(vector => !Array.isArray(vector))) {
+            throw new Error(`Embeddings endpoint returned ${vectors.length} vectors for ${texts.length} texts`);
+        }
+        return vectors;
+    }
+
+    private async loadIndex(openmetadataUrl: string, model: string): Promise<SemanticIndex> {
+        if (this.index?.openmetadataUrl === openmetadataUrl && this.index.model === model) {
+            return this.index;
+        }
+
+        const empty: SemanticIndex = { version: INDEX_VERSION, model, openmetadataUrl, tables: {} };
+        try {
+            const bytes = await vscode.workspace.fs.readFile(this.indexUri(openmetadataUrl, model));
+            const stored = JSON.parse(Buffer.from(bytes).toString('utf8')) as SemanticIndex;
+            this.index = stored.version === INDEX_VERSION ? stored : empty;
+        } catch {
+            // No index for this server and model yet
+            this.index = empty;
+        }
+        return this.index;
+    }
+
+    private async saveIndex(index: SemanticIndex) {
+        await vscode.workspace.fs.createDirectory(this.storageUri);
+        await vscode.workspace.fs.writeFile(
+            this.indexUri(index.openmetadataUrl, index.model),
+            Buffer.from(JSON.stringify(index), 'utf8')
+        );
+        if (this.index?.openmetadataUrl === index.openmetadataUrl && this.index.model === index.model) {
+            this.index = index;
+        }
+    }
+
+    // One file per server and model; vectors of different models can't be compared
+    private indexUri(openmetadataUrl: string, model: string): vscode.Uri {
+        const key = createHash('sha256').update(`${openmetadataUrl}\n${model}`).digest('hex').slice(0, 16);
+        return vscode.Uri.joinPath(this.storageUri, `semantic-index-${key}.json`);
+    }
+}
+
+// What gets embedded: name, description, column names and column descriptions
+function tableText(table: TableResult): string {
+    const columns = (table.columns || [])
+        .map((column: any) => column.description ? `${column.name} (${column.description})` : column.name)
+        .join(', ');
+    const text = [
+        table.displayName || table.name,
+        table.fullyQualifiedName,
+        table.description,
+        columns && `Columns: ${columns}`
+    ].filter(Boolean).join('\n');
+    return text.slice(0, MAX_TEXT_LENGTH);
+}
+
+function compact(table: TableResult): TableResult {
+    return {
+        ...table,
+        columns: table.columns?.map((column: any) => ({
+            name: column.name,
+            dataType: column.dataType,
+            description: column.description
+        }))
+    };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) {
+        return 0;
+    }
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
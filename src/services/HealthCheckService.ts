@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import { CONNECTION_FIX_LABELS, ConnectionCheck, ConnectionFix, ConnectionHealth, hasConnectionProblem, isConnectionProblem } from '../shared/protocol';
+import { log } from './LogService';
+
+const STATE_LABELS: Record<ConnectionCheck['state'], string> = {
+    checking: 'checking',
+    ok: 'connected',
+    notConfigured: 'not configured',
+    unreachable: 'unreachable',
+    authFailed: 'auth failed',
+    versionMismatch: 'unsupported version',
+    modelMissing: 'model missing'
+};
+
+// Ollama model names such as "llama3.1:8b" or "library/mistral"; anything else is not sent to a shell
+const OLLAMA_MODEL_NAME = /^[\w.:\/-]+$/;
+
+/**
+ * Checks the OpenMetadata and LLM connections on demand and in the background,
+ * and shows the result in a status bar item.
+ */
+export class HealthCheckService {
+    private readonly changeEmitter = new vscode.EventEmitter<ConnectionHealth>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    private statusBarItem: vscode.StatusBarItem;
+    private timer?: NodeJS.Timeout;
+    private generation = 0;
+    private current: ConnectionHealth = {
+        openmetadata: { state: 'checking', message: 'Checking OpenMetadata connection...' },
+        llm: { state: 'checking', message: 'Checking LLM connection...' }
+    };
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private readonly checkOpenMetadata: () => Promise<ConnectionCheck>,
+        private readonly checkLlm: () => Promise<ConnectionCheck>
+    ) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.statusBarItem.command = 'openmetadataExplorer.testConnections';
+        this.updateStatusBar();
+        this.statusBarItem.show();
+
+        context.subscriptions.push(
+            this.statusBarItem,
+            this.changeEmitter,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('openmetadataExplorer.healthCheckInterval')) {
+                    this.schedule();
+                }
+            }),
+            { dispose: () => clearInterval(this.timer) }
+        );
+
+        this.schedule();
+        this.check();
+    }
+
+    get health(): ConnectionHealth {
+        return this.current;
+    }
+
+    /**
+     * Run both checks. When checks overlap, only the latest one updates the state.
+     */
+    async check(): Promise<ConnectionHealth> {
+        const generation = ++this.generation;
+        const [openmetadata, llm] = await Promise.all([
+            this.safeCheck('OpenMetadata', this.checkOpenMetadata),
+            this.safeCheck('LLM', this.checkLlm)
+        ]);
+        const health: ConnectionHealth = { openmetadata, llm, checkedAt: Date.now() };
+
+        if (generation === this.generation) {
+            this.current = health;
+            log.info(`Connection check: OpenMetadata ${openmetadata.state}, LLM ${llm.state}`);
+            this.updateStatusBar();
+            this.changeEmitter.fire(health);
+        }
+
+        return health;
+    }
+
+    /**
+     * Handler of the "Test Connections" command: check now and report the result.
+     */
+    async testConnections(): Promise<void> {
+        const health = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Testing OpenMetadata and LLM connections...' },
+            () => this.check()
+        );
+
+        const problems = [health.openmetadata, health.llm].filter(check => check.state !== 'ok');
+        if (problems.length === 0) {
+            vscode.window.showInformationMessage(`${health.openmetadata.message}. ${health.llm.message}.`);
+            return;
+        }
+
+        const fixes = [...new Set(problems.map(check => check.fix).filter((fix): fix is ConnectionFix => !!fix))];
+        const choice = await vscode.window.showWarningMessage(
+            problems.map(check => check.message).join(' '),
+            ...fixes.map(fix => CONNECTION_FIX_LABELS[fix])
+        );
+
+        const picked = fixes.find(fix => CONNECTION_FIX_LABELS[fix] === choice);
+        if (picked) {
+            await this.runFix(picked);
+        }
+    }
+
+    async runFix(fix: ConnectionFix): Promise<void> {
+        switch (fix) {
+            case 'openSettings':
+                await vscode.commands.executeCommand('workbench.action.openSettings', 'openmetadataExplorer');
+                break;
+            case 'signIn':
+                await vscode.commands.executeCommand('openmetadataExplorer.signIn');
+                break;
+            case 'setOpenMetadataToken':
+                await vscode.commands.executeCommand('openmetadataExplorer.setOpenMetadataToken');
+                break;
+            case 'setLlmApiKey':
+                await vscode.commands.executeCommand('openmetadataExplorer.setLlmApiKey');
+                break;
+            case 'pullModel': {
+                const model = this.current.llm.detail;
+                if (!model) return;
+                // The name comes from settings, which a workspace can set
+                if (!OLLAMA_MODEL_NAME.test(model)) {
+                    log.warn(`Not pulling model with unexpected name: ${model}`);
+                    vscode.window.showErrorMessage(`"${model}" is not a valid Ollama model name. Check the LLM model setting.`);
+                    return;
+                }
+                const terminal = vscode.window.createTerminal('Ollama');
+                terminal.show();
+                terminal.sendText(`ollama pull ${model}`);
+                break;
+            }
+            case 'showLog':
+                log.show();
+                break;
+        }
+    }
+
+    private async safeCheck(name: string, check: () => Promise<ConnectionCheck>): Promise<ConnectionCheck> {
+        try {
+            return await check();
+        } catch (error) {
+            log.error(`${name} connection check failed:`, error);
+            return {
+                state: 'unreachable',
+                message: `${name} check failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                fix: 'showLog'
+            };
+        }
+    }
+
+    private schedule() {
+        clearInterval(this.timer);
+        this.timer = undefined;
+
+        const minutes = vscode.workspace.getConfiguration('openmetadataExplorer').get<number>('healthCheckInterval') ?? 5;
+        if (minutes > 0) {
+            this.timer = setInterval(() => this.check(), minutes * 60 * 1000);
+        }
+    }
+
+    private updateStatusBar() {
+        const { openmetadata, llm } = this.current;
+        const checks = [openmetadata, llm];
+
+        if (checks.some(check => check.state === 'checking')) {
+            this.statusBarItem.text = '$(sync~spin) OpenMetadata';
+            this.statusBarItem.backgroundColor = undefined;
+        } else if (hasConnectionProblem(this.current)) {
+            const failing = isConnectionProblem(openmetadata) ? `OpenMetadata ${STATE_LABELS[openmetadata.state]}` : `LLM ${STATE_LABELS[llm.state]}`;
+            this.statusBarItem.text = `$(warning) ${failing}`;
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else {
+            this.statusBarItem.text = '$(pass) OpenMetadata';
+            this.statusBarItem.backgroundColor = undefined;
+        }
+
+        this.statusBarItem.tooltip = `OpenMetadata: ${openmetadata.message}\nLLM: ${llm.message}\n\nClick to test connections`;
+    }
+}
@@ -0,0 +1,341 @@
+import axios, { AxiosError, AxiosRequestConfig, Method } from 'axios';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import * as tls from 'tls';
+import * as vscode from 'vscode';
+import { log } from './LogService';
+
+// Statuses that usually clear up on their own
+const RETRY_STATUSES = [429, 502, 503];
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 10000;
+const DEFAULT_TIMEOUT = 30000;
+
+export class HttpError extends Error {
+    constructor(message: string, readonly status?: number, readonly url?: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+// 401 or 403: the token is missing, expired or lacks permission
+export class AuthError extends HttpError {}
+
+export class NotFoundError extends HttpError {}
+
+// 5xx responses
+export class ServerError extends HttpError {}
+
+// No response at all: DNS, refused connection, TLS failure or timeout
+export class NetworkError extends HttpError {
+    constructor(message: string, url: string, readonly code?: string) {
+        super(message, undefined, url);
+    }
+}
+
+export class CancelledError extends HttpError {}
+
+export interface HttpClientOptions {
+    // Service name used in error messages, e.g. "OpenMetadata"
+    name: string;
+    baseUrl?: string;
+    getHeaders?: () => Promise<Record<string, string>>;
+    // Appended to authentication errors to tell the user how to fix them
+    authHint?: string;
+    timeout?: number;
+}
+
+export interface RequestOptions {
+    params?: Record<string, string | number | boolean | undefined>;
+    headers?: Record<string, string>;
+    body?: unknown;
+    timeout?: number;
+    signal?: AbortSignal;
+    // Overrides `openmetadataExplorer.network.maxRetries`
+    retries?: number;
+    // Allows retrying a POST or PATCH that has no side effects, such as an LLM completion
+    idempotent?: boolean;
+}
+
+// Methods that are safe to repeat after a failed attempt, see RFC 9110
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
+/**
+ * Headers for bearer token authentication, resolved per request so new tokens apply immediately.
+ */
+export function bearerAuth(getToken: () => Promise<string | undefined>): () => Promise<Record<string, string>> {
+    return async (): Promise<Record<string, string>> => {
+        const token = await getToken();
+        return token ? { 'Authorization': `Bearer ${token}` } : {};
+    };
+}
+
+/**
+ * HTTP client shared by all services. Adds authentication headers, per-call
+ * timeouts, retries with jittered backoff, proxy and TLS settings, logging,
+ * and maps failures onto the error classes above.
+ */
+export class HttpClient {
+    private baseUrl: string;
+
+    constructor(private readonly options: HttpClientOptions) {
+        this.baseUrl = (options.baseUrl || '').replace(/\/$/, '');
+    }
+
+    get<T = any>(path: string, options?: RequestOptions): Promise<T> {
+        return this.request<T>('GET', path, options);
+    }
+
+    post<T = any>(path: string, body: unknown, options?: RequestOptions): Promise<T> {
+        return this.request<T>('POST', path, { ...options, body });
+    }
+
+    put<T = any>(path: string, body: unknown, options?: RequestOptions): Promise<T> {
+        return this.request<T>('PUT', path, { ...options, body });
+    }
+
+    patch<T = any>(path: string, body: unknown, options?: RequestOptions): Promise<T> {
+        return this.request<T>('PATCH', path, { ...options, body });
+    }
+
+    delete<T = any>(path: string, options?: RequestOptions): Promise<T> {
+        return this.request<T>('DELETE', path, options);
+    }
+
+    async request<T = any>(method: Method, path: string, options: RequestOptions = {}): Promise<T> {
+        const url = /^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`;
+        const network = getNetworkSettings();
+        const retries = options.retries ?? network.maxRetries;
+
+        const config: AxiosRequestConfig = {
+            method,
+            url,
+            params: options.params,
+            data: options.body,
+            timeout: options.timeout ?? this.options.timeout ?? DEFAULT_TIMEOUT,
+            signal: options.signal,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(await this.options.getHeaders?.()),
+                ...options.headers
+            },
+            ...getAgents(url, network)
+        };
+
+        for (let attempt = 0; ; attempt++) {
+            const started = Date.now();
+
+            try {
+                const response = await axios.request<T>(config);
+                log.http(method, url, response.status, Date.now() - started);
+                return response.data;
+            } catch (error) {
+                const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+                if (options.signal?.aborted || axios.isCancel(error)) {
+                    log.debug(`${method} ${url} cancelled after ${Date.now() - started} ms`);
+                    throw new CancelledError(`${this.options.name} request was cancelled`, undefined, url);
+                }
+                log.http(method, url, status, Date.now() - started);
+
+                const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes(method.toUpperCase());
+                if (attempt < retries && idempotent && this.isRetryable(error)) {
+                    const delay = retryDelay(attempt, axios.isAxiosError(error) ? error.response?.headers['retry-after'] : undefined);
+                    log.info(`Retrying ${method} ${url} in ${delay} ms (attempt ${attempt + 2} of ${retries + 1})`);
+                    await sleep(delay, options.signal);
+                    continue;
+                }
+
+                throw this.toHttpError(error, url);
+            }
+        }
+    }
+
+    // Only asked for requests without side effects: a gateway error can follow a write the server already made
+    private isRetryable(error: unknown): boolean {
+        if (!axios.isAxiosError(error)) return false;
+
+        if (error.response) {
+            return RETRY_STATUSES.includes(error.response.status);
+        }
+
+        return error.code === 'ECONNRESET';
+    }
+
+    private toHttpError(error: unknown, url: string): HttpError {
+        const name = this.options.name;
+
+        if (!axios.isAxiosError(error)) {
+            return new HttpError(`${name} request failed: ${error instanceof Error ? error.message : String(error)}`, undefined, url);
+        }
+
+        const response = error.response;
+        if (!response) {
+            return new NetworkError(describeNetworkError(name, url, error), url, error.code);
+        }
+
+        const status = response.status;
+        const detail = serverMessage(response.data) || response.statusText;
+
+        if (status === 401 || status === 403) {
+            const hint = this.options.authHint ? ` ${this.options.authHint}` : '';
+            return new AuthError(`${name} authentication failed (HTTP ${status}).${hint}`, status, url);
+        }
+        if (status === 404) {
+            return new NotFoundError(`${name} resource not found: ${new URL(url).pathname}`, status, url);
+        }
+        if (status >= 500) {
+            return new ServerError(`${name} server error (HTTP ${status})${detail ? `: ${detail}` : ''}`, status, url);
+        }
+        return new HttpError(`${name} request failed (HTTP ${status})${detail ? `: ${detail}` : ''}`, status, url);
+    }
+}
+
+interface NetworkSettings {
+    proxy?: string;
+    noProxy: string[];
+    proxyStrictSSL: boolean;
+    caCertificates: string[];
+    skipTlsVerification: boolean;
+    maxRetries: number;
+}
+
+function getNetworkSettings(): NetworkSettings {
+    const httpConfig = vscode.workspace.getConfiguration('http');
+    const networkConfig = vscode.workspace.getConfiguration('openmetadataExplorer.network');
+
+    return {
+        proxy: httpConfig.get<string>('proxy') || undefined,
+        noProxy: httpConfig.get<string[]>('noProxy') || [],
+        proxyStrictSSL: httpConfig.get<boolean>('proxyStrictSSL') ?? true,
+        caCertificates: networkConfig.get<string[]>('caCertificates') || [],
+        skipTlsVerification: networkConfig.get<boolean>('skipTlsVerification') ?? false,
+        maxRetries: Math.max(0, networkConfig.get<number>('maxRetries') ?? 3)
+    };
+}
+
+type Agents = Pick<AxiosRequestConfig, 'httpAgent' | 'httpsAgent' | 'proxy'>;
+
+// Agents are reused across requests until the network settings change; one set
+// each for proxied hosts and for hosts that bypass the proxy
+let agentCache: { key: string; ca?: string[]; proxied?: Agents; direct?: Agents } | undefined;
+
+function getAgents(url: string, settings: NetworkSettings): Agents {
+    const useProxy = !!settings.proxy && !bypassesProxy(url, settings.noProxy);
+    const key = JSON.stringify({ ...settings, maxRetries: undefined });
+    if (agentCache?.key !== key) {
+        agentCache = { key, ca: loadCertificates(settings.caCertificates) };
+        if (settings.skipTlsVerification) {
+            log.warn('TLS certificate verification is disabled (openmetadataExplorer.network.skipTlsVerification)');
+        }
+    }
+
+    const cached = useProxy ? agentCache.proxied : agentCache.direct;
+    if (cached) {
+        return cached;
+    }
+
+    const rejectUnauthorized = !settings.skipTlsVerification && (!useProxy || settings.proxyStrictSSL);
+    const ca = agentCache.ca;
+    const tlsOptions = { rejectUnauthorized, ...(ca ? { ca } : {}) };
+
+    let agents: Agents;
+    if (useProxy) {
+        const agent = new HttpsProxyAgent(settings.proxy!, tlsOptions);
+        // The agent does the proxying; axios must not apply HTTP(S)_PROXY on top
+        agents = { httpAgent: agent, httpsAgent: agent, proxy: false };
+    } else {
+        agents = { httpAgent: new http.Agent({ keepAlive: true }), httpsAgent: new https.Agent({ keepAlive: true, ...tlsOptions }) };
+    }
+
+    if (useProxy) {
+        agentCache.proxied = agents;
+    } else {
+        agentCache.direct = agents;
+    }
+    return agents;
+}
+
+function bypassesProxy(url: string, noProxy: string[]): boolean {
+    const host = new URL(url).hostname;
+    return noProxy.some(pattern => {
+        const suffix = pattern.trim().replace(/^\*?\.?/, '');
+        return suffix !== '' && (host === suffix || host.endsWith(`.${suffix}`));
+    });
+}
+
+// Custom CAs are added to Node's bundled ones rather than replacing them
+function loadCertificates(paths: string[]): string[] | undefined {
+    const custom: string[] = [];
+    for (const path of paths) {
+        try {
+            custom.push(fs.readFileSync(path, 'utf8'));
+        } catch (error) {
+            log.error(`Cannot read CA certificate ${path}:`, error);
+        }
+    }
+
+    return custom.length > 0 ? [...tls.rootCertificates, ...custom] : undefined;
+}
+
+function retryDelay(attempt: number, retryAfter?: string): number {
+    const seconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+    if (!isNaN(seconds)) {
+        return Math.min(seconds * 1000, RETRY_MAX_DELAY);
+    }
+
+    // Jitter over the upper half of the backoff window so clients don't retry in lockstep
+    const ceiling = Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancelledError('Request was cancelled'));
+        };
+        // Long-lived signals see many retries; each delay removes its listener when it ends
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+function describeNetworkError(name: string, url: string, error: AxiosError): string {
+    const host = new URL(url).host;
+
+    switch (error.code) {
+        case 'ECONNABORTED':
+        case 'ETIMEDOUT':
+            return `${name} at ${host} did not respond in time.`;
+        case 'ECONNREFUSED':
+            return `${name} refused the connection at ${host}. Is the server running?`;
+        case 'ENOTFOUND':
+        case 'EAI_AGAIN':
+            return `Cannot resolve ${host}. Check the ${name} URL and your network.`;
+        case 'DEPTH_ZERO_SELF_SIGNED_CERT':
+        case 'SELF_SIGNED_CERT_IN_CHAIN':
+        case 'UNABLE_TO_VERIFY_LEAF_SIGNATURE':
+        case 'UNABLE_TO_GET_ISSUER_CERT_LOCALLY':
+        case 'CERT_HAS_EXPIRED':
+            return `${name} at ${host} presented an untrusted certificate (${error.code}). Add your CA under openmetadataExplorer.network.caCertificates.`;
+        default:
+            return `Cannot reach ${name} at ${host}: ${error.message}`;
+    }
+}
+
+function serverMessage(data: unknown): string | undefined {
+    if (typeof data === 'string') {
+        return data.slice(0, 200) || undefined;
+    }
+    if (typeof data === 'object' && data !== null) {
+        const body = data as Record<string, any>;
+        return body.message || body.error?.message || (typeof body.error === 'string' ? body.error : undefined);
+    }
+    return undefined;
+}
@@ -5,6 +5,9 @@
  * http://www.apache.org/licenses/LICENSE-2.0
  */
 
+import { bearerAuth, CancelledError, HttpClient } from './HttpClient';
+import { log } from './LogService';
+
 export interface EntityReference {
     id: string;
     type: string;
@@ -53,24 +56,15 @@ export interface LineageConfig {
 }
 
 export class LineageService {
-    private baseURL: string;
-    private authToken: string;
-
-    constructor(baseURL: string, authToken: string) {
-        this.baseURL = baseURL.replace(/\/$/, ''); // Remove trailing slash
-        this.authToken = authToken;
-    }
-
-    private getAuthHeaders(): HeadersInit {
-        const headers: HeadersInit = {
-            'Content-Type': 'application/json',
-        };
-
-        if (this.authToken) {
-            headers['Authorization'] = `Bearer ${this.authToken}`;
-        }
-
-        return headers;
+    private http: HttpClient;
+
+    constructor(baseURL: string, getAuthToken: () => Promise<string | undefined>) {
+        this.http = new HttpClient({
+            name: 'OpenMetadata',
+            baseUrl: baseURL,
+            getHeaders: bearerAuth(getAuthToken),
+            authHint: 'Run "Sign In to OpenMetadata" or "Set OpenMetadata Token" from the Command Palette.'
+        });
     }
 
     /**
@@ -79,37 +73,28 @@ export class LineageService {
     async getLineageData(
         fqn: string,
         entityType: string,
-        config?: LineageConfig
+        config?: LineageConfig,
+        signal?: AbortSignal
     ): Promise<LineageData> {
         const { upstreamDepth = 1, downstreamDepth = 1, nodesPerLayer = 50 } = config || {};
 
         try {
-            const params = new URLSearchParams({
-                fqn: fqn,
-                type: entityType,
-                // OpenMetadata API expects upstreamDepth to be n-1 for n levels
-                upstreamDepth: upstreamDepth === 0 ? '0' : (upstreamDepth - 1).toString(),
-                downstreamDepth: downstreamDepth.toString(),
-                includeDeleted: 'false',
-                size: nodesPerLayer.toString(),
+            return await this.http.get<LineageData>('/api/v1/lineage/getLineage', {
+                params: {
+                    fqn: fqn,
+                    type: entityType,
+                    // OpenMetadata API expects upstreamDepth to be n-1 for n levels
+                    upstreamDepth: upstreamDepth === 0 ? 0 : upstreamDepth - 1,
+                    downstreamDepth: downstreamDepth,
+                    includeDeleted: false,
+                    size: nodesPerLayer,
+                },
+                signal,
             });
-
-            const response = await fetch(
-                `${this.baseURL}/api/v1/lineage/getLineage?${params}`,
-                {
-                    method: 'GET',
-                    headers: this.getAuthHeaders(),
-                }
-            );
-
-            if (!response.ok) {
-                throw new Error(`Failed to fetch lineage data: HTTP ${response.status}: ${response.statusText}`);
-            }
-
-            const data: LineageData = await response.json();
-            return data;
         } catch (error) {
-            console.error('Error fetching lineage data:', error);
+            if (!(error instanceof CancelledError)) {
+                log.error('Error fetching lineage data:', error);
+            }
             throw error;
         }
     }
@@ -121,7 +106,8 @@ export class LineageService {
         fqn: string,
         entityType: string = 'table',
         upstreamDepth: number = 0,
-        downstreamDepth: number = 0
+        downstreamDepth: number = 0,
+        signal?: AbortSignal
     ): Promise<{
         nodes: EntityReference[];
         edges: EdgeDetails[];
@@ -131,7 +117,7 @@ export class LineageService {
             const lineageData = await this.getLineageData(fqn, entityType, {
                 upstreamDepth,
                 downstreamDepth,
-            });
+            }, signal);
 
             // Extract nodes from the lineage data
             const nodes: EntityReference[] = Object.values(lineageData.nodes).map(nodeData => nodeData.entity);
@@ -163,7 +149,9 @@ export class LineageService {
             };
 
         } catch (error) {
-            console.error('Error getting directional lineage:', error);
+            if (!(error instanceof CancelledError)) {
+                log.error('Error getting directional lineage:', error);
+            }
             throw error;
         }
     }
@@ -174,7 +162,8 @@ export class LineageService {
     async getSimpleLineage(
         fqn: string,
         entityType: string = 'table',
-        depth: number = 2
+        depth: number = 2,
+        signal?: AbortSignal
     ): Promise<{
         nodes: EntityReference[];
         edges: EdgeDetails[];
@@ -184,7 +173,7 @@ export class LineageService {
             const lineageData = await this.getLineageData(fqn, entityType, {
                 upstreamDepth: depth,
                 downstreamDepth: depth,
-            });
+            }, signal);
 
             // Extract nodes from the lineage data
             const nodes: EntityReference[] = Object.values(lineageData.nodes).map(nodeData => nodeData.entity);
@@ -208,7 +197,9 @@ export class LineageService {
                 centerNode,
             };
         } catch (error) {
-            console.error('Error getting simple lineage:', error);
+            if (!(error instanceof CancelledError)) {
+                log.error('Error getting simple lineage:', error);
+            }
             throw error;
         }
     }
@@ -228,8 +219,8 @@ export class LineageService {
             
             return hasUpstream || hasDownstream;
         } catch (error) {
-            console.error('Error checking lineage availability:', error);
+            log.error('Error checking lineage availability:', error);
             return false;
         }
     }
-}
\ No newline at end of file
+}
@@ -1,9 +1,22 @@
-import axios from 'axios';
-import { TableResult } from './OpenMetadataService';
+import {
+    ConnectionCheck,
+    describeSearchScope,
+    ENTITY_TYPE_LABELS,
+    EntityResult,
+    EntityType,
+    FieldChange,
+    SearchContext,
+    TableProfile,
+    TableResult,
+    TableUsage,
+    TagOption
+} from '../shared/protocol';
+import { AuthError, bearerAuth, CancelledError, HttpClient, NetworkError, NotFoundError } from './HttpClient';
+import { log } from './LogService';
 
 interface LocalLLMConfig {
     endpoint: string;
-    apiKey?: string;
+    getApiKey?: () => Promise<string | undefined>;
     model?: string;
     temperature?: number;
     maxTokens?: number;
@@ -11,6 +24,37 @@ interface LocalLLMConfig {
     requestTimeout?: number;
 }
 
+// Collected facts that ground a table analysis beyond names and descriptions
+export interface TableAnalysisContext {
+    profile?: TableProfile;
+    usage?: TableUsage;
+}
+
+// Two versions of an entity and the people and assets around it
+export interface VersionChange {
+    name: string;
+    entityType: EntityType;
+    fromVersion: number;
+    toVersion: number;
+    // Rendered version documents
+    before: string;
+    after: string;
+    // Change descriptions of the versions in between
+    changes: FieldChange[];
+    owners: string[];
+    followers: number;
+    // Names of downstream assets from lineage
+    downstream: string[];
+}
+
+// Columns of one table to sort into classification tags
+export interface ClassificationInput {
+    table: string;
+    description?: string;
+    columns: { name: string; dataType?: string; description?: string; tags: string[]; sampleValues?: string[] }[];
+    candidateTags: TagOption[];
+}
+
 interface OpenAICompatibleMessage {
     role: 'system' | 'user' | 'assistant';
     content: string;
@@ -18,12 +62,20 @@ interface OpenAICompatibleMessage {
 
 export class LocalLLMService {
     private config: LocalLLMConfig;
+    private http: HttpClient;
 
     constructor(config: LocalLLMConfig) {
         this.config = config;
+        this.http = new HttpClient({
+            name: 'LLM',
+            getHeaders: bearerAuth(async () => this.config.getApiKey?.()),
+            authHint: 'Run "Set LLM API Key" from the Command Palette to store a valid key.',
+            timeout: config.requestTimeout ?? 30000
+        });
     }
 
-    async analyzeTable(tableMetadata: TableResult): Promise<string> {
+    async analyzeTable(tableMetadata: TableResult, signal?: AbortSignal, context: TableAnalysisContext = {}): Promise<string> {
+        const { profile, usage } = context;
         const systemPrompt = this.config.systemPrompt || 'You are a data engineering expert analyzing database tables. Provide concise, practical analysis.';
 
         const userPrompt = `
@@ -46,11 +98,17 @@ ${tableMetadata.columns ?
         `- ${col.name} (${col.dataType || 'unknown type'}): ${col.description || 'no description'}`
     ).join('\n') : 'Column information not available'}
 
+PROFILE:
+${profile ? summarizeProfile(profile) : 'No profiler data available'}
+
+USAGE:
+${usage ? summarizeUsage(usage) : 'No usage data available'}
+
 Please provide:
 📊 **Data Summary**: Brief overview (1-2 sentences)
-⚠️  **Potential Issues**: Any concerns about data quality, naming, or structure
+⚠️  **Potential Issues**: Concerns about data quality, naming, or structure. Base data quality concerns on the profile (null ratios, distinct counts, value ranges, row count changes) when it is available, and say so when it is not
 💡 **Recommendations**: Suggestions for improvement
-🔗 **Relationships**: Likely connections to other tables based on column names
+🔗 **Relationships**: Connections to other tables, based on the join partners seen in queries when available and on column names otherwise
 
 Keep your response concise and practical for data engineers.
         `;
@@ -59,48 +117,51 @@ Keep your response concise and practical for data engineers.
             const response = await this.sendChatRequest([
                 { role: 'system', content: systemPrompt },
                 { role: 'user', content: userPrompt }
-            ]);
+            ], signal);
 
             return response || '❌ AI analysis returned empty response';
 
         } catch (error) {
-            console.error('Error calling Local LLM:', error);
+            log.error('Error calling Local LLM:', error);
             return `❌ AI analysis failed: ${error instanceof Error ? error.message : 'Network error'}`;
         }
     }
 
     async searchInsights(
         query: string,
-        searchResults: TableResult[],
-        searchTermsUsed: string[],
-        wasNaturalLanguage: boolean
+        searchResults: EntityResult[],
+        context: SearchContext,
+        signal?: AbortSignal
     ): Promise<string> {
-        const systemPrompt = 'You are a helpful data catalog assistant. Provide concise, conversational responses about data tables.';
+        const { searchTermsUsed, wasNaturalLanguage } = context;
+        const scope = describeSearchScope(context);
+        const scopeNote = scope ? `\nThe search was limited to: ${scope}. Keep this scope in mind and mention it briefly.\n` : '';
+        const systemPrompt = 'You are a helpful data catalog assistant. Provide concise, conversational responses about data assets such as tables, dashboards and pipelines.';
 
         const userPrompt = wasNaturalLanguage ? `
 The user asked: "${query}"
 
-I found ${searchResults.length} tables by searching for: ${searchTermsUsed.join(', ')}
-
-Tables found: ${searchResults.slice(0, 5).map(r => `${r.name} - ${r.description || 'stores data'}`).join('; ')}
+I found ${searchResults.length} data assets by searching for: ${searchTermsUsed.join(', ')}
+${scopeNote}
+Assets found: ${searchResults.slice(0, 5).map(r => `${r.name} [${ENTITY_TYPE_LABELS[r.entityType]}] - ${r.description || 'stores data'}`).join('; ')}
 
-Respond conversationally as if answering the user's question directly. Explain what information they have based on these tables.
+Respond conversationally as if answering the user's question directly. Explain what information they have based on these assets.
 
 Format:
-Based on your data catalog, you have [describe the types of information available]. The main tables are [explain key tables and what data they contain].
+Based on your data catalog, you have [describe the types of information available]. The main assets are [explain key assets and what data they contain].
 
 You might also want to explore: [2 related searches]
 
 Be helpful and conversational - like a data assistant.
         ` : `
-You're analyzing ${searchResults.length} tables found for "${query}".
+You're analyzing ${searchResults.length} data assets found for "${query}".
+${scopeNote}
+Assets: ${searchResults.slice(0, 5).map(r => `${r.name} [${ENTITY_TYPE_LABELS[r.entityType]}] (${r.description || 'no description'})`).join('; ')}
 
-Tables: ${searchResults.slice(0, 5).map(r => `${r.name} (${r.description || 'no description'})`).join('; ')}
-
-Write a natural explanation about what these tables contain and why they're relevant. Then suggest 2 related searches.
+Write a natural explanation about what these assets contain and why they're relevant. Then suggest 2 related searches.
 
 Format:
-The key tables for ${query} include [explain what each does and why it's relevant]. These tables help with [business context].
+The key assets for ${query} include [explain what each does and why it's relevant]. These assets help with [business context].
 
 You might also want to explore: [related term 1], [related term 2]
 
@@ -111,20 +172,189 @@ Be informative but concise - like an AI overview.
             const response = await this.sendChatRequest([
                 { role: 'system', content: systemPrompt },
                 { role: 'user', content: userPrompt }
-            ]);
+            ], signal);
 
             return response || (wasNaturalLanguage
-                ? `I found ${searchResults.length} tables related to ${searchTermsUsed.join(' and ')}.`
-                : `Found ${searchResults.length} tables matching "${query}".`);
+                ? `I found ${searchResults.length} data assets related to ${searchTermsUsed.join(' and ')}.`
+                : `Found ${searchResults.length} data assets matching "${query}".`);
 
         } catch (error) {
-            console.error('Error getting search insights from Local LLM:', error);
+            log.error('Error getting search insights from Local LLM:', error);
             return wasNaturalLanguage
-                ? `I found ${searchResults.length} tables related to ${searchTermsUsed.join(' and ')}. AI insights unavailable.`
-                : `Found ${searchResults.length} tables matching "${query}". AI insights unavailable.`;
+                ? `I found ${searchResults.length} data assets related to ${searchTermsUsed.join(' and ')}. AI insights unavailable.`
+                : `Found ${searchResults.length} data assets matching "${query}". AI insights unavailable.`;
+        }
+    }
+
+    async summarizeVersionChange(change: VersionChange, signal?: AbortSignal): Promise<string> {
+        const systemPrompt = 'You are a data engineering expert reviewing schema and metadata changes in a data catalog. Be concise and concrete.';
+
+        const userPrompt = `
+The ${ENTITY_TYPE_LABELS[change.entityType].toLowerCase()} "${change.name}" changed from version ${change.fromVersion} to ${change.toVersion}.
+
+RECORDED CHANGES:
+${change.changes.length > 0
+    ? change.changes.map(c => `- ${c.kind} ${c.field}${c.oldValue ? `: ${c.oldValue}` : ''}${c.newValue ? ` → ${c.newValue}` : ''}`).join('\n')
+    : 'None recorded'}
+
+BEFORE (version ${change.fromVersion}):
+${change.before}
+AFTER (version ${change.toVersion}):
+${change.after}
+OWNERS: ${change.owners.join(', ') || 'None'}
+FOLLOWERS: ${change.followers}
+DOWNSTREAM ASSETS: ${change.downstream.join(', ') || 'None known'}
+
+Please provide:
+📝 **What changed**: The changes that matter, most important first. Call out dropped columns, type changes and constraint changes explicitly
+👥 **Who might be affected**: Downstream assets, queries and owners likely to break or need an update, and why
+✅ **Suggested follow-up**: At most 3 short actions
+
+Keep the answer short. Do not repeat unchanged properties.
+        `;
+
+        try {
+            const response = await this.sendChatRequest([
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt }
+            ], signal);
+
+            return response || '❌ AI summary returned empty response';
+        } catch (error) {
+            log.error('Error summarizing version change:', error);
+            return `❌ AI summary failed: ${error instanceof Error ? error.message : 'Network error'}`;
         }
     }
 
+    /**
+     * Draft a description of a table, or of one of its columns when `column` is
+     * given. Throws on failure, since the text is meant to be written back.
+     */
+    async generateDescription(tableMetadata: TableResult, column: string | undefined, signal?: AbortSignal, context: TableAnalysisContext = {}): Promise<string> {
+        const { profile, usage } = context;
+        const systemPrompt = 'You are a data steward writing documentation for a data catalog. Write plain, factual descriptions for analysts; never invent facts that the metadata does not support.';
+
+        const target = column
+            ? `the column "${column}" of the table ${tableMetadata.fullyQualifiedName}`
+            : `the table ${tableMetadata.fullyQualifiedName}`;
+
+        const userPrompt = `
+Write a description of ${target}.
+
+TABLE INFORMATION:
+- Name: ${tableMetadata.name}
+- Type: ${tableMetadata.tableType || 'Unknown'}
+- Database: ${tableMetadata.database || 'Unknown'}
+- Schema: ${tableMetadata.schema || 'Unknown'}
+- Description: ${tableMetadata.description || 'None'}
+- Row Count: ${tableMetadata.rowCount || 'Unknown'}
+- Tags: ${tableMetadata.tags?.join(', ') || 'None'}
+
+COLUMNS:
+${tableMetadata.columns?.length
+    ? tableMetadata.columns.map(col => `- ${col.name} (${col.dataTypeDisplay || col.dataType || 'unknown type'}): ${col.description || 'no description'}`).join('\n')
+    : 'Column information not available'}
+
+PROFILE:
+${profile ? summarizeProfile(profile) : 'No profiler data available'}
+
+USAGE:
+${usage ? summarizeUsage(usage) : 'No usage data available'}
+
+${column
+    ? 'Write 1-2 sentences saying what the column holds, its unit or format where the metadata shows it, and how it relates to other columns.'
+    : 'Write 2-4 sentences saying what one row represents, what the table is used for and its most important columns. Mention the tables it is usually joined with when usage shows them.'}
+Respond with the description text only: no heading, no quotes, no preamble.
+        `;
+
+        const response = await this.sendChatRequest([
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt }
+        ], signal);
+
+        const description = cleanDescription(response);
+        if (!description) {
+            throw new Error('The LLM returned an empty description');
+        }
+        return description;
+    }
+
+    /**
+     * Ask the model to turn a question into search terms and filters. Returns the
+     * parsed JSON unvalidated; callers check it with `parseStructuredQuery`.
+     */
+    async translateQuery(question: string, signal?: AbortSignal): Promise<unknown> {
+        const today = new Date().toISOString().slice(0, 10);
+
+        const systemPrompt = `You translate questions about a data catalog into OpenMetadata search queries.
+Respond with a single JSON object and nothing else, using this shape:
+{
+  "terms": string[],            // 1-3 keywords naming the subject, e.g. ["finance"]; not entity types, owners or dates
+  "entityTypes": string[],      // any of: ${Object.keys(ENTITY_TYPE_LABELS).join(', ')}
+  "filters": {                  // omit fields that the question does not mention
+    "tier": string[],           // e.g. ["Tier.Tier1"]
+    "owner": string[],          // team or user names, e.g. ["Payments"]
+    "domain": string[],
+    "tag": string[],            // tag FQNs, e.g. ["PII.Sensitive"]
+    "service": string[],
+    "testStatus": string[]      // data quality test results: Success, Failed or Aborted
+  },
+  "updatedAfter": "YYYY-MM-DD", // only for questions about recent changes
+  "updatedBefore": "YYYY-MM-DD"
+}
+Today is ${today}.`;
+
+        const response = await this.sendChatRequest([
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: question }
+        ], signal, { temperature: 0 });
+
+        return parseJsonObject(response);
+    }
+
+    /**
+     * Ask the model which classification tags fit each column. Returns the
+     * parsed JSON unvalidated; callers check it with `parseColumnClassifications`.
+     */
+    async classifyColumns(input: ClassificationInput, signal?: AbortSignal): Promise<unknown> {
+        const systemPrompt = `You are a data privacy officer classifying the columns of a data catalog.
+Respond with a single JSON object and nothing else, using this shape:
+{
+  "columns": [
+    {
+      "column": string,     // the column name, exactly as given
+      "tags": string[],     // tags from the list below; [] when none applies
+      "confidence": number, // 0 to 1
+      "reasoning": string   // one short sentence
+    }
+  ]
+}
+Classify every column once. Use PII.Sensitive for personal data that could harm a person if disclosed (government IDs, health, financial or precise location data, credentials) and PII.NonSensitive for other personal data (names, emails, phone numbers). Columns without personal data get no PII tag. Only use tags from the list and only when the column name, type, description or values support them.`;
+
+        const userPrompt = `
+TABLE: ${input.table}
+DESCRIPTION: ${input.description || 'None'}
+
+TAGS:
+${input.candidateTags.map(tag => `- ${tag.fqn}${tag.description ? `: ${singleLine(tag.description)}` : ''}`).join('\n')}
+
+COLUMNS:
+${input.columns.map(column => [
+    `- ${column.name} (${column.dataType || 'unknown type'})`,
+    column.description && `description: ${singleLine(column.description)}`,
+    column.tags.length > 0 && `tags: ${column.tags.join(', ')}`,
+    column.sampleValues?.length && `sample values: ${column.sampleValues.join(' | ')}`
+].filter(Boolean).join('; ')).join('\n')}
+        `;
+
+        const response = await this.sendChatRequest([
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt }
+        ], signal, { temperature: 0 });
+
+        return parseJsonObject(response);
+    }
+
     async validateConnection(): Promise<boolean> {
         try {
             const response = await this.sendChatRequest([
@@ -133,26 +363,89 @@ Be informative but concise - like an AI overview.
 
             return !!response;
         } catch (error) {
-            console.error('Error validating Local LLM connection:', error);
+            log.error('Error validating Local LLM connection:', error);
             return false;
         }
     }
 
-    private async sendChatRequest(messages: OpenAICompatibleMessage[]): Promise<string> {
+    /**
+     * Check that the endpoint is reachable, accepts the API key and serves the configured model.
+     * Endpoints without a model list are pinged with a short chat request instead.
+     */
+    async checkConnection(): Promise<ConnectionCheck> {
+        const model = this.config.model;
+        const modelsUrl = this.config.endpoint.includes('/chat/completions')
+            ? this.config.endpoint.replace(/\/chat\/completions\/?$/, '/models')
+            : `${this.config.endpoint.replace(/\/$/, '')}/v1/models`;
+
+        try {
+            const data = await this.http.get(modelsUrl, { timeout: 10000, retries: 0 });
+            const available: string[] = (data?.data || data?.models || [])
+                .map((entry: any) => entry.id || entry.name)
+                .filter(Boolean);
+
+            // Ollama reports models with their tag, e.g. `llama3.2:latest`
+            if (model && available.length > 0 &&
+                !available.some(id => id === model || id.split(':')[0] === model)) {
+                return {
+                    state: 'modelMissing',
+                    message: `Model "${model}" is not available on the LLM server. Available: ${available.slice(0, 5).join(', ')}.`,
+                    fix: this.isOllama() ? 'pullModel' : 'openSettings',
+                    detail: model
+                };
+            }
+
+            return { state: 'ok', message: `LLM reachable, model ${model || 'default'}`, detail: model };
+        } catch (error) {
+            if (error instanceof AuthError) {
+                return {
+                    state: 'authFailed',
+                    message: 'The LLM server rejected the API key.',
+                    fix: 'setLlmApiKey',
+                    detail: model
+                };
+            }
+            if (error instanceof NetworkError) {
+                return {
+                    state: 'unreachable',
+                    message: this.isOllama()
+                        ? `Cannot reach Ollama at ${this.config.endpoint}. Start it with "ollama serve".`
+                        : `Cannot reach the LLM at ${this.config.endpoint}. Check the API URL.`,
+                    fix: 'openSettings',
+                    detail: model
+                };
+            }
+        }
+
+        // No model list on this endpoint; fall back to a minimal chat request
+        try {
+            await this.sendChatRequest([{ role: 'user', content: 'ping' }]);
+            return { state: 'ok', message: `LLM reachable, model ${model || 'default'}`, detail: model };
+        } catch (error) {
+            log.error('LLM ping failed:', error);
+            return {
+                state: 'unreachable',
+                message: `The LLM at ${this.config.endpoint} did not answer a test request.`,
+                fix: 'showLog',
+                detail: model
+            };
+        }
+    }
+
+    isOllama(): boolean {
+        return /:11434\b|ollama/i.test(this.config.endpoint);
+    }
+
+    private async sendChatRequest(messages: OpenAICompatibleMessage[], signal?: AbortSignal, overrides?: { temperature?: number }): Promise<string> {
         try {
             // Try OpenAI-compatible format first (works with Ollama, LM Studio, etc.)
             const url = this.config.endpoint.includes('/chat/completions')
                 ? this.config.endpoint
                 : `${this.config.endpoint}/v1/chat/completions`;
 
-            const headers: any = { 'Content-Type': 'application/json' };
-            if (this.config.apiKey) {
-                headers['Authorization'] = `Bearer ${this.config.apiKey}`;
-            }
-
             const requestBody: any = {
                 messages: messages,
-                temperature: this.config.temperature ?? 0.7,
+                temperature: overrides?.temperature ?? this.config.temperature ?? 0.7,
                 max_tokens: this.config.maxTokens ?? 1024
             };
 
@@ -161,83 +454,159 @@ Be informative but concise - like an AI overview.
                 requestBody.model = this.config.model;
             }
 
-            const timeout = this.config.requestTimeout ?? 30000;
-            const response = await axios.post(url, requestBody, { headers, timeout });
+            const data = await this.http.post(url, requestBody, { signal, idempotent: true });
 
             // Try OpenAI-compatible response format
-            if (response.data?.choices?.[0]?.message?.content) {
-                return response.data.choices[0].message.content;
+            if (data?.choices?.[0]?.message?.content) {
+                return data.choices[0].message.content;
             }
 
             // Try other common response formats
-            if (response.data?.response) {
-                return response.data.response;
+            if (data?.response) {
+                return data.response;
             }
 
-            if (response.data?.text) {
-                return response.data.text;
+            if (data?.text) {
+                return data.text;
             }
 
-            if (response.data?.output) {
-                return Array.isArray(response.data.output)
-                    ? response.data.output[0]?.content || ''
-                    : response.data.output;
+            if (data?.output) {
+                return Array.isArray(data.output)
+                    ? data.output[0]?.content || ''
+                    : data.output;
             }
 
-            if (typeof response.data === 'string') {
-                return response.data;
+            if (typeof data === 'string') {
+                return data;
             }
 
-            console.warn('Unexpected response format from Local LLM:', response.data);
+            log.warn('Unexpected response format from Local LLM, keys:', Object.keys(data || {}));
             return '';
 
-        } catch (error: any) {
+        } catch (error) {
+            if (error instanceof CancelledError || error instanceof AuthError) {
+                throw error;
+            }
+
             // If OpenAI-compatible format fails, try legacy format
-            if (error.response?.status === 404 || error.code === 'ECONNREFUSED') {
-                return await this.sendLegacyRequest(messages);
+            if (error instanceof NotFoundError || (error instanceof NetworkError && error.code === 'ECONNREFUSED')) {
+                return await this.sendLegacyRequest(messages, signal);
             }
 
-            throw new Error(`Local LLM error: ${error?.message || error}`);
+            throw new Error(`Local LLM error: ${error instanceof Error ? error.message : error}`);
         }
     }
 
-    private async sendLegacyRequest(messages: OpenAICompatibleMessage[]): Promise<string> {
+    private async sendLegacyRequest(messages: OpenAICompatibleMessage[], signal?: AbortSignal): Promise<string> {
         try {
             // Legacy format for simple endpoints (combine messages into single prompt)
             const prompt = messages
                 .map(m => `${m.role === 'system' ? 'System: ' : m.role === 'user' ? 'User: ' : 'Assistant: '}${m.content}`)
                 .join('\n\n');
 
-            const headers: any = { 'Content-Type': 'application/json' };
-            if (this.config.apiKey) {
-                headers['Authorization'] = `Bearer ${this.config.apiKey}`;
-            }
-
             const payload: any = { prompt };
             if (this.config.model) {
                 payload.model = this.config.model;
             }
 
-            const timeout = this.config.requestTimeout ?? 30000;
-            const response = await axios.post(this.config.endpoint, payload, { headers, timeout });
+            const data = await this.http.post(this.config.endpoint, payload, { signal, idempotent: true });
 
             // Try various response formats
-            if (response.data) {
-                if (typeof response.data === 'string') return response.data;
-                if (response.data.result) return response.data.result;
-                if (response.data.text) return response.data.text;
-                if (response.data.response) return response.data.response;
-                if (response.data.output) {
-                    if (Array.isArray(response.data.output) && response.data.output[0]) {
-                        return response.data.output[0].content || response.data.output[0];
+            if (data) {
+                if (typeof data === 'string') return data;
+                if (data.result) return data.result;
+                if (data.text) return data.text;
+                if (data.response) return data.response;
+                if (data.output) {
+                    if (Array.isArray(data.output) && data.output[0]) {
+                        return data.output[0].content || data.output[0];
                     }
-                    return response.data.output;
+                    return data.output;
                 }
             }
 
             return '';
-        } catch (error: any) {
-            throw new Error(`Local LLM legacy format error: ${error?.message || error}`);
+        } catch (error) {
+            if (error instanceof CancelledError) {
+                throw error;
+            }
+            throw new Error(`Local LLM legacy format error: ${error instanceof Error ? error.message : error}`);
         }
     }
 }
+
+// Profiler metrics as prompt text; only the columns with the most nulls are listed in full
+function summarizeUsage(usage: TableUsage): string {
+    const lines: string[] = [];
+    const { weekly, monthly } = usage.summary || {};
+    if (weekly) {
+        lines.push(`- Queries last week: ${weekly.count}${weekly.percentileRank !== undefined ? ` (more than ${Math.round(weekly.percentileRank)}% of tables)` : ''}`);
+    }
+    if (monthly) {
+        lines.push(`- Queries last month: ${monthly.count}`);
+    }
+    if (usage.joinPartners.length > 0) {
+        lines.push(`- Most frequently joined with: ${usage.joinPartners.map(partner => `${partner.table} (${partner.queries} queries)`).join(', ')}`);
+    }
+    return lines.length > 0 ? lines.join('\n') : 'No usage recorded';
+}
+
+function summarizeProfile(profile: TableProfile): string {
+    const lines: string[] = [];
+    if (profile.timestamp) {
+        lines.push(`- Profiled: ${new Date(profile.timestamp).toISOString().slice(0, 10)}`);
+    }
+    if (profile.rowCount !== undefined) {
+        lines.push(`- Rows: ${profile.rowCount}`);
+    }
+
+    const history = profile.rowCountHistory;
+    if (history.length > 1) {
+        const first = history[0];
+        const last = history[history.length - 1];
+        lines.push(`- Row count over the last 30 days: ${first.rowCount} → ${last.rowCount} (${history.length} runs, min ${Math.min(...history.map(h => h.rowCount))}, max ${Math.max(...history.map(h => h.rowCount))})`);
+    }
+
+    const columns = [...profile.columns]
+        .sort((a, b) => (b.nullProportion ?? 0) - (a.nullProportion ?? 0))
+        .slice(0, 15);
+    for (const column of columns) {
+        const metrics = [
+            column.nullProportion !== undefined && `${(column.nullProportion * 100).toFixed(1)}% null`,
+            column.distinctCount !== undefined && `${column.distinctCount} distinct`,
+            column.uniqueCount !== undefined && `${column.uniqueCount} unique`,
+            column.min !== undefined && `min ${column.min}`,
+            column.max !== undefined && `max ${column.max}`,
+            column.mean !== undefined && `mean ${Number(column.mean.toFixed(2))}`
+        ].filter(Boolean);
+        if (metrics.length > 0) {
+            lines.push(`- ${column.name}: ${metrics.join(', ')}`);
+        }
+    }
+
+    return lines.length > 0 ? lines.join('\n') : 'No profiler data available';
+}
+
+// Models sometimes add a label, quotes or a code fence around the text
+function cleanDescription(text: string): string {
+    return text.trim()
+        .replace(/^```\w*\n?|\n?```$/g, '')
+        .replace(/^(?:\*\*)?description(?:\*\*)?:(?:\*\*)?\s*/i, '')
+        .replace(/^"([\s\S]*)"$/, '$1')
+        .trim();
+}
+
+// Models often wrap JSON in a code fence or add a sentence around it
+function parseJsonObject(text: string): unknown {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end < start) {
+        throw new Error('LLM response contains no JSON object');
+    }
+    return JSON.parse(text.slice(start, end + 1));
+}
+
+// Descriptions are often multi-line markdown; one line keeps the prompt's list readable
+function singleLine(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+
+const CHANNEL_NAME = 'OpenMetadata Explorer';
+const MAX_RECENT_ERRORS = 50;
+
+// Object keys whose values are never written to the log
+const SECRET_KEY_PATTERN = /authorization|token|api[-_]?key|password|secret/i;
+
+/**
+ * Remove credentials from a piece of text: bearer tokens, JWTs and
+ * token-like query parameters.
+ */
+export function redact(text: string): string {
+    return text
+        .replace(/(Bearer|Basic)\s+[^\s"',}]+/gi, '$1 ***')
+        .replace(/eyJ[\w-]+\.[\w-]+\.[\w-]*/g, '***')
+        .replace(/([?&](?:access_token|token|api[-_]?key|password)=)[^&#\s]+/gi, '$1***');
+}
+
+/**
+ * Copy of a value with credentials removed from strings and from object keys
+ * that name a secret.
+ */
+export function redactValue(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+        return redact(value);
+    }
+    if (value instanceof Error) {
+        return redact(value.stack || `${value.name}: ${value.message}`);
+    }
+    if (typeof value !== 'object' || value === null || depth > 4) {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redactValue(item, depth + 1));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        result[key] = SECRET_KEY_PATTERN.test(key) && item ? '***' : redactValue(item, depth + 1);
+    }
+    return result;
+}
+
+function format(message: string, args: unknown[]): string {
+    const parts = args.map(arg => {
+        const value = redactValue(arg);
+        if (typeof value === 'string') return value;
+        try {
+            return JSON.stringify(value);
+        } catch {
+            return String(value);
+        }
+    });
+
+    return [redact(message), ...parts].join(' ');
+}
+
+/**
+ * Logging for the extension host. Writes to the "OpenMetadata Explorer" output
+ * channel, whose level is set with "Developer: Set Log Level...". Everything
+ * logged is redacted; errors are also kept for the diagnostics bundle.
+ */
+class LogService {
+    private channel?: vscode.LogOutputChannel;
+    private recentErrors: string[] = [];
+
+    initialize(context: vscode.ExtensionContext) {
+        this.channel = vscode.window.createOutputChannel(CHANNEL_NAME, { log: true });
+        context.subscriptions.push(this.channel);
+    }
+
+    trace(message: string, ...args: unknown[]) {
+        const text = format(message, args);
+        this.channel ? this.channel.trace(text) : console.log(text);
+    }
+
+    debug(message: string, ...args: unknown[]) {
+        const text = format(message, args);
+        this.channel ? this.channel.debug(text) : console.log(text);
+    }
+
+    info(message: string, ...args: unknown[]) {
+        const text = format(message, args);
+        this.channel ? this.channel.info(text) : console.log(text);
+    }
+
+    warn(message: string, ...args: unknown[]) {
+        const text = format(message, args);
+        this.channel ? this.channel.warn(text) : console.warn(text);
+    }
+
+    error(message: string, ...args: unknown[]) {
+        const text = format(message, args);
+        this.recentErrors.push(`${new Date().toISOString()} ${text}`);
+        if (this.recentErrors.length > MAX_RECENT_ERRORS) {
+            this.recentErrors.shift();
+        }
+        this.channel ? this.channel.error(text) : console.error(text);
+    }
+
+    /**
+     * Log a completed HTTP call. `status` is undefined when no response was received.
+     */
+    http(method: string, url: string, status: number | undefined, durationMs: number) {
+        const text = `${method.toUpperCase()} ${url} → ${status ?? 'no response'} (${Math.round(durationMs)} ms)`;
+        if (status === undefined || status >= 400) {
+            this.warn(text);
+        } else {
+            this.info(text);
+        }
+    }
+
+    getRecentErrors(): string[] {
+        return [...this.recentErrors];
+    }
+
+    show() {
+        this.channel?.show(true);
+    }
+}
+
+export const log = new LogService();
@@ -0,0 +1,152 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as vscode from 'vscode';
+import { AuthError, HttpClient, HttpError } from './HttpClient';
+import { log } from './LogService';
+
+// How long to wait for the user to finish signing in in the browser
+const SIGN_IN_TIMEOUT = 5 * 60 * 1000;
+
+export interface OidcSettings {
+    authority: string;
+    clientId: string;
+    scopes: string;
+}
+
+export interface OidcTokens {
+    // OpenMetadata validates the ID token issued by its SSO provider
+    idToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+    tokenEndpoint: string;
+}
+
+interface TokenResponse {
+    id_token?: string;
+    access_token?: string;
+    refresh_token?: string;
+    expires_in?: number;
+}
+
+const ssoHttp = new HttpClient({ name: 'SSO provider' });
+
+function base64Url(buffer: Buffer): string {
+    return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function toTokens(response: TokenResponse, tokenEndpoint: string, previousRefreshToken?: string): OidcTokens {
+    const idToken = response.id_token || response.access_token;
+    if (!idToken) {
+        throw new Error('The SSO provider did not return an ID token');
+    }
+
+    return {
+        idToken,
+        refreshToken: response.refresh_token || previousRefreshToken,
+        expiresAt: response.expires_in ? Date.now() + response.expires_in * 1000 : undefined,
+        tokenEndpoint
+    };
+}
+
+/**
+ * Authorization code flow with PKCE (RFC 7636) and a loopback redirect (RFC 8252):
+ * the browser signs in and redirects to a temporary server on 127.0.0.1.
+ */
+export async function signInWithBrowser(settings: OidcSettings, token: vscode.CancellationToken): Promise<OidcTokens> {
+    const discovery = await ssoHttp.get(`${settings.authority.replace(/\/$/, '')}/.well-known/openid-configuration`);
+    const verifier = base64Url(crypto.randomBytes(32));
+    const challenge = base64Url(crypto.createHash('sha256').update(verifier).digest());
+    const state = base64Url(crypto.randomBytes(16));
+
+    const server = http.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as { port: number }).port;
+    const redirectUri = `http://127.0.0.1:${port}/callback`;
+
+    try {
+        const code = new Promise<string>((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error('Sign-in timed out')), SIGN_IN_TIMEOUT);
+            token.onCancellationRequested(() => {
+                clearTimeout(timer);
+                reject(new vscode.CancellationError());
+            });
+
+            server.on('request', (request, response) => {
+                const url = new URL(request.url || '/', redirectUri);
+                if (url.pathname !== '/callback') {
+                    response.writeHead(404).end();
+                    return;
+                }
+
+                const error = url.searchParams.get('error');
+                const ok = !error && url.searchParams.get('state') === state && url.searchParams.get('code');
+                response.writeHead(200, { 'Content-Type': 'text/html' });
+                response.end(ok
+                    ? '<p>Signed in to OpenMetadata. You can close this tab and return to VS Code.</p>'
+                    : '<p>Sign-in failed. Return to VS Code for details.</p>');
+
+                clearTimeout(timer);
+                if (ok) {
+                    resolve(url.searchParams.get('code')!);
+                } else {
+                    reject(new Error(error
+                        ? `SSO sign-in failed: ${url.searchParams.get('error_description') || error}`
+                        : 'SSO sign-in failed: invalid state'));
+                }
+            });
+        });
+
+        // Rejections are handled where the code is awaited below
+        code.catch(() => undefined);
+
+        const authorizeUrl = new URL(discovery.authorization_endpoint);
+        authorizeUrl.search = new URLSearchParams({
+            response_type: 'code',
+            client_id: settings.clientId,
+            redirect_uri: redirectUri,
+            scope: settings.scopes,
+            state,
+            code_challenge: challenge,
+            code_challenge_method: 'S256'
+        }).toString();
+
+        log.info(`Opening browser for SSO sign-in at ${authorizeUrl.origin}`);
+        await vscode.env.openExternal(vscode.Uri.parse(authorizeUrl.toString()));
+
+        const response = await ssoHttp.post<TokenResponse>(discovery.token_endpoint, new URLSearchParams({
+            grant_type: 'authorization_code',
+            code: await code,
+            redirect_uri: redirectUri,
+            client_id: settings.clientId,
+            code_verifier: verifier
+        }).toString(), {
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            retries: 0
+        });
+
+        return toTokens(response, discovery.token_endpoint);
+    } finally {
+        server.close();
+    }
+}
+
+export async function refreshOidcTokens(tokenEndpoint: string, clientId: string, refreshToken: string): Promise<OidcTokens> {
+    let response: TokenResponse;
+    try {
+        response = await ssoHttp.post<TokenResponse>(tokenEndpoint, new URLSearchParams({
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken,
+            client_id: clientId
+        }).toString(), {
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+        });
+    } catch (error) {
+        // The provider no longer accepts the refresh token, e.g. it expired or was revoked
+        if (error instanceof HttpError && error.status === 400 && /invalid_grant/.test(error.message)) {
+            throw new AuthError('The SSO provider rejected the refresh token (invalid_grant)', error.status, error.url);
+        }
+        throw error;
+    }
+
+    return toTokens(response, tokenEndpoint, refreshToken);
+}
@@ -1,4 +1,6 @@
-import { TableResult } from './OpenMetadataService';
+import { describeSearchScope, ENTITY_TYPE_LABELS, EntityResult, SearchContext, TableResult } from '../shared/protocol';
+import { HttpClient } from './HttpClient';
+import { log } from './LogService';
 
 interface OpenAIConfig {
     apiKey: string;
@@ -27,9 +29,16 @@ interface OpenAIResponse {
 
 export class OpenAIService {
     private config: OpenAIConfig;
+    private http: HttpClient;
 
     constructor(config: OpenAIConfig) {
         this.config = config;
+        this.http = new HttpClient({
+            name: 'OpenAI',
+            baseUrl: config.baseUrl,
+            getHeaders: async () => ({ 'Authorization': `Bearer ${this.config.apiKey}` }),
+            authHint: 'Check your API key at platform.openai.com.'
+        });
     }
 
     async analyzeTable(tableMetadata: TableResult): Promise<string> {
@@ -76,43 +85,45 @@ Keep your response concise and practical for data engineers.
             return response || '❌ AI analysis returned empty response';
 
         } catch (error) {
-            console.error('Error calling OpenAI API:', error);
+            log.error('Error calling OpenAI API:', error);
             return `❌ AI analysis failed: ${error instanceof Error ? error.message : 'Network error'}`;
         }
     }
 
     async searchInsights(
         query: string,
-        searchResults: TableResult[],
-        searchTermsUsed: string[],
-        wasNaturalLanguage: boolean
+        searchResults: EntityResult[],
+        context: SearchContext
     ): Promise<string> {
-        const systemPrompt = 'You are a helpful data catalog assistant. Provide concise, conversational responses about data tables.';
+        const { searchTermsUsed, wasNaturalLanguage } = context;
+        const scope = describeSearchScope(context);
+        const scopeNote = scope ? `\nThe search was limited to: ${scope}. Keep this scope in mind and mention it briefly.\n` : '';
+        const systemPrompt = 'You are a helpful data catalog assistant. Provide concise, conversational responses about data assets such as tables, dashboards and pipelines.';
 
         const userPrompt = wasNaturalLanguage ? `
 The user asked: "${query}"
 
-I found ${searchResults.length} tables by searching for: ${searchTermsUsed.join(', ')}
-
-Tables found: ${searchResults.slice(0, 5).map(r => `${r.name} - ${r.description || 'stores data'}`).join('; ')}
+I found ${searchResults.length} data assets by searching for: ${searchTermsUsed.join(', ')}
+${scopeNote}
+Assets found: ${searchResults.slice(0, 5).map(r => `${r.name} [${ENTITY_TYPE_LABELS[r.entityType]}] - ${r.description || 'stores data'}`).join('; ')}
 
-Respond conversationally as if answering the user's question directly. Explain what information they have based on these tables.
+Respond conversationally as if answering the user's question directly. Explain what information they have based on these assets.
 
 Format:
-Based on your data catalog, you have [describe the types of information available]. The main tables are [explain key tables and what data they contain].
+Based on your data catalog, you have [describe the types of information available]. The main assets are [explain key assets and what data they contain].
 
 You might also want to explore: [2 related searches]
 
 Be helpful and conversational - like a data assistant.
         ` : `
-You're analyzing ${searchResults.length} tables found for "${query}".
+You're analyzing ${searchResults.length} data assets found for "${query}".
+${scopeNote}
+Assets: ${searchResults.slice(0, 5).map(r => `${r.name} [${ENTITY_TYPE_LABELS[r.entityType]}] (${r.description || 'no description'})`).join('; ')}
 
-Tables: ${searchResults.slice(0, 5).map(r => `${r.name} (${r.description || 'no description'})`).join('; ')}
-
-Write a natural explanation about what these tables contain and why they're relevant. Then suggest 2 related searches.
+Write a natural explanation about what these assets contain and why they're relevant. Then suggest 2 related searches.
 
 Format:
-The key tables for ${query} include [explain what each does and why it's relevant]. These tables help with [business context].
+The key assets for ${query} include [explain what each does and why it's relevant]. These assets help with [business context].
 
 You might also want to explore: [related term 1], [related term 2]
 
@@ -129,14 +140,14 @@ Be informative but concise - like an AI overview.
             });
 
             return response || (wasNaturalLanguage
-                ? `I found ${searchResults.length} tables related to ${searchTermsUsed.join(' and ')}.`
-                : `Found ${searchResults.length} tables matching "${query}".`);
+                ? `I found ${searchResults.length} data assets related to ${searchTermsUsed.join(' and ')}.`
+                : `Found ${searchResults.length} data assets matching "${query}".`);
 
         } catch (error) {
-            console.error('Error getting search insights:', error);
+            log.error('Error getting search insights:', error);
             return wasNaturalLanguage
-                ? `I found ${searchResults.length} tables related to ${searchTermsUsed.join(' and ')}. AI insights unavailable.`
-                : `Found ${searchResults.length} tables matching "${query}". AI insights unavailable.`;
+                ? `I found ${searchResults.length} data assets related to ${searchTermsUsed.join(' and ')}. AI insights unavailable.`
+                : `Found ${searchResults.length} data assets matching "${query}". AI insights unavailable.`;
         }
     }
 
@@ -150,7 +161,7 @@ Be informative but concise - like an AI overview.
 
             return !!response;
         } catch (error) {
-            console.error('Error validating OpenAI API key:', error);
+            log.error('Error validating OpenAI API key:', error);
             return false;
         }
     }
@@ -159,8 +170,6 @@ Be informative but concise - like an AI overview.
         messages: OpenAIMessage[],
         options: { temperature?: number; max_tokens?: number } = {}
     ): Promise<string> {
-        const url = `${this.config.baseUrl}/chat/completions`;
-
         const requestBody = {
             model: this.config.model,
             messages: messages,
@@ -168,27 +177,12 @@ Be informative but concise - like an AI overview.
             max_tokens: options.max_tokens ?? 1024
         };
 
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.config.apiKey}`
-            },
-            body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error('OpenAI API error:', response.status, errorText);
-            throw new Error(`OpenAI API error (${response.status}): ${errorText}`);
-        }
-
-        const data: OpenAIResponse = await response.json();
+        const data = await this.http.post<OpenAIResponse>('/chat/completions', requestBody, { idempotent: true });
 
         if (data.choices && data.choices[0]?.message?.content) {
             return data.choices[0].message.content;
         } else {
-            console.error('Unexpected OpenAI response format:', data);
+            log.error('Unexpected OpenAI response format, keys:', Object.keys(data || {}));
             throw new Error('Unexpected response format from OpenAI');
         }
     }
@@ -1,27 +1,118 @@
-import * as vscode from 'vscode';
-
-export interface TableResult {
-    id: string;
-    name: string;
-    fullyQualifiedName: string;
-    description?: string;
-    tableType?: string;
-    columns?: any[];
-    rowCount?: number;
-    database?: string;
-    schema?: string;
-    updatedAt?: string;
-    tags?: string[];
+import {
+    ColumnDetails,
+    ColumnProfile,
+    ConnectionCheck,
+    DataQualityIncident,
+    DataQualityReport,
+    DataQualityTest,
+    EntityDetails,
+    EXCLUSIVE_TAG_PREFIXES,
+    EntityResult,
+    EntityType,
+    EntityVersion,
+    Facet,
+    FieldChange,
+    JoinPartner,
+    FacetField,
+    hasFilters,
+    isEntityType,
+    SearchCursor,
+    SearchFilters,
+    SearchSort,
+    StructuredQuery,
+    SampleData,
+    SampleValue,
+    Suggestion,
+    TableProfile,
+    TableQuery,
+    TableResult,
+    TableUsage,
+    TagChange,
+    TagOption,
+    TagState,
+    TEST_STATUSES,
+    TIER_PREFIX,
+    TestResult,
+    TestStatus,
+    UsageSummary
+} from '../shared/protocol';
+import { AuthError, bearerAuth, HttpClient, HttpError, NetworkError, NotFoundError } from './HttpClient';
+import { log } from './LogService';
+
+export interface SearchOptions {
+    // All supported types when omitted
+    entityType?: EntityType;
+    // Narrows a search across all types
+    entityTypes?: EntityType[];
+    filters?: SearchFilters;
+    // Dates as YYYY-MM-DD, inclusive
+    updatedAfter?: string;
+    updatedBefore?: string;
+    sort?: SearchSort;
+    // Offset of the first hit
+    from?: number;
+    // Hits per page, PAGE_SIZE when omitted
+    size?: number;
+    // Restricts hits to these assets
+    fullyQualifiedNames?: string[];
+}
+
+export interface SearchResponse {
+    results: EntityResult[];
+    facets: Facet[];
+    // Unknown when the search API was unavailable and tables were listed instead
+    total?: number;
+    nextCursor?: SearchCursor;
+}
+
+/**
+ * Search options with an LLM-interpreted query applied. A type chosen by the
+ * user takes precedence over the interpreted ones; filters are combined.
+ */
+export function applyStructuredQuery(options: SearchOptions, structured: StructuredQuery): SearchOptions {
+    const filters: SearchFilters = { ...options.filters };
+    for (const [field, values] of Object.entries(structured.filters || {}) as [FacetField, string[]][]) {
+        filters[field] = [...new Set([...(filters[field] || []), ...values])];
+    }
+
+    const types = options.entityType ? [] : structured.entityTypes || [];
+    return {
+        ...options,
+        entityType: options.entityType || (types.length === 1 ? types[0] : undefined),
+        entityTypes: types.length > 1 ? types : undefined,
+        filters,
+        updatedAfter: structured.updatedAfter,
+        updatedBefore: structured.updatedBefore
+    };
+}
+
+// Query string for the search API; filters alone match everything
+export function structuredQueryString(structured: StructuredQuery): string {
+    return structured.terms.length > 0 ? structured.terms.join(' ') : '*';
+}
+
+// The entity changed since the client last read it; `current` is its latest state, where known
+export class VersionConflictError extends Error {
+    constructor(message: string, readonly current?: TagState) {
+        super(message);
+        this.name = new.target.name;
+    }
 }
 
 export class OpenMetadataService {
     private baseUrl: string;
-    private authToken?: string;
+    private http: HttpClient;
+    private tagOptions?: { loadedAt: number; options: TagOption[] };
 
-    constructor() {
-        const config = vscode.workspace.getConfiguration('openmetadataExplorer');
-        this.baseUrl = config.get<string>('openmetadataUrl') || 'http://localhost:8585';
-        this.authToken = config.get<string>('openmetadataAuthToken');
+    // `http` stands in for the server in tests
+    constructor(baseUrl: string, private getAuthToken: () => Promise<string | undefined>, http?: HttpClient) {
+        this.baseUrl = baseUrl.replace(/\/$/, '');
+        this.http = http || new HttpClient({
+            name: 'OpenMetadata',
+            baseUrl: this.baseUrl,
+            getHeaders: bearerAuth(getAuthToken),
+            authHint: 'Run "Sign In to OpenMetadata" or "Set OpenMetadata Token" from the Command Palette.'
+        });
     }
 
     // Extract meaningful search terms from natural language queries
@@ -59,7 +150,7 @@ export class OpenMetadataService {
         return searchTerms.length > 0 ? searchTerms : words.filter(word => !stopWords.includes(word));
     }
 
-    private isNaturalLanguageQuery(query: string): boolean {
+    isNaturalLanguageQuery(query: string): boolean {
         const questionWords = ['what', 'where', 'when', 'how', 'why', 'which', 'who'];
         const questionMarkers = ['?', 'do i have', 'can i find', 'show me', 'tell me'];
         
@@ -70,157 +161,146 @@ export class OpenMetadataService {
     }
 
     // Enhanced search that handles natural language
-    async searchWithNaturalLanguage(query: string): Promise<{ results: TableResult[], searchTermsUsed: string[], wasNaturalLanguage: boolean }> {
+    async searchWithNaturalLanguage(query: string, options: SearchOptions = {}, signal?: AbortSignal): Promise<SearchResponse & { searchTermsUsed: string[], wasNaturalLanguage: boolean }> {
         try {
-            console.log(`Searching OpenMetadata for: ${query}`);
+            log.info(`Searching OpenMetadata for: ${query}`);
             
             // Try original query first
-            let results = await this.search(query);
+            const response = await this.search(query, options, signal);
 
             // If no results and query looks like natural language, try extracted terms
-            if (results.length === 0 && this.isNaturalLanguageQuery(query)) {
+            if (response.results.length === 0 && this.isNaturalLanguageQuery(query)) {
                 const searchTerms = this.extractSearchTerms(query);
-                console.log(`No results for original query. Trying extracted terms: ${searchTerms.join(', ')}`);
+                log.info(`No results for original query. Trying extracted terms: ${searchTerms.join(', ')}`);
                 
                 if (searchTerms.length > 0) {
-                    const allResults: TableResult[] = [];
-                    const foundTerms: string[] = [];
-
-                    for (const term of searchTerms) {
-                        try {
-                            const termResults = await this.search(term);
-                            if (termResults.length > 0) {
-                                foundTerms.push(term);
-                                // Add results, avoiding duplicates
-                                termResults.forEach(result => {
-                                    if (!allResults.find(r => r.id === result.id)) {
-                                        allResults.push(result);
-                                    }
-                                });
-                            }
-                        } catch (error) {
-                            console.warn(`Failed to search for term: ${term}`, error);
-                        }
-                    }
+                    // One query over all terms, so its results can be paged and counted like any other search
+                    const termsResponse = await this.search(searchTerms.join(' OR '), options, signal);
 
-                    console.log(`Found ${allResults.length} results using extracted terms: ${foundTerms.join(', ')}`);
+                    log.info(`Found ${termsResponse.total ?? termsResponse.results.length} results using extracted terms: ${searchTerms.join(', ')}`);
                     return {
-                        results: allResults.slice(0, 20), // Limit to 20 results
-                        searchTermsUsed: foundTerms,
+                        ...termsResponse,
+                        searchTermsUsed: searchTerms,
                         wasNaturalLanguage: true
                     };
                 }
             }
 
             return {
-                results,
+                ...response,
                 searchTermsUsed: [query],
                 wasNaturalLanguage: false
             };
         } catch (error) {
-            console.error('Error searching OpenMetadata:', error);
+            log.error('Error searching OpenMetadata:', error);
             throw error;
         }
     }
 
-    private getAuthHeaders(): Record<string, string> {
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json'
+    // Run a question the LLM has already turned into terms and filters
+    async searchStructured(structured: StructuredQuery, options: SearchOptions = {}, signal?: AbortSignal): Promise<SearchResponse & { searchTermsUsed: string[], wasNaturalLanguage: boolean }> {
+        log.info(`Searching OpenMetadata for interpreted query: ${JSON.stringify(structured)}`);
+
+        const response = await this.search(structuredQueryString(structured), applyStructuredQuery(options, structured), signal);
+        return {
+            ...response,
+            searchTermsUsed: structured.terms,
+            wasNaturalLanguage: true
         };
+    }
 
-        if (this.authToken) {
-            headers['Authorization'] = `Bearer ${this.authToken}`;
+    /**
+     * Load the page a previous search pointed to with its `nextCursor`.
+     */
+    async searchPage(cursor: SearchCursor, options: SearchOptions = {}, signal?: AbortSignal): Promise<SearchResponse> {
+        if ('after' in cursor) {
+            return this.getAllTablesFiltered(cursor.query, signal, cursor.after);
         }
-
-        return headers;
+        return this.search(cursor.query, { ...options, from: cursor.from }, signal);
     }
 
-    async search(query: string): Promise<TableResult[]> {
-        try {
-            console.log(`Searching OpenMetadata for: ${query}`);
-            
-            // First, try the search API
-            const searchUrl = `${this.baseUrl}/api/v1/search/query?q=${encodeURIComponent(query)}&index=table_search_index&size=20`;
-            
-            const response = await fetch(searchUrl, {
-                method: 'GET',
-                headers: this.getAuthHeaders()
-            });
+    async search(query: string, options: SearchOptions = {}, signal?: AbortSignal): Promise<SearchResponse> {
+        const { entityType, filters, sort = 'relevance', from = 0, size = PAGE_SIZE } = options;
+        const restricted = hasFilters(filters) || !!options.entityTypes || !!options.updatedAfter || !!options.updatedBefore;
 
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.error(`OpenMetadata search failed: ${response.status} ${response.statusText}`, errorText);
+        try {
+            log.debug(`Querying ${entityType ? SEARCH_INDEXES[entityType] : 'all'} index for: ${query} (from ${from}, sorted by ${sort})`);
 
-                // If 401, provide helpful error
-                if (response.status === 401) {
-                    throw new Error('OpenMetadata authentication failed. Please configure your authentication token in VS Code settings (OpenMetadata Auth Token).');
-                }
+            const testStatus = filters?.testStatus || [];
+            const fullyQualifiedNames = testStatus.length > 0
+                ? await this.tablesWithTestStatus(testStatus as TestStatus[], signal)
+                : options.fullyQualifiedNames;
 
-                // If search fails, try to get all tables and filter locally
-                console.log('Search API failed, trying to get all tables...');
-                return await this.getAllTablesFiltered(query);
-            }
-
-            const data = await response.json();
-            console.log('OpenMetadata search response:', data);
+            const data = await this.http.get('/api/v1/search/query', {
+                params: {
+                    q: query,
+                    index: entityType ? SEARCH_INDEXES[entityType] : 'all',
+                    from,
+                    size,
+                    deleted: false,
+                    query_filter: buildQueryFilter({ ...options, fullyQualifiedNames }),
+                    ...SORT_PARAMS[sort]
+                },
+                signal
+            });
+            log.debug(`Search returned ${data.hits?.hits?.length ?? 0} of ${data.hits?.total?.value ?? 'unknown'} hits`);
 
             // Transform the search results
-            const results: TableResult[] = [];
+            const results: EntityResult[] = [];
             
             if (data.hits?.hits) {
                 for (const hit of data.hits.hits) {
-                    const source = hit._source;
-                    results.push({
-                        id: source.id || hit._id,
-                        name: source.name || source.displayName || 'Unknown',
-                        fullyQualifiedName: source.fullyQualifiedName || source.name,
-                        description: source.description,
-                        tableType: source.tableType,
-                        columns: source.columns,
-                        rowCount: source.rowCount,
-                        database: source.database?.name,
-                        schema: source.databaseSchema?.name,
-                        updatedAt: source.updatedAt,
-                        tags: source.tags?.map((tag: any) => tag.tagFQN || tag.name) || []
-                    });
+                    const result = toEntityResult({ id: hit._id, ...hit._source }, entityType);
+                    if (result) {
+                        results.push(result);
+                    }
                 }
             }
 
-            console.log(`Found ${results.length} results`);
-            return results;
+            const hits = data.hits?.hits?.length ?? 0;
+            const total = data.hits?.total?.value ?? hits;
+            const next = from + hits;
+            log.info(`Found ${results.length} results (${next} of ${total})`);
+
+            return {
+                results,
+                facets: toFacets(data.aggregations),
+                total,
+                nextCursor: hits > 0 && next < total && next < MAX_SEARCH_WINDOW ? { query, from: next } : undefined
+            };
 
         } catch (error) {
-            console.error('Error searching OpenMetadata:', error);
-            
+            // Cancelled requests and rejected tokens must not fall back to another request
+            if (signal?.aborted || error instanceof AuthError) {
+                throw error;
+            }
+
+            log.error('Error searching OpenMetadata:', error);
+            // The fallback can neither search other types nor apply filters, and only pages forward
+            if ((entityType && entityType !== 'table') || restricted || from > 0) {
+                throw error;
+            }
+
             // Fallback: try to get some sample tables
             try {
-                return await this.getAllTablesFiltered(query);
+                log.info('Search API failed, trying to get all tables...');
+                return await this.getAllTablesFiltered(query, signal);
             } catch (fallbackError) {
-                console.error('Fallback also failed:', fallbackError);
+                if (signal?.aborted || fallbackError instanceof AuthError) {
+                    throw fallbackError;
+                }
+                log.error('Fallback also failed:', fallbackError);
                 throw new Error(`Failed to search OpenMetadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
             }
         }
     }
 
-    private async getAllTablesFiltered(query: string): Promise<TableResult[]> {
+    private async getAllTablesFiltered(query: string, signal?: AbortSignal, after?: string): Promise<SearchResponse> {
         try {
-            console.log('Fetching all tables as fallback...');
+            log.debug('Fetching all tables as fallback...');
             
-            const tablesUrl = `${this.baseUrl}/api/v1/tables?limit=50`;
-            const response = await fetch(tablesUrl, {
-                method: 'GET',
-                headers: this.getAuthHeaders()
-            });
-
-            if (!response.ok) {
-                if (response.status === 401) {
-                    throw new Error('OpenMetadata authentication failed. Please configure your authentication token in VS Code settings (OpenMetadata Auth Token).');
-                }
-                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-            }
-
-            const data = await response.json();
-            console.log('All tables response:', data);
+            const data = await this.http.get('/api/v1/tables', { params: { limit: 50, after }, signal });
+            log.debug(`Fetched ${data.data?.length ?? 0} tables`);
 
             let tables = data.data || [];
             
@@ -235,77 +315,1226 @@ export class OpenMetadataService {
             }
 
             // Transform to our format
-            const results: TableResult[] = tables.map((table: any) => ({
-                id: table.id,
-                name: table.name,
-                fullyQualifiedName: table.fullyQualifiedName,
-                description: table.description,
-                tableType: table.tableType,
-                columns: table.columns,
-                rowCount: table.rowCount,
-                database: table.database?.name,
-                schema: table.databaseSchema?.name,
-                updatedAt: table.updatedAt,
-                tags: table.tags?.map((tag: any) => tag.tagFQN || tag.name) || []
-            }));
+            const results: TableResult[] = tables.map(toTableResult);
 
-            console.log(`Filtered to ${results.length} tables`);
-            return results;
+            log.debug(`Filtered to ${results.length} tables`);
+            // Matches are filtered locally, so the total is unknown
+            return {
+                results,
+                facets: [],
+                nextCursor: data.paging?.after ? { query, after: data.paging.after } : undefined
+            };
 
         } catch (error) {
-            console.error('Error fetching all tables:', error);
+            log.error('Error fetching all tables:', error);
             throw error;
         }
     }
 
-    async getTableDetails(tableId: string): Promise<TableResult | null> {
+    /**
+     * Latest profiler metrics of a table and its columns, with the row count
+     * over the last 30 days. Tables that were never profiled have no metrics.
+     */
+    async getTableProfile(fqn: string, signal?: AbortSignal): Promise<TableProfile> {
+        const path = `/api/v1/tables/${encodeURIComponent(fqn)}`;
+
+        const [latest, history] = await Promise.all([
+            this.http.get(`${path}/tableProfile/latest`, { signal }),
+            this.http.get(`${path}/tableProfile`, { params: profileRange(), signal }).catch(error => {
+                // The history is optional; servers without profiler data answer 404
+                if (signal?.aborted || !(error instanceof NotFoundError)) throw error;
+                return { data: [] };
+            })
+        ]);
+
+        return {
+            timestamp: toEpochMs(latest.profile?.timestamp),
+            rowCount: latest.profile?.rowCount,
+            columnCount: latest.profile?.columnCount,
+            sizeInBytes: latest.profile?.sizeInByte,
+            rowCountHistory: (history.data || [])
+                .filter((entry: any) => entry.rowCount !== undefined)
+                .map((entry: any) => ({ timestamp: toEpochMs(entry.timestamp)!, rowCount: entry.rowCount }))
+                .sort((a: { timestamp: number }, b: { timestamp: number }) => a.timestamp - b.timestamp),
+            columns: (latest.columns || [])
+                .filter((column: any) => column.profile)
+                .map((column: any) => ({
+                    ...toColumnProfile(column.profile, column.name),
+                    fullyQualifiedName: column.fullyQualifiedName
+                }))
+        };
+    }
+
+    /**
+     * Metrics of one column over the last 30 days, oldest first.
+     */
+    async getColumnProfileHistory(columnFqn: string, signal?: AbortSignal): Promise<ColumnProfile[]> {
+        const data = await this.http.get(`/api/v1/tables/${encodeURIComponent(columnFqn)}/columnProfile`, {
+            params: profileRange(),
+            signal
+        });
+        const name = columnFqn.split('.').pop() || columnFqn;
+        return (data.data || [])
+            .map((profile: any) => toColumnProfile(profile, name))
+            .sort((a: ColumnProfile, b: ColumnProfile) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+    }
+
+    /**
+     * Type-ahead suggestions for a partly typed query from the suggest API: data
+     * assets, tags, glossary terms and owners. Indexes that fail are skipped.
+     */
+    async suggest(query: string, signal?: AbortSignal): Promise<Suggestion[]> {
+        const lists = await Promise.all(SUGGEST_INDEXES.map(async ({ index, kind }) => {
+            try {
+                const data = await this.http.get('/api/v1/search/suggest', {
+                    params: { q: query, index, field: 'suggest', size: SUGGEST_SIZE, deleted: false },
+                    retries: 0,
+                    signal
+                });
+                const options: any[] = data.suggest?.['metadata-suggest']?.[0]?.options || [];
+                return options
+                    .map(option => toSuggestion(option._source || {}, kind))
+                    .filter((suggestion): suggestion is Suggestion => !!suggestion);
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                log.debug(`Suggest failed for ${index}:`, error);
+                return [];
+            }
+        }));
+
+        // The same owner can come back from users and teams
+        const seen = new Set<string>();
+        return lists.flat().filter(suggestion => {
+            const key = `${suggestion.kind}:${suggestion.value}`;
+            return !seen.has(key) && !!seen.add(key);
+        });
+    }
+
+    /**
+     * One page of all tables with their columns, for building the semantic index.
+     */
+    async listTables(after?: string, signal?: AbortSignal): Promise<{ tables: TableResult[]; after?: string }> {
+        const data = await this.http.get('/api/v1/tables', { params: { fields: 'columns,tags', limit: 100, after }, signal });
+        return { tables: (data.data || []).map(toTableResult), after: data.paging?.after };
+    }
+
+    /**
+     * Usage counts of a table over the last 30 days, its most used recent
+     * queries and the tables it is joined with in them.
+     */
+    async getTableUsage(fqn: string, signal?: AbortSignal): Promise<TableUsage> {
+        const table = await this.http.get(`/api/v1/tables/name/${encodeURIComponent(fqn)}`, { params: { fields: 'usageSummary' }, signal });
+
+        // Usage and queries are only collected when usage ingestion runs; older servers lack the endpoints
+        const optional = <T>(request: Promise<T>, fallback: T) => request.catch(error => {
+            if (signal?.aborted || !(error instanceof NotFoundError)) throw error;
+            return fallback;
+        });
+
+        const [usage, queries] = await Promise.all([
+            optional(this.http.get(`/api/v1/usage/table/name/${encodeURIComponent(fqn)}`, { params: { days: USAGE_DAYS }, signal }), { usage: [] }),
+            optional(this.http.get('/api/v1/queries', { params: { entityId: table.id, fields: 'users,votes', limit: MAX_QUERIES }, signal }), { data: [] })
+        ]);
+
+        const since = Date.now() - USAGE_DAYS * DAY_MS;
+        const recent: TableQuery[] = (queries.data || [])
+            .map(toTableQuery)
+            .filter((query: TableQuery) => query.query && (query.queryDate === undefined || query.queryDate >= since))
+            // Repeated runs of the same SQL are one query used by more people, so users stand in for frequency
+            .sort((a: TableQuery, b: TableQuery) =>
+                b.users.length - a.users.length || (b.votes ?? 0) - (a.votes ?? 0) || (b.queryDate ?? 0) - (a.queryDate ?? 0));
+
+        return {
+            summary: toUsageSummary(table.usageSummary),
+            history: (usage.usage || [])
+                .filter((day: any) => day.date && day.dailyStats)
+                .map((day: any) => ({ date: day.date, count: day.dailyStats.count }))
+                .sort((a: { date: string }, b: { date: string }) => a.date.localeCompare(b.date)),
+            queries: recent.slice(0, TOP_QUERIES),
+            joinPartners: inferJoinPartners(recent, table.name)
+        };
+    }
+
+    /**
+     * FQNs of tables with a test whose latest result has one of the statuses.
+     * Tests run on tables and their columns only.
+     */
+    private async tablesWithTestStatus(statuses: TestStatus[], signal?: AbortSignal): Promise<string[]> {
+        const tables = new Set<string>();
+        let after: string | undefined;
+
+        do {
+            const data = await this.http.get('/api/v1/dataQuality/testCases', {
+                params: {
+                    fields: 'testCaseResult',
+                    // Older servers ignore the status, so results are checked below as well
+                    testCaseStatus: statuses.length === 1 ? statuses[0] : undefined,
+                    limit: 1000,
+                    after
+                },
+                signal
+            });
+            for (const testCase of data.data || []) {
+                const table = parseEntityLink(testCase.entityLink)?.table;
+                if (table && statuses.includes(testCase.testCaseResult?.testCaseStatus)) {
+                    tables.add(table);
+                }
+            }
+            after = data.paging?.after;
+        } while (after);
+
+        log.debug(`${tables.size} tables have tests with status ${statuses.join(' or ')}`);
+        return [...tables];
+    }
+
+    /**
+     * Tests of a table and its columns with 30 days of results, plus the open
+     * incidents raised by them.
+     */
+    async getDataQuality(fqn: string, signal?: AbortSignal): Promise<DataQualityReport> {
+        const params = { entityLink: `<#E::table::${fqn}>`, includeAllTests: true, limit: 1000 };
+
+        let testCases: any[];
+        try {
+            testCases = (await this.http.get('/api/v1/dataQuality/testCases', {
+                params: { ...params, fields: 'testCaseResult,testDefinition,testSuites' },
+                signal
+            })).data || [];
+        } catch (error) {
+            // Before 1.4 a test case belonged to a single testSuite
+            if (!(error instanceof HttpError) || error.status !== 400) {
+                throw error;
+            }
+            testCases = (await this.http.get('/api/v1/dataQuality/testCases', {
+                params: { ...params, fields: 'testCaseResult,testDefinition,testSuite' },
+                signal
+            })).data || [];
+        }
+
+        const tests: DataQualityTest[] = [];
+        for (let i = 0; i < testCases.length; i += HISTORY_BATCH_SIZE) {
+            const batch = testCases.slice(i, i + HISTORY_BATCH_SIZE);
+            tests.push(...await Promise.all(batch.map(async testCase =>
+                toDataQualityTest(testCase, await this.getTestResults(testCase.fullyQualifiedName, signal))
+            )));
+        }
+
+        const summary = Object.fromEntries(TEST_STATUSES.map(status => [status, 0])) as Record<TestStatus, number>;
+        for (const test of tests) {
+            if (test.latest) summary[test.latest.status]++;
+        }
+
+        return { summary, tests, incidents: await this.getOpenIncidents(fqn, signal) };
+    }
+
+    private async getTestResults(testFqn: string, signal?: AbortSignal): Promise<TestResult[]> {
+        const path = encodeURIComponent(testFqn);
+        let data: any;
         try {
-            const url = `${this.baseUrl}/api/v1/tables/${tableId}`;
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: this.getAuthHeaders()
+            data = await this.http.get(`/api/v1/dataQuality/testCases/testCaseResults/${path}`, { params: profileRange(), signal });
+        } catch (error) {
+            // Results moved to their own collection in 1.6
+            if (signal?.aborted || !(error instanceof NotFoundError)) throw error;
+            data = await this.http.get(`/api/v1/dataQuality/testCases/${path}/testCaseResult`, { params: profileRange(), signal });
+        }
+
+        return (data.data || [])
+            .map(toTestResult)
+            .filter((result: TestResult | undefined): result is TestResult => !!result)
+            .sort((a: TestResult, b: TestResult) => a.timestamp - b.timestamp);
+    }
+
+    private async getOpenIncidents(fqn: string, signal?: AbortSignal): Promise<DataQualityIncident[]> {
+        const endTs = Date.now();
+        let data: any;
+        try {
+            data = await this.http.get('/api/v1/dataQuality/testCases/testCaseIncidentStatus', {
+                params: { latest: true, originEntityFQN: fqn, startTs: endTs - INCIDENT_LOOKBACK_DAYS * DAY_MS, endTs },
+                signal
             });
+        } catch (error) {
+            // The incident manager arrived in 1.3; older servers have no incidents to show
+            if (signal?.aborted || !(error instanceof HttpError) || (error.status !== 404 && error.status !== 400)) throw error;
+            log.debug('Incident manager unavailable:', error);
+            return [];
+        }
 
-            if (!response.ok) {
-                if (response.status === 401) {
-                    throw new Error('OpenMetadata authentication failed. Please configure your authentication token in VS Code settings (OpenMetadata Auth Token).');
-                }
-                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        return (data.data || [])
+            .filter((incident: any) => incident.testCaseResolutionStatusType !== 'Resolved')
+            .map((incident: any): DataQualityIncident => ({
+                id: incident.stateId || incident.id,
+                testCase: incident.testCaseReference?.displayName || incident.testCaseReference?.name || '',
+                status: incident.testCaseResolutionStatusType,
+                severity: incident.severity,
+                assignee: incident.testCaseResolutionStatusDetails?.assignee?.displayName
+                    || incident.testCaseResolutionStatusDetails?.assignee?.name,
+                updatedAt: toEpochMs(incident.updatedAt ?? incident.timestamp)
+            }));
+    }
+
+    /**
+     * Sample rows ingested for a table, with column types and tags. Nothing is
+     * filtered here; see `withoutSensitiveSample`.
+     */
+    async getSampleData(fqn: string, signal?: AbortSignal): Promise<SampleData> {
+        const table = await this.http.get(`/api/v1/tables/name/${encodeURIComponent(fqn)}`, {
+            params: { fields: 'columns,tags' },
+            signal
+        });
+
+        let sampleData: any;
+        try {
+            sampleData = (await this.http.get(`/api/v1/tables/${table.id}/sampleData`, { signal })).sampleData;
+        } catch (error) {
+            // Tables without ingested samples answer 404 on some versions
+            if (signal?.aborted || !(error instanceof NotFoundError)) throw error;
+        }
+
+        // Sample data names columns as the table does, never by display name
+        const columns = new Map((toColumns(table.columns) || []).map(column => [column.name, column]));
+        const names: string[] = sampleData?.columns || [];
+        return {
+            columns: names.map(name => ({
+                name,
+                dataType: columns.get(name)?.dataTypeDisplay || columns.get(name)?.dataType,
+                tags: columnTags(columns.get(name))
+            })),
+            rows: (sampleData?.rows || []).map((row: unknown[]) => names.map((_, index) => toSampleValue(row[index]))),
+            excludedColumns: []
+        };
+    }
+
+    /**
+     * Fetch one entity by FQN with owners, tier, domains, followers, votes,
+     * custom properties and, for tables, columns, constraints and partitioning.
+     */
+    async getEntityDetails(entityType: EntityType, fqn: string, signal?: AbortSignal): Promise<EntityDetails> {
+        const path = `/api/v1/${ENTITY_COLLECTIONS[entityType]}/name/${encodeURIComponent(fqn)}`;
+        const typeFields = DETAIL_FIELDS[entityType] || [];
+
+        let source: any;
+        try {
+            source = await this.http.get(path, { params: { fields: [...COMMON_DETAIL_FIELDS, ...typeFields].join(',') }, signal });
+        } catch (error) {
+            // Servers before 1.5 reject unknown fields such as owners, domains and votes
+            if (!(error instanceof HttpError) || error.status !== 400) {
+                throw error;
             }
+            log.debug('Entity fields rejected, retrying with legacy field names');
+            source = await this.http.get(path, { params: { fields: [...LEGACY_DETAIL_FIELDS, ...typeFields].join(',') }, signal });
+        }
 
-            const table = await response.json();
-            
+        return toEntityDetails(source, entityType);
+    }
+
+    /**
+     * All versions of an entity, newest first, with what changed in each.
+     */
+    async getEntityVersions(entityType: EntityType, fqn: string, signal?: AbortSignal): Promise<{ entityId: string; versions: EntityVersion[] }> {
+        const entity = await this.http.get(`/api/v1/${ENTITY_COLLECTIONS[entityType]}/name/${encodeURIComponent(fqn)}`, { signal });
+        return { entityId: entity.id, versions: await this.getVersionHistory(entityType, entity.id, signal) };
+    }
+
+    async getVersionHistory(entityType: EntityType, entityId: string, signal?: AbortSignal): Promise<EntityVersion[]> {
+        const data = await this.http.get(`/api/v1/${ENTITY_COLLECTIONS[entityType]}/${entityId}/versions`, { signal });
+
+        // Each version is the entity as a JSON string
+        const versions: EntityVersion[] = (data.versions || []).map((version: string | object) => {
+            const source: any = typeof version === 'string' ? JSON.parse(version) : version;
             return {
-                id: table.id,
-                name: table.name,
-                fullyQualifiedName: table.fullyQualifiedName,
-                description: table.description,
-                tableType: table.tableType,
-                columns: table.columns,
-                rowCount: table.rowCount,
-                database: table.database?.name,
-                schema: table.databaseSchema?.name,
-                updatedAt: table.updatedAt,
-                tags: table.tags?.map((tag: any) => tag.tagFQN || tag.name) || []
+                version: source.version,
+                updatedAt: source.updatedAt,
+                updatedBy: source.updatedBy,
+                changes: toFieldChanges(source.changeDescription)
             };
+        });
+
+        return versions.sort((a, b) => b.version - a.version);
+    }
 
+    /**
+     * An entity as it was at one version. Looked up by ID, which survives renames.
+     */
+    async getEntityVersion(entityType: EntityType, entityId: string, version: number, signal?: AbortSignal): Promise<EntityDetails> {
+        const source = await this.http.get(`/api/v1/${ENTITY_COLLECTIONS[entityType]}/${entityId}/versions/${version}`, { signal });
+        return toEntityDetails(source, entityType);
+    }
+
+    /**
+     * Whether the signed-in user may edit the description of a table. Servers
+     * without the permissions API answer true; a refused update is handled later.
+     */
+    async canEditDescription(fqn: string, signal?: AbortSignal): Promise<boolean> {
+        try {
+            const data = await this.http.get(`/api/v1/permissions/table/name/${encodeURIComponent(fqn)}`, { signal });
+            return (data.permissions || []).some((permission: any) =>
+                EDIT_DESCRIPTION_OPERATIONS.includes(permission.operation) && ALLOWED_ACCESS.includes(permission.access));
         } catch (error) {
-            console.error(`Error fetching table ${tableId}:`, error);
-            return null;
+            if (signal?.aborted) throw error;
+            log.debug('Permissions unavailable, assuming descriptions can be edited:', error);
+            return true;
         }
     }
 
-    async testConnection(): Promise<boolean> {
+    /**
+     * Set the description of a table or one of its top-level columns with a JSON Patch.
+     */
+    async updateDescription(fqn: string, description: string, column?: string, signal?: AbortSignal): Promise<void> {
+        const table = await this.http.get(`/api/v1/tables/name/${encodeURIComponent(fqn)}`, {
+            params: { fields: column ? 'columns' : undefined },
+            signal
+        });
+
+        const path = column ? `/columns/${columnIndex(table, column)}/description` : '/description';
+
+        // "add" replaces an existing value and also works when there is none
+        await this.http.patch(`/api/v1/tables/${table.id}`, [{ op: 'add', path, value: description }], {
+            headers: { 'Content-Type': 'application/json-patch+json' },
+            signal
+        });
+    }
+
+    /**
+     * Ask the owners of a table to set a description by creating a Request
+     * Description task with the text as its suggestion.
+     */
+    async requestDescription(fqn: string, description: string, column?: string, signal?: AbortSignal): Promise<void> {
+        const [table, user] = await Promise.all([
+            this.getTableWithOwners(fqn, signal),
+            this.http.get('/api/v1/users/loggedInUser', { signal })
+        ]);
+        if (table.owners.length === 0) {
+            throw new Error(`${fqn} has no owners to assign a description request to. Ask a data steward to set an owner first.`);
+        }
+
+        const current = column ? table.columns?.[columnIndex(table, column)].description : table.description;
+        await this.http.post('/api/v1/feed', {
+            from: user.name,
+            message: `Request description for ${column ? `column ${column} of ` : ''}table ${fqn}`,
+            about: column ? `<#E::table::${fqn}::columns::${column}::description>` : `<#E::table::${fqn}::description>`,
+            type: 'Task',
+            taskDetails: {
+                type: 'RequestDescription',
+                assignees: table.owners.map((owner: any) => ({ id: owner.id, type: owner.type })),
+                oldValue: current || '',
+                suggestion: description
+            }
+        }, { signal });
+    }
+
+    private async getTableWithOwners(fqn: string, signal?: AbortSignal): Promise<{ description?: string; columns?: any[]; owners: any[] }> {
+        const path = `/api/v1/tables/name/${encodeURIComponent(fqn)}`;
         try {
-            const response = await fetch(`${this.baseUrl}/api/v1/system/version`, {
-                method: 'GET',
-                headers: this.getAuthHeaders()
+            const table = await this.http.get(path, { params: { fields: 'owners,columns' }, signal });
+            return { ...table, owners: table.owners || [] };
+        } catch (error) {
+            // Servers before 1.5 have a single owner
+            if (!(error instanceof HttpError) || error.status !== 400) throw error;
+            const table = await this.http.get(path, { params: { fields: 'owner,columns' }, signal });
+            return { ...table, owners: table.owner ? [table.owner] : [] };
+        }
+    }
+
+    /**
+     * Classification tags and glossary terms that can be assigned, including
+     * the tiers. Cached for a few minutes, since pickers open often.
+     */
+    async getTagOptions(signal?: AbortSignal): Promise<TagOption[]> {
+        if (this.tagOptions && Date.now() - this.tagOptions.loadedAt < TAG_OPTIONS_TTL) {
+            return this.tagOptions.options;
+        }
+
+        const [tags, terms] = await Promise.all([
+            this.listAll('/api/v1/tags', signal),
+            this.listAll('/api/v1/glossaryTerms', signal)
+        ]);
+        const options: TagOption[] = [
+            ...tags
+                .filter(tag => !tag.deprecated && !tag.disabled)
+                .map(tag => ({ fqn: tag.fullyQualifiedName, source: 'Classification' as const, description: tag.description })),
+            ...terms.map(term => ({ fqn: term.fullyQualifiedName, source: 'Glossary' as const, description: term.description }))
+        ];
+
+        this.tagOptions = { loadedAt: Date.now(), options };
+        return options;
+    }
+
+    // Pages through a list endpoint, up to MAX_LIST_PAGES pages
+    private async listAll(path: string, signal?: AbortSignal): Promise<any[]> {
+        const items: any[] = [];
+        let after: string | undefined;
+        for (let page = 0; page < MAX_LIST_PAGES; page++) {
+            const data = await this.http.get(path, { params: { limit: 1000, after }, signal });
+            items.push(...(data.data || []));
+            after = data.paging?.after;
+            if (!after) break;
+        }
+        return items;
+    }
+
+    /**
+     * Add or remove one tag, tier or glossary term on a table or one of its
+     * top-level columns. When `expectedVersion` is given and the table has
+     * changed since, nothing is written and a VersionConflictError carries the
+     * latest tags instead.
+     */
+    async updateTags(fqn: string, change: TagChange, column?: string, expectedVersion?: number, signal?: AbortSignal): Promise<TagState> {
+        const table = await this.http.get(`/api/v1/tables/name/${encodeURIComponent(fqn)}`, {
+            params: { fields: 'tags,columns' },
+            signal
+        });
+        const index = column ? columnIndex(table, column) : -1;
+        const labelsOf = (latest: any): any[] => (column ? latest.columns?.[index]?.tags : latest.tags) || [];
+        const labels = labelsOf(table);
+        const conflict = (latest: any) => new VersionConflictError(
+            `${fqn} was changed by ${latest.updatedBy || 'someone else'} in the meantime (version ${latest.version}). The latest tags are shown; make your change again if it is still needed.`,
+            toTagState(labelsOf(latest), latest.version)
+        );
+
+        if (expectedVersion !== undefined && table.version !== expectedVersion) {
+            throw conflict(table);
+        }
+
+        const remaining = labels.filter(label => label.tagFQN !== change.remove);
+        const next = change.add ? withTag(remaining, change.add) : remaining;
+
+        const updated = await this.patchTags(fqn, table.id, [
+            { op: 'add', path: column ? `/columns/${index}/tags` : '/tags', value: next }
+        ], expectedVersion, conflict, signal);
+        const updatedLabels = column ? updated.columns?.[index]?.tags : updated.tags;
+        return toTagState(updatedLabels || next, updated.version);
+    }
+
+    /**
+     * Add classification tags to several top-level columns of a table in one
+     * patch. Tags that are already there are kept once; a new PII tag replaces
+     * the column's old one. Returns the new version of the table.
+     */
+    async addColumnTags(
+        fqn: string,
+        additions: { column: string; tags: string[] }[],
+        expectedVersion?: number,
+        signal?: AbortSignal
+    ): Promise<number | undefined> {
+        const table = await this.http.get(`/api/v1/tables/name/${encodeURIComponent(fqn)}`, {
+            params: { fields: 'tags,columns' },
+            signal
+        });
+
+        const conflict = (latest: any) => new VersionConflictError(
+            `${fqn} was changed by ${latest.updatedBy || 'someone else'} in the meantime (version ${latest.version}). Classify the columns again to review them against the latest version.`
+        );
+
+        if (expectedVersion !== undefined && table.version !== expectedVersion) {
+            throw conflict(table);
+        }
+
+        const operations = additions.map(({ column, tags }) => {
+            const index = columnIndex(table, column);
+            const labels = tags.reduce<any[]>(
+                (current, tag) => withTag(current, { fqn: tag, source: 'Classification' }),
+                table.columns[index].tags || []
+            );
+            return { op: 'add', path: `/columns/${index}/tags`, value: labels };
+        });
+
+        const updated = await this.patchTags(fqn, table.id, operations, expectedVersion, conflict, signal);
+        return updated.version;
+    }
+
+    /**
+     * Apply a JSON Patch of tags to a table. With `expectedVersion` the patch
+     * starts with a test of the version, so the server refuses it if anyone wrote
+     * in between; that is reported as the error `conflict` makes of the latest table.
+     */
+    private async patchTags(
+        fqn: string,
+        id: string,
+        operations: object[],
+        expectedVersion: number | undefined,
+        conflict: (latest: any) => VersionConflictError,
+        signal?: AbortSignal
+    ): Promise<any> {
+        const guarded = expectedVersion === undefined
+            ? operations
+            : [{ op: 'test', path: '/version', value: expectedVersion }, ...operations];
+
+        try {
+            return await this.http.patch(`/api/v1/tables/${id}`, guarded, {
+                headers: { 'Content-Type': 'application/json-patch+json' },
+                signal
             });
-            
-            return response.ok;
         } catch (error) {
-            console.error('Connection test failed:', error);
-            return false;
+            // The token is fine, the user may just not edit tags here
+            if (error instanceof AuthError && error.status === 403) {
+                throw new AuthError(
+                    `You lack permission to edit tags on ${fqn}. Ask an owner of the table or an admin for the EditTags permission.`,
+                    error.status,
+                    error.url
+                );
+            }
+            if (expectedVersion === undefined || signal?.aborted || !(error instanceof HttpError) || error instanceof NetworkError) {
+                throw error;
+            }
+
+            // Servers word a failed test differently; a newer version tells it apart from other refusals
+            const latest = await this.http.get(`/api/v1/tables/name/${encodeURIComponent(fqn)}`, {
+                params: { fields: 'tags,columns' },
+                signal
+            });
+            if (latest.version !== expectedVersion) {
+                throw conflict(latest);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * FQNs of the tables in a schema that have no description yet.
+     */
+    async listUndocumentedTables(schemaFqn: string, signal?: AbortSignal): Promise<string[]> {
+        const undocumented: string[] = [];
+        let after: string | undefined;
+        do {
+            const data = await this.http.get('/api/v1/tables', {
+                params: { databaseSchema: schemaFqn, limit: 100, after },
+                signal
+            });
+            undocumented.push(...(data.data || [])
+                .filter((table: any) => !table.description?.trim())
+                .map((table: any) => table.fullyQualifiedName));
+            after = data.paging?.after;
+        } while (after);
+        return undocumented;
+    }
+
+    /**
+     * Check that the server is reachable, runs a supported version and accepts the token.
+     */
+    async checkConnection(): Promise<ConnectionCheck> {
+        let version: string | undefined;
+
+        try {
+            version = (await this.http.get('/api/v1/system/version', { retries: 0, timeout: 10000 })).version;
+        } catch (error) {
+            log.error('Connection test failed:', error);
+            return {
+                state: 'unreachable',
+                message: error instanceof NetworkError
+                    ? `${error.message} Make sure the server is running and the URL is correct.`
+                    : `OpenMetadata at ${this.baseUrl} answered ${error instanceof HttpError && error.status ? `HTTP ${error.status}` : 'unexpectedly'}. Check the OpenMetadata URL.`,
+                fix: 'openSettings'
+            };
+        }
+
+        if (version && compareVersions(version, MIN_OPENMETADATA_VERSION) < 0) {
+            return {
+                state: 'versionMismatch',
+                message: `OpenMetadata ${version} is not supported; version ${MIN_OPENMETADATA_VERSION} or newer is required.`,
+                detail: version
+            };
+        }
+
+        if (!(await this.getAuthToken())) {
+            return {
+                state: 'authFailed',
+                message: 'Not signed in to OpenMetadata. Sign in or add a bot or personal access token.',
+                fix: 'signIn',
+                detail: version
+            };
+        }
+
+        try {
+            // Resolves the bot or user the token belongs to
+            const user = await this.http.get('/api/v1/users/loggedInUser', { retries: 0, timeout: 10000 });
+            return {
+                state: 'ok',
+                message: `Connected to OpenMetadata${version ? ` ${version}` : ''} as ${user.displayName || user.name}`,
+                detail: version
+            };
+        } catch (error) {
+            if (error instanceof AuthError) {
+                return {
+                    state: 'authFailed',
+                    message: 'OpenMetadata rejected the token. It may be expired or revoked; sign in again.',
+                    fix: 'signIn',
+                    detail: version
+                };
+            }
+
+            log.error('Token check failed:', error);
+            return {
+                state: 'unreachable',
+                message: `OpenMetadata could not verify the token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                fix: 'showLog',
+                detail: version
+            };
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        return (await this.checkConnection()).state === 'ok';
+    }
+}
+
+// Oldest server version whose search and lineage APIs this extension uses
+const MIN_OPENMETADATA_VERSION = '1.2.0';
+
+const PAGE_SIZE = 20;
+
+// Elasticsearch rejects from + size beyond this
+const MAX_SEARCH_WINDOW = 10000;
+
+const SORT_PARAMS: Record<SearchSort, Record<string, string>> = {
+    relevance: {},
+    updated: { sort_field: 'updatedAt', sort_order: 'desc' },
+    name: { sort_field: 'name.keyword', sort_order: 'asc' },
+    popularity: { sort_field: 'usageSummary.weeklyStats.count', sort_order: 'desc' }
+};
+
+const SEARCH_INDEXES: Record<EntityType, string> = {
+    table: 'table_search_index',
+    dashboard: 'dashboard_search_index',
+    pipeline: 'pipeline_search_index',
+    topic: 'topic_search_index',
+    mlmodel: 'mlmodel_search_index',
+    container: 'container_search_index',
+    storedProcedure: 'stored_procedure_search_index',
+    searchIndex: 'search_entity_search_index',
+    apiEndpoint: 'api_endpoint_search_index',
+    glossaryTerm: 'glossary_term_search_index'
+};
+
+// REST collection per entity type, as in /api/v1/tables
+const ENTITY_COLLECTIONS: Record<EntityType, string> = {
+    table: 'tables',
+    dashboard: 'dashboards',
+    pipeline: 'pipelines',
+    topic: 'topics',
+    mlmodel: 'mlmodels',
+    container: 'containers',
+    storedProcedure: 'storedProcedures',
+    searchIndex: 'searchIndexes',
+    apiEndpoint: 'apiEndpoints',
+    glossaryTerm: 'glossaryTerms'
+};
+
+const COMMON_DETAIL_FIELDS = ['owners', 'tags', 'followers', 'votes', 'extension', 'domains', 'dataProducts'];
+const LEGACY_DETAIL_FIELDS = ['owner', 'tags', 'followers', 'extension', 'domain'];
+const DETAIL_FIELDS: Partial<Record<EntityType, string[]>> = {
+    table: ['columns', 'tableConstraints', 'tablePartition'],
+    container: ['dataModel'],
+    searchIndex: ['fields']
+};
+
+const TAG_OPTIONS_TTL = 5 * 60 * 1000;
+const MAX_LIST_PAGES = 10;
+
+// Either permission lets a user change a table's description
+const EDIT_DESCRIPTION_OPERATIONS = ['EditDescription', 'EditAll'];
+const ALLOWED_ACCESS = ['allow', 'conditionalAllow'];
+
+const SUGGEST_SIZE = 5;
+
+const SUGGEST_INDEXES: { index: string; kind: Suggestion['kind'] }[] = [
+    { index: 'all', kind: 'asset' },
+    { index: 'tag_search_index', kind: 'tag' },
+    { index: 'glossary_term_search_index', kind: 'glossaryTerm' },
+    { index: 'user_search_index', kind: 'owner' },
+    { index: 'team_search_index', kind: 'owner' }
+];
+
+// Keyword fields per facet; field names differ between server versions, so the first one present is used.
+// testStatus has no search field and is turned into a list of tables instead.
+const FACET_FIELDS: Partial<Record<FacetField, string[]>> = {
+    service: ['service.displayName.keyword', 'service.name.keyword'],
+    database: ['database.displayName.keyword', 'database.name.keyword'],
+    databaseSchema: ['databaseSchema.displayName.keyword', 'databaseSchema.name.keyword'],
+    owner: ['owners.displayName.keyword', 'owner.displayName.keyword'],
+    tier: ['tier.tagFQN'],
+    tag: ['tags.tagFQN'],
+    domain: ['domains.displayName.keyword', 'domain.displayName.keyword']
+};
+
+const FQN_FIELDS = ['fullyQualifiedName', 'fullyQualifiedName.keyword'];
+
+/**
+ * Elasticsearch query sent as `query_filter`. The "all" index also holds users,
+ * teams and tags, so it is narrowed to the supported entity types.
+ */
+function buildQueryFilter(options: SearchOptions): string | undefined {
+    const must: object[] = [];
+
+    if (!options.entityType) {
+        must.push({ terms: { entityType: options.entityTypes || Object.keys(SEARCH_INDEXES) } });
+    }
+
+    for (const [field, values] of Object.entries(options.filters || {}) as [FacetField, string[]][]) {
+        const keys = FACET_FIELDS[field];
+        if (keys && values.length > 0) {
+            must.push({ bool: { should: keys.map(key => ({ terms: { [key]: values } })) } });
+        }
+    }
+
+    if (options.fullyQualifiedNames) {
+        must.push({ bool: { should: FQN_FIELDS.map(key => ({ terms: { [key]: options.fullyQualifiedNames } })) } });
+    }
+
+    // updatedAt is stored in epoch milliseconds
+    if (options.updatedAfter || options.updatedBefore) {
+        must.push({
+            range: {
+                updatedAt: {
+                    gte: options.updatedAfter ? Date.parse(options.updatedAfter) : undefined,
+                    lt: options.updatedBefore ? Date.parse(options.updatedBefore) + 24 * 60 * 60 * 1000 : undefined
+                }
+            }
+        });
+    }
+
+    return must.length > 0 ? JSON.stringify({ query: { bool: { must } } }) : undefined;
+}
+
+// Aggregation keys are prefixed with their type, e.g. "sterms#tier.tagFQN"
+function toFacets(aggregations: Record<string, any> | undefined): Facet[] {
+    const buckets = new Map<string, any[]>();
+    for (const [key, value] of Object.entries(aggregations || {})) {
+        buckets.set(key.replace(/^\w+#/, ''), value?.buckets || []);
+    }
+
+    const facets: Facet[] = [];
+    for (const [field, keys] of Object.entries(FACET_FIELDS) as [FacetField, string[]][]) {
+        const key = keys.find(candidate => buckets.get(candidate)?.length);
+        if (key) {
+            facets.push({
+                field,
+                buckets: buckets.get(key)!.map(bucket => ({ value: String(bucket.key), count: bucket.doc_count }))
+            });
+        }
+    }
+    return facets;
+}
+
+const names = (items?: any[]): string[] | undefined =>
+    items?.map(item => item.displayName || item.name).filter(Boolean);
+
+function toTableResult(source: any): TableResult {
+    return {
+        ...toResultBase(source),
+        entityType: 'table',
+        tableType: source.tableType,
+        columns: source.columns,
+        rowCount: source.rowCount,
+        database: source.database?.name,
+        schema: source.databaseSchema?.name,
+        usage: toUsageSummary(source.usageSummary),
+        tier: source.tier?.tagFQN
+    };
+}
+
+function toResultBase(source: any) {
+    // Servers before 1.5 have a single owner instead of a list
+    const owners = source.owners || (source.owner ? [source.owner] : undefined);
+
+    return {
+        id: source.id,
+        name: source.name || source.displayName || 'Unknown',
+        displayName: source.displayName,
+        fullyQualifiedName: source.fullyQualifiedName || source.name,
+        description: source.description,
+        service: source.service?.name,
+        owners: names(owners),
+        updatedAt: source.updatedAt,
+        tags: source.tags?.map((tag: any) => tag.tagFQN || tag.name) || [],
+        version: source.version
+    };
+}
+
+function toEntityDetails(source: any, entityType: EntityType): EntityDetails {
+    const base = toResultBase(source);
+    const tags: string[] = base.tags;
+    const tier = tags.find(tag => tag.startsWith(TIER_PREFIX));
+    const domains = source.domains || (source.domain ? [source.domain] : []);
+
+    return {
+        id: base.id,
+        entityType,
+        name: base.name,
+        displayName: base.displayName,
+        fullyQualifiedName: base.fullyQualifiedName,
+        description: base.description,
+        service: base.service,
+        owners: (source.owners || (source.owner ? [source.owner] : []))
+            .map((owner: any) => ({ name: owner.displayName || owner.name, type: owner.type }))
+            .filter((owner: { name?: string }) => owner.name),
+        tier,
+        tags: tags.filter(tag => tag !== tier),
+        domains: names(domains) || [],
+        dataProducts: names(source.dataProducts) || [],
+        followers: names(source.followers) || [],
+        votes: source.votes && { upVotes: source.votes.upVotes || 0, downVotes: source.votes.downVotes || 0 },
+        customProperties: Object.entries(source.extension || {}).map(([name, value]) => ({ name, value: formatPropertyValue(value) })),
+        version: source.version,
+        updatedAt: source.updatedAt,
+        updatedBy: source.updatedBy,
+        sourceUrl: source.sourceUrl,
+        tableType: source.tableType,
+        database: source.database?.name,
+        schema: source.databaseSchema?.name,
+        schemaFqn: source.databaseSchema?.fullyQualifiedName,
+        tableConstraints: source.tableConstraints?.map((constraint: any) => ({
+            constraintType: constraint.constraintType,
+            columns: constraint.columns || [],
+            referredColumns: constraint.referredColumns
+        })),
+        partition: toPartition(source.tablePartition),
+        columns: toColumns(
+            source.columns || source.dataModel?.columns || source.messageSchema?.schemaFields ||
+            source.fields || source.responseSchema?.schemaFields || source.mlFeatures
+        )
+    };
+}
+
+function toColumns(columns: any[] | undefined): ColumnDetails[] | undefined {
+    return columns?.map(column => ({
+        name: column.name,
+        displayName: column.displayName && column.displayName !== column.name ? column.displayName : undefined,
+        fullyQualifiedName: column.fullyQualifiedName,
+        dataType: column.dataType,
+        dataTypeDisplay: column.dataTypeDisplay,
+        description: column.description,
+        constraint: column.constraint,
+        tags: column.tags?.map((tag: any) => tag.tagFQN || tag.name) || [],
+        children: column.children?.length ? toColumns(column.children) : undefined
+    }));
+}
+
+// Servers before 1.3 list column names with one interval; later ones an interval per column
+function toPartition(partition: any) {
+    if (!partition?.columns?.length) {
+        return undefined;
+    }
+    const first = partition.columns[0];
+    return typeof first === 'string'
+        ? { columns: partition.columns, intervalType: partition.intervalType, interval: partition.interval }
+        : {
+            columns: partition.columns.map((column: any) => column.columnName),
+            intervalType: first.intervalType,
+            interval: first.interval
+        };
+}
+
+// Custom property values can be text, numbers, entity references, intervals or lists of those
+function formatPropertyValue(value: unknown): string {
+    if (Array.isArray(value)) {
+        return value.map(formatPropertyValue).join(', ');
+    }
+    if (typeof value === 'object' && value !== null) {
+        const object = value as Record<string, unknown>;
+        if ('start' in object && 'end' in object) {
+            return `${object.start} – ${object.end}`;
         }
+        const name = object.displayName || object.name || object.fullyQualifiedName;
+        return typeof name === 'string' ? name : JSON.stringify(value);
+    }
+    return String(value);
+}
+
+const PROFILE_HISTORY_DAYS = 30;
+const INCIDENT_LOOKBACK_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Test results are fetched per test; this many at a time
+const HISTORY_BATCH_SIZE = 8;
+
+function profileRange() {
+    const endTs = Date.now();
+    return { startTs: endTs - PROFILE_HISTORY_DAYS * DAY_MS, endTs };
+}
+
+// Profiler timestamps were in seconds before 1.0
+function toEpochMs(timestamp?: number): number | undefined {
+    if (timestamp === undefined || timestamp === null) return undefined;
+    return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
+
+function toColumnProfile(profile: any, name: string): ColumnProfile {
+    const histogram = profile.histogram;
+    return {
+        name: profile.name || name,
+        timestamp: toEpochMs(profile.timestamp),
+        valuesCount: profile.valuesCount,
+        nullCount: profile.nullCount,
+        nullProportion: profile.nullProportion,
+        distinctCount: profile.distinctCount,
+        uniqueCount: profile.uniqueCount,
+        min: profile.min,
+        max: profile.max,
+        mean: profile.mean,
+        median: profile.median,
+        stddev: profile.stddev,
+        histogram: histogram?.boundaries?.length
+            ? { boundaries: histogram.boundaries.map(String), frequencies: histogram.frequencies || [] }
+            : undefined
+    };
+}
+
+// Tags of a column and its nested fields; a sensitive field makes the whole value sensitive
+function columnTags(column?: ColumnDetails): string[] {
+    if (!column) return [];
+    return [...new Set([...column.tags, ...(column.children || []).flatMap(columnTags)])];
+}
+
+// Struct, map and array values are shown as JSON
+function toSampleValue(value: unknown): SampleValue {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+    return JSON.stringify(value);
+}
+
+const MAX_CHANGE_VALUE_LENGTH = 200;
+
+function toFieldChanges(changeDescription: any): FieldChange[] {
+    if (!changeDescription) {
+        return [];
+    }
+    const changes = (kind: FieldChange['kind'], fields?: any[]): FieldChange[] => (fields || []).map(field => ({
+        field: field.name,
+        kind,
+        oldValue: formatChangeValue(field.oldValue),
+        newValue: formatChangeValue(field.newValue)
+    }));
+    return [
+        ...changes('added', changeDescription.fieldsAdded),
+        ...changes('updated', changeDescription.fieldsUpdated),
+        ...changes('deleted', changeDescription.fieldsDeleted)
+    ];
+}
+
+// Change values are often JSON: lists of columns, tag labels or entity references
+function formatChangeValue(value: unknown): string | undefined {
+    if (value === undefined || value === null || value === '') {
+        return undefined;
+    }
+
+    let parsed = value;
+    if (typeof value === 'string' && /^[[{]/.test(value.trim())) {
+        try {
+            parsed = JSON.parse(value);
+        } catch {
+            // Plain text that happens to start with a bracket
+        }
+    }
+
+    const describe = (item: any): string => {
+        if (typeof item !== 'object' || item === null) return String(item);
+        const name = item.tagFQN || item.displayName || item.name || item.fullyQualifiedName;
+        if (name && item.dataType) return `${name} (${item.dataTypeDisplay || item.dataType})`;
+        return name ? String(name) : JSON.stringify(item);
+    };
+
+    const text = Array.isArray(parsed) ? parsed.map(describe).join(', ') : describe(parsed);
+    return text.length > MAX_CHANGE_VALUE_LENGTH ? `${text.slice(0, MAX_CHANGE_VALUE_LENGTH)}…` : text;
+}
+
+const USAGE_DAYS = 30;
+const MAX_QUERIES = 100;
+const TOP_QUERIES = 10;
+const MAX_JOIN_PARTNERS = 5;
+
+function toUsageSummary(source: any): UsageSummary | undefined {
+    if (!source) {
+        return undefined;
+    }
+    const stats = (value: any) => value?.count !== undefined ? { count: value.count, percentileRank: value.percentileRank } : undefined;
+    return {
+        daily: stats(source.dailyStats),
+        weekly: stats(source.weeklyStats),
+        monthly: stats(source.monthlyStats),
+        date: source.date
+    };
+}
+
+function toTableQuery(source: any): TableQuery {
+    const users = [
+        ...(source.users || []).map((user: any) => user.displayName || user.name),
+        ...(source.usedBy || [])
+    ];
+    return {
+        id: source.id,
+        query: source.query,
+        queryDate: source.queryDate,
+        duration: source.duration,
+        users: [...new Set<string>(users.filter(Boolean))],
+        votes: source.votes?.upVotes
+    };
+}
+
+// e.g. "FROM sales.orders o" or "JOIN "db"."public"."customers""
+const TABLE_REFERENCE = /\b(?:from|join)\s+((?:[`"[]?[\w$-]+[`"\]]?\.){0,3}[`"[]?[\w$-]+[`"\]]?)/gi;
+const CTE_NAME = /(?:\bwith|,)\s*(\w+)\s+as\s*\(/gi;
+
+/**
+ * Tables joined with `tableName`, by the number of queries joining them. Names
+ * are read from FROM and JOIN clauses; CTEs are skipped.
+ */
+export function inferJoinPartners(queries: TableQuery[], tableName: string): JoinPartner[] {
+    const self = tableName.toLowerCase();
+    const counts = new Map<string, number>();
+
+    for (const { query } of queries) {
+        if (!/\bjoin\b/i.test(query)) continue;
+
+        const ctes = new Set([...query.matchAll(CTE_NAME)].map(match => match[1].toLowerCase()));
+        const tables = new Set(
+            [...query.matchAll(TABLE_REFERENCE)]
+                .map(match => match[1].replace(/[`"[\]]/g, '').toLowerCase())
+                .filter(name => !ctes.has(name) && name.split('.').pop() !== self)
+        );
+        tables.forEach(name => counts.set(name, (counts.get(name) || 0) + 1));
     }
-}
\ No newline at end of file
+
+    return [...counts.entries()]
+        .map(([table, count]) => ({ table, queries: count }))
+        .sort((a, b) => b.queries - a.queries)
+        .slice(0, MAX_JOIN_PARTNERS);
+}
+
+// Top-level columns by their name, not their display name
+function columnIndex(table: any, column: string): number {
+    const index = (table.columns || []).findIndex((c: any) => c.name === column);
+    if (index < 0) {
+        throw new Error(`Column ${column} not found in ${table.fullyQualifiedName}`);
+    }
+    return index;
+}
+
+// Tag labels with `tag` added, replacing any other tag of an exclusive classification such as the tier
+export function withTag(labels: any[], tag: TagOption): any[] {
+    const exclusive = EXCLUSIVE_TAG_PREFIXES.find(prefix => tag.fqn.startsWith(prefix));
+    return [
+        ...labels.filter(label => label.tagFQN !== tag.fqn && !(exclusive && label.tagFQN.startsWith(exclusive))),
+        { tagFQN: tag.fqn, source: tag.source, labelType: 'Manual', state: 'Confirmed' }
+    ];
+}
+
+function toTagState(labels: any[], version?: number): TagState {
+    const fqns: string[] = labels.map(label => label.tagFQN);
+    return {
+        tags: fqns.filter(tag => !tag.startsWith(TIER_PREFIX)),
+        tier: fqns.find(tag => tag.startsWith(TIER_PREFIX)),
+        version
+    };
+}
+
+// e.g. <#E::table::shop.db.public.orders::columns::email>
+function parseEntityLink(link?: string): { table: string; column?: string } | undefined {
+    const match = link?.match(/^<#E::table::(.+?)(?:::columns::(.+))?>$/);
+    return match ? { table: match[1], column: match[2] } : undefined;
+}
+
+function toTestResult(source: any): TestResult | undefined {
+    if (!source?.testCaseStatus || source.timestamp === undefined) {
+        return undefined;
+    }
+    return { timestamp: toEpochMs(source.timestamp)!, status: source.testCaseStatus, result: source.result };
+}
+
+function toDataQualityTest(source: any, history: TestResult[]): DataQualityTest {
+    const suites = source.testSuites || (source.testSuite ? [source.testSuite] : []);
+    return {
+        name: source.name,
+        fullyQualifiedName: source.fullyQualifiedName,
+        displayName: source.displayName,
+        description: source.description,
+        testDefinition: source.testDefinition?.displayName || source.testDefinition?.name,
+        column: parseEntityLink(source.entityLink)?.column,
+        testSuites: suites.map((suite: any) => suite.displayName || suite.name).filter(Boolean),
+        latest: toTestResult(source.testCaseResult) || history[history.length - 1],
+        history
+    };
+}
+
+function toSuggestion(source: any, kind: Suggestion['kind']): Suggestion | undefined {
+    const label = source.displayName || source.name;
+    if (!label) {
+        return undefined;
+    }
+
+    switch (kind) {
+        case 'asset':
+            // The "all" index also holds tags, users and teams; glossary terms have their own group
+            if (!isEntityType(source.entityType) || source.entityType === 'glossaryTerm') {
+                return undefined;
+            }
+            return { kind, label, value: source.name || label, entityType: source.entityType, detail: source.service?.name };
+        case 'tag':
+        case 'glossaryTerm':
+            // Both are matched by their FQN in tags.tagFQN
+            return source.fullyQualifiedName
+                ? { kind, label, value: source.fullyQualifiedName, detail: (source.classification || source.glossary)?.name }
+                : undefined;
+        case 'owner':
+            // Owner filters match the display name
+            return { kind, label, value: label, detail: source.teamType || (source.email ? 'User' : undefined) };
+    }
+}
+
+/**
+ * Map a search hit onto the result model for its entity type. Hits of
+ * unsupported types are dropped.
+ */
+function toEntityResult(source: any, searchedType?: EntityType): EntityResult | undefined {
+    const entityType = source.entityType || searchedType;
+    if (!isEntityType(entityType)) {
+        return undefined;
+    }
+
+    const base = toResultBase(source);
+    switch (entityType) {
+        case 'table':
+            return toTableResult(source);
+        case 'dashboard':
+            return { ...base, entityType, dashboardType: source.dashboardType, charts: names(source.charts), sourceUrl: source.sourceUrl };
+        case 'pipeline':
+            return { ...base, entityType, tasks: names(source.tasks), sourceUrl: source.sourceUrl };
+        case 'topic':
+            return {
+                ...base,
+                entityType,
+                partitions: source.partitions,
+                messageSchemaType: source.messageSchema?.schemaType,
+                schemaFields: names(source.messageSchema?.schemaFields)
+            };
+        case 'mlmodel':
+            return { ...base, entityType, algorithm: source.algorithm, features: names(source.mlFeatures) };
+        case 'container':
+            return { ...base, entityType, prefix: source.prefix, fileFormats: source.fileFormats, columns: source.dataModel?.columns };
+        case 'storedProcedure':
+            return {
+                ...base,
+                entityType,
+                language: source.storedProcedureCode?.language,
+                code: source.storedProcedureCode?.code,
+                database: source.database?.name,
+                schema: source.databaseSchema?.name
+            };
+        case 'searchIndex':
+            return { ...base, entityType, fields: names(source.fields) };
+        case 'apiEndpoint':
+            return { ...base, entityType, requestMethod: source.requestMethod, endpointUrl: source.endpointURL };
+        case 'glossaryTerm':
+            return { ...base, entityType, glossary: source.glossary?.name, synonyms: source.synonyms };
+    }
+}
+
+function compareVersions(a: string, b: string): number {
+    const left = a.replace(/^v/, '').split(/[.-]/).map(part => parseInt(part, 10) || 0);
+    const right = b.replace(/^v/, '').split(/[.-]/).map(part => parseInt(part, 10) || 0);
+
+    for (let i = 0; i < 3; i++) {
+        const diff = (left[i] || 0) - (right[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { ColumnDetails, SampleData, TableProfile } from '../shared/protocol';
+
+export const SENSITIVE_TAG = 'PII.Sensitive';
+
+/**
+ * Whether columns tagged PII.Sensitive are kept out of sample previews and LLM prompts.
+ */
+export function excludesSensitiveColumns(): boolean {
+    return vscode.workspace.getConfiguration('openmetadataExplorer.privacy').get<boolean>('excludeSensitiveColumns', true);
+}
+
+function isSensitiveColumn(column: { tags: string[]; children?: ColumnDetails[] }): boolean {
+    return column.tags.includes(SENSITIVE_TAG) || (column.children || []).some(isSensitiveColumn);
+}
+
+/**
+ * Drop sensitive columns and their values from sample data when the setting is on.
+ */
+export function withoutSensitiveSample(sample: SampleData): SampleData {
+    if (!excludesSensitiveColumns()) {
+        return sample;
+    }
+
+    const keep = sample.columns.map(column => !isSensitiveColumn(column));
+    return {
+        columns: sample.columns.filter((_, index) => keep[index]),
+        rows: sample.rows.map(row => row.filter((_, index) => keep[index])),
+        excludedColumns: sample.columns.filter((_, index) => !keep[index]).map(column => column.name)
+    };
+}
+
+/**
+ * Drop sensitive columns, and the profile metrics of those columns, before
+ * table metadata goes into an LLM prompt. Profile min and max are real values.
+ */
+export function withoutSensitiveColumns(
+    columns: ColumnDetails[] | undefined,
+    profile?: TableProfile
+): { columns?: ColumnDetails[]; profile?: TableProfile } {
+    if (!excludesSensitiveColumns() || !columns) {
+        return { columns, profile };
+    }
+
+    // Profiles name columns as the table does, so the display name is no use here
+    const sensitive = new Set(columns.filter(isSensitiveColumn).map(column => column.name));
+    return {
+        columns: columns.filter(column => !sensitive.has(column.name)),
+        profile: profile && { ...profile, columns: profile.columns.filter(column => !sensitive.has(column.name)) }
+    };
+}
+
+/**
+ * Whether an LLM endpoint runs on this machine, so prompts sent to it never leave it.
+ */
+export function isLocalEndpoint(url: string): boolean {
+    try {
+        const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+        return host === 'localhost' || host.endsWith('.localhost') || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * A few distinct, shortened values per column of sample data, for an LLM to
+ * recognize what a column holds. Nulls and empty strings are left out.
+ */
+export function sampleValuesByColumn(sample: SampleData, perColumn = 5, maxLength = 40): Map<string, string[]> {
+    const values = new Map<string, string[]>();
+    sample.columns.forEach((column, index) => {
+        const distinct = new Set<string>();
+        for (const row of sample.rows) {
+            const value = row[index];
+            if (value === null || value === undefined || value === '') continue;
+            distinct.add(String(value).slice(0, maxLength));
+            if (distinct.size >= perColumn) break;
+        }
+        values.set(column.name, [...distinct]);
+    });
+    return values;
+}
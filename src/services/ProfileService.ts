@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+
+export interface LLMProfileSettings {
+    apiUrl: string;
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    systemPrompt: string;
+    maxHistoryMessages: number;
+    requestTimeout: number;
+}
+
+export interface ConnectionProfile {
+    name: string;
+    openmetadataUrl: string;
+    // Name under which the profile's tokens are kept in SecretStorage; undefined for the default profile
+    tokenSecret?: string;
+    llm: LLMProfileSettings;
+}
+
+// Shape of an entry in the `openmetadataExplorer.profiles` setting
+interface ProfileSetting {
+    name?: string;
+    openmetadataUrl?: string;
+    tokenSecret?: string;
+    llm?: Partial<LLMProfileSettings>;
+}
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+/**
+ * Named connection profiles. The default profile is built from the top-level
+ * settings; each entry in `openmetadataExplorer.profiles` overrides them.
+ */
+export class ProfileService {
+    private statusBarItem: vscode.StatusBarItem;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.statusBarItem.command = 'openmetadataExplorer.switchProfile';
+        this.updateStatusBar();
+        this.statusBarItem.show();
+
+        context.subscriptions.push(
+            this.statusBarItem,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('openmetadataExplorer')) {
+                    this.updateStatusBar();
+                }
+            })
+        );
+    }
+
+    getProfiles(): ConnectionProfile[] {
+        const config = vscode.workspace.getConfiguration('openmetadataExplorer');
+        const defaultProfile = this.getDefaultProfile();
+        const configured = (config.get<ProfileSetting[]>('profiles') || [])
+            .filter(profile => profile.name && profile.name !== DEFAULT_PROFILE_NAME)
+            .map(profile => ({
+                name: profile.name!,
+                openmetadataUrl: profile.openmetadataUrl || defaultProfile.openmetadataUrl,
+                tokenSecret: profile.tokenSecret || profile.name!,
+                llm: { ...defaultProfile.llm, ...profile.llm }
+            }));
+
+        return [defaultProfile, ...configured];
+    }
+
+    getActiveProfile(): ConnectionProfile {
+        const activeName = vscode.workspace.getConfiguration('openmetadataExplorer').get<string>('activeProfile');
+        const profiles = this.getProfiles();
+
+        return profiles.find(profile => profile.name === activeName) || profiles[0];
+    }
+
+    async switchProfile(): Promise<void> {
+        const active = this.getActiveProfile();
+        const items: (vscode.QuickPickItem & { profile?: ConnectionProfile })[] = this.getProfiles().map(profile => ({
+            label: profile.name === active.name ? `$(check) ${profile.name}` : profile.name,
+            description: profile.openmetadataUrl,
+            detail: `LLM: ${profile.llm.model} @ ${profile.llm.apiUrl}`,
+            profile
+        }));
+        items.push({ label: '$(gear) Edit Profiles...' });
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: 'Switch OpenMetadata Profile',
+            placeHolder: `Active profile: ${active.name}`
+        });
+        if (!picked) return;
+
+        if (!picked.profile) {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'openmetadataExplorer.profiles');
+            return;
+        }
+
+        // An application-scoped setting, so workspaces cannot pick the profile that receives the tokens
+        const value = picked.profile.name === DEFAULT_PROFILE_NAME ? undefined : picked.profile.name;
+        await vscode.workspace.getConfiguration('openmetadataExplorer').update('activeProfile', value, vscode.ConfigurationTarget.Global);
+    }
+
+    private getDefaultProfile(): ConnectionProfile {
+        const config = vscode.workspace.getConfiguration('openmetadataExplorer');
+        const llmConfig = vscode.workspace.getConfiguration('openmetadataExplorer.llm');
+
+        return {
+            name: DEFAULT_PROFILE_NAME,
+            openmetadataUrl: config.get<string>('openmetadataUrl') || 'http://localhost:8585',
+            llm: {
+                apiUrl: llmConfig.get<string>('apiUrl') || 'http://localhost:11434/v1/chat/completions',
+                model: llmConfig.get<string>('model') || 'llama3.2',
+                temperature: llmConfig.get<number>('temperature') ?? 0.7,
+                maxTokens: llmConfig.get<number>('maxTokens') || 2048,
+                systemPrompt: llmConfig.get<string>('systemPrompt') || 'You are a helpful AI assistant for analyzing data catalog metadata. Provide clear, concise insights about tables, columns, and data relationships.',
+                maxHistoryMessages: llmConfig.get<number>('maxHistoryMessages') || 50,
+                requestTimeout: llmConfig.get<number>('requestTimeout') || 120000
+            }
+        };
+    }
+
+    private updateStatusBar() {
+        const profile = this.getActiveProfile();
+        this.statusBarItem.text = `$(database) ${profile.name}`;
+        this.statusBarItem.tooltip = `OpenMetadata profile: ${profile.name}\n${profile.openmetadataUrl}\nLLM: ${profile.llm.model}\n\nClick to switch profile`;
+    }
+}
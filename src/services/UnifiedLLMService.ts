@@ -1,45 +1,63 @@
-import * as vscode from 'vscode';
-import { LocalLLMService } from './LocalLLMService';
-import { TableResult } from './OpenMetadataService';
+import { ClassificationInput, LocalLLMService, TableAnalysisContext, VersionChange } from './LocalLLMService';
+import {
+    ColumnClassification,
+    ConnectionCheck,
+    EntityResult,
+    parseColumnClassifications,
+    parseStructuredQuery,
+    SearchContext,
+    StructuredQuery,
+    TableResult
+} from '../shared/protocol';
+import { LLMProfileSettings } from './ProfileService';
+import { log } from './LogService';
 
 interface LLMServiceInterface {
-    analyzeTable(tableMetadata: TableResult): Promise<string>;
-    searchInsights(query: string, searchResults: TableResult[], searchTermsUsed: string[], wasNaturalLanguage: boolean): Promise<string>;
+    analyzeTable(tableMetadata: TableResult, signal?: AbortSignal, context?: TableAnalysisContext): Promise<string>;
+    searchInsights(query: string, searchResults: EntityResult[], context: SearchContext, signal?: AbortSignal): Promise<string>;
     validateConnection?(): Promise<boolean>;
+    checkConnection?(): Promise<ConnectionCheck>;
+    translateQuery?(question: string, signal?: AbortSignal): Promise<unknown>;
+    summarizeVersionChange?(change: VersionChange, signal?: AbortSignal): Promise<string>;
+    generateDescription?(tableMetadata: TableResult, column: string | undefined, signal?: AbortSignal, context?: TableAnalysisContext): Promise<string>;
+    classifyColumns?(input: ClassificationInput, signal?: AbortSignal): Promise<unknown>;
 }
 
+// Columns per classification prompt; small local models lose track of long lists
+const CLASSIFICATION_BATCH_SIZE = 25;
+
 export class UnifiedLLMService {
     private service?: LLMServiceInterface;
-    private apiUrl: string;
-    private token: string;
-    private model: string;
-    private temperature: number;
-    private maxTokens: number;
-    private systemPrompt: string;
-    private maxHistoryMessages: number;
-    private requestTimeout: number;
-
-    constructor() {
+    private apiUrl!: string;
+    private model!: string;
+    private temperature!: number;
+    private maxTokens!: number;
+    private systemPrompt!: string;
+    private maxHistoryMessages!: number;
+    private requestTimeout!: number;
+
+    constructor(
+        private getSettings: () => LLMProfileSettings,
+        private getApiKey: () => Promise<string | undefined>
+    ) {
         this.initializeService();
     }
 
     private initializeService() {
-        const config = vscode.workspace.getConfiguration('openmetadataExplorer.llm');
-
         try {
-            // Read configuration
-            this.apiUrl = config.get<string>('apiUrl') || 'http://localhost:11434/v1/chat/completions';
-            this.token = config.get<string>('token') || 'ollama';
-            this.model = config.get<string>('model') || 'llama3.2';
-            this.temperature = config.get<number>('temperature') ?? 0.7;
-            this.maxTokens = config.get<number>('maxTokens') || 2048;
-            this.systemPrompt = config.get<string>('systemPrompt') || 'You are a helpful AI assistant for analyzing data catalog metadata. Provide clear, concise insights about tables, columns, and data relationships.';
-            this.maxHistoryMessages = config.get<number>('maxHistoryMessages') || 50;
-            this.requestTimeout = config.get<number>('requestTimeout') || 120000;
+            // Read configuration from the active profile
+            const settings = this.getSettings();
+            this.apiUrl = settings.apiUrl;
+            this.model = settings.model;
+            this.temperature = settings.temperature;
+            this.maxTokens = settings.maxTokens;
+            this.systemPrompt = settings.systemPrompt;
+            this.maxHistoryMessages = settings.maxHistoryMessages;
+            this.requestTimeout = settings.requestTimeout;
 
             // Validate that apiUrl is configured
             if (!this.apiUrl || this.apiUrl.trim() === '') {
-                console.warn('LLM API URL not configured');
+                log.warn('LLM API URL not configured');
                 this.service = undefined;
                 return;
             }
@@ -47,7 +65,7 @@ export class UnifiedLLMService {
             // Create service with unified configuration
             this.service = new LocalLLMService({
                 endpoint: this.apiUrl,
-                apiKey: this.token,
+                getApiKey: this.getApiKey,
                 model: this.model,
                 temperature: this.temperature,
                 maxTokens: this.maxTokens,
@@ -55,7 +73,7 @@ export class UnifiedLLMService {
                 requestTimeout: this.requestTimeout
             });
 
-            console.log('LLM Service initialized with:', {
+            log.info('LLM Service initialized with:', {
                 apiUrl: this.apiUrl,
                 model: this.model,
                 temperature: this.temperature,
@@ -64,7 +82,7 @@ export class UnifiedLLMService {
             });
 
         } catch (error) {
-            console.error('Failed to initialize LLM service:', error);
+            log.error('Failed to initialize LLM service:', error);
             this.service = undefined;
         }
     }
@@ -85,39 +103,127 @@ export class UnifiedLLMService {
         };
     }
 
-    async analyzeTable(tableMetadata: TableResult): Promise<string> {
+    async analyzeTable(tableMetadata: TableResult, signal?: AbortSignal, context?: TableAnalysisContext): Promise<string> {
         if (!this.service) {
             return '❌ No LLM service configured. Please configure the API URL and other settings.';
         }
 
         try {
-            return await this.service.analyzeTable(tableMetadata);
+            return await this.service.analyzeTable(tableMetadata, signal, context);
         } catch (error) {
-            console.error('Error analyzing table:', error);
+            log.error('Error analyzing table:', error);
             return `❌ AI analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
         }
     }
 
     async searchInsights(
         query: string,
-        searchResults: TableResult[],
-        searchTermsUsed: string[],
-        wasNaturalLanguage: boolean
+        searchResults: EntityResult[],
+        context: SearchContext,
+        signal?: AbortSignal
     ): Promise<string> {
+        const { searchTermsUsed, wasNaturalLanguage } = context;
+
         if (!this.service) {
             return wasNaturalLanguage
-                ? `I found ${searchResults.length} tables related to ${searchTermsUsed.join(' and ')}. Configure the LLM API in settings for AI insights.`
-                : `Found ${searchResults.length} tables matching "${query}". Configure the LLM API in settings for AI insights.`;
+                ? `I found ${searchResults.length} data assets related to ${searchTermsUsed.join(' and ')}. Configure the LLM API in settings for AI insights.`
+                : `Found ${searchResults.length} data assets matching "${query}". Configure the LLM API in settings for AI insights.`;
         }
 
         try {
-            return await this.service.searchInsights(query, searchResults, searchTermsUsed, wasNaturalLanguage);
+            return await this.service.searchInsights(query, searchResults, context, signal);
         } catch (error) {
-            console.error('Error getting search insights:', error);
+            log.error('Error getting search insights:', error);
             return wasNaturalLanguage
-                ? `I found ${searchResults.length} tables related to ${searchTermsUsed.join(' and ')}. AI insights temporarily unavailable.`
-                : `Found ${searchResults.length} tables matching "${query}". AI insights temporarily unavailable.`;
+                ? `I found ${searchResults.length} data assets related to ${searchTermsUsed.join(' and ')}. AI insights temporarily unavailable.`
+                : `Found ${searchResults.length} data assets matching "${query}". AI insights temporarily unavailable.`;
+        }
+    }
+
+    async summarizeVersionChange(change: VersionChange, signal?: AbortSignal): Promise<string> {
+        if (!this.service?.summarizeVersionChange) {
+            return '❌ No LLM service configured. Please configure the API URL and other settings.';
+        }
+
+        try {
+            return await this.service.summarizeVersionChange(change, signal);
+        } catch (error) {
+            log.error('Error summarizing version change:', error);
+            return `❌ AI summary failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+
+    // Errors are passed on: a failed draft must not end up as a description
+    async generateDescription(tableMetadata: TableResult, column: string | undefined, signal?: AbortSignal, context?: TableAnalysisContext): Promise<string> {
+        if (!this.service?.generateDescription) {
+            throw new Error('No LLM service configured. Please configure the API URL and other settings.');
+        }
+        return this.service.generateDescription(tableMetadata, column, signal, context);
+    }
+
+    /**
+     * Propose classification tags for the columns, a batch per prompt. Columns
+     * the model leaves out are missing from the result. Errors are passed on.
+     */
+    async classifyColumns(input: ClassificationInput, signal?: AbortSignal): Promise<Omit<ColumnClassification, 'current'>[]> {
+        if (!this.service?.classifyColumns) {
+            throw new Error('No LLM service configured. Please configure the API URL and other settings.');
+        }
+
+        const tags = input.candidateTags.map(tag => tag.fqn);
+        const classifications: Omit<ColumnClassification, 'current'>[] = [];
+        for (let start = 0; start < input.columns.length; start += CLASSIFICATION_BATCH_SIZE) {
+            const columns = input.columns.slice(start, start + CLASSIFICATION_BATCH_SIZE);
+            const answer = await this.service.classifyColumns({ ...input, columns }, signal);
+            classifications.push(...parseColumnClassifications(answer, columns.map(column => column.name), tags));
         }
+
+        if (classifications.length === 0 && input.columns.length > 0) {
+            throw new Error('The LLM answer did not classify any column. Try again or use a larger model.');
+        }
+        return classifications;
+    }
+
+    /**
+     * Interpret a question as a structured search. Returns undefined when no LLM is
+     * configured or its answer does not fit the schema, so callers fall back to keywords.
+     */
+    async translateQuery(question: string, signal?: AbortSignal): Promise<StructuredQuery | undefined> {
+        if (!this.service?.translateQuery) {
+            return undefined;
+        }
+
+        try {
+            const structured = parseStructuredQuery(await this.service.translateQuery(question, signal));
+            if (!structured) {
+                log.warn('LLM query translation did not match the expected schema');
+            }
+            return structured;
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            log.warn('LLM query translation failed:', error);
+            return undefined;
+        }
+    }
+
+    async checkConnection(): Promise<ConnectionCheck> {
+        if (!this.service) {
+            return {
+                state: 'notConfigured',
+                message: 'No LLM API URL is configured.',
+                fix: 'openSettings'
+            };
+        }
+
+        if (this.service.checkConnection) {
+            return await this.service.checkConnection();
+        }
+
+        return (await this.validateConnection())
+            ? { state: 'ok', message: `LLM reachable, model ${this.model}`, detail: this.model }
+            : { state: 'unreachable', message: `The LLM at ${this.apiUrl} did not answer a test request.`, fix: 'showLog' };
     }
 
     async validateConnection(): Promise<boolean> {
@@ -131,7 +237,7 @@ export class UnifiedLLMService {
             }
             return true;
         } catch (error) {
-            console.error('Error validating LLM connection:', error);
+            log.error('Error validating LLM connection:', error);
             return false;
         }
     }
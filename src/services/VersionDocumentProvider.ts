@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { ColumnDetails, ENTITY_TYPE_LABELS, EntityDetails, EntityType, isEntityType } from '../shared/protocol';
+import { log } from './LogService';
+import { OpenMetadataService } from './OpenMetadataService';
+
+export const VERSION_SCHEME = 'openmetadata-version';
+
+// Quoted so that descriptions with colons or line breaks stay on one line and diff cleanly
+const quote = (text: string) => JSON.stringify(text);
+
+function renderColumns(columns: ColumnDetails[], indent: string): string[] {
+    return columns.flatMap(column => [
+        `${indent}${column.name}:`,
+        `${indent}  type: ${column.dataTypeDisplay || column.dataType || 'unknown'}`,
+        ...(column.constraint ? [`${indent}  constraint: ${column.constraint}`] : []),
+        ...(column.tags.length ? [`${indent}  tags: [${column.tags.join(', ')}]`] : []),
+        ...(column.description ? [`${indent}  description: ${quote(column.description)}`] : []),
+        ...(column.children?.length ? [`${indent}  fields:`, ...renderColumns(column.children, `${indent}    `)] : [])
+    ]);
+}
+
+/**
+ * An entity version as a YAML-like document with one line per property, so a
+ * line diff shows added, removed and retyped columns and tag changes directly.
+ */
+export function renderVersionDocument(details: EntityDetails): string {
+    const lines = [
+        `# ${ENTITY_TYPE_LABELS[details.entityType]} ${details.fullyQualifiedName}`,
+        `name: ${details.name}`,
+        ...(details.displayName && details.displayName !== details.name ? [`displayName: ${details.displayName}`] : []),
+        `version: ${details.version ?? 'unknown'}`,
+        ...(details.updatedAt ? [`updatedAt: ${new Date(details.updatedAt).toISOString()}`] : []),
+        ...(details.updatedBy ? [`updatedBy: ${details.updatedBy}`] : []),
+        `description: ${details.description ? quote(details.description) : ''}`,
+        `owners: [${details.owners.map(owner => owner.name).join(', ')}]`,
+        ...(details.tier ? [`tier: ${details.tier}`] : []),
+        `tags: [${details.tags.join(', ')}]`,
+        ...(details.domains.length ? [`domains: [${details.domains.join(', ')}]`] : []),
+        ...(details.tableType ? [`tableType: ${details.tableType}`] : []),
+        ...(details.tableConstraints?.length ? [
+            'constraints:',
+            ...details.tableConstraints.map(constraint =>
+                `  - ${constraint.constraintType}: [${constraint.columns.join(', ')}]` +
+                (constraint.referredColumns?.length ? ` -> [${constraint.referredColumns.join(', ')}]` : ''))
+        ] : []),
+        ...(details.customProperties.length ? [
+            'customProperties:',
+            ...details.customProperties.map(property => `  ${property.name}: ${quote(property.value)}`)
+        ] : []),
+        ...(details.columns ? ['columns:', ...renderColumns(details.columns, '  ')] : [])
+    ];
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Serves entity versions as read-only documents for VS Code's diff editor.
+ * Versions never change, so each is fetched once.
+ */
+export class VersionDocumentProvider implements vscode.TextDocumentContentProvider {
+    private cache = new Map<string, string>();
+
+    constructor(private getService: () => OpenMetadataService) {}
+
+    static uri(entityType: EntityType, entityId: string, name: string, version: number): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: VERSION_SCHEME,
+            // The file name shows in the editor tab; .yaml gives it highlighting
+            path: `/${name.replace(/[\\/]/g, '_')} v${version}.yaml`,
+            query: new URLSearchParams({ type: entityType, id: entityId, version: String(version) }).toString()
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri, token: vscode.CancellationToken): Promise<string> {
+        const cached = this.cache.get(uri.toString());
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const params = new URLSearchParams(uri.query);
+        const entityType = params.get('type');
+        const entityId = params.get('id');
+        const version = Number(params.get('version'));
+        if (!isEntityType(entityType) || !entityId || isNaN(version)) {
+            throw new Error(`Invalid version document: ${uri.toString()}`);
+        }
+
+        const controller = new AbortController();
+        const subscription = token.onCancellationRequested(() => controller.abort());
+        try {
+            const details = await this.getService().getEntityVersion(entityType, entityId, version, controller.signal);
+            const content = renderVersionDocument(details);
+            this.cache.set(uri.toString(), content);
+            return content;
+        } catch (error) {
+            log.error(`Failed to load version ${version} of ${entityId}:`, error);
+            throw error;
+        } finally {
+            subscription.dispose();
+        }
+    }
+}
@@ -0,0 +1,1129 @@
+/*
+ * Message protocol between the extension host and the webview.
+ *
+ * Both sides are bundled from this module, so every message is typed here once.
+ * Messages carry the protocol version; requests that expect a reply carry a
+ * request ID which the host echoes back so the webview can drop stale replies.
+ */
+
+import { EdgeDetails, EntityReference } from '../services/LineageService';
+
+// Bump when a message shape changes incompatibly
+export const PROTOCOL_VERSION = 1;
+
+// Entity types the extension can search, named as in the OpenMetadata API
+export type EntityType =
+    | 'table'
+    | 'dashboard'
+    | 'pipeline'
+    | 'topic'
+    | 'mlmodel'
+    | 'container'
+    | 'storedProcedure'
+    | 'searchIndex'
+    | 'apiEndpoint'
+    | 'glossaryTerm';
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+    table: 'Table',
+    dashboard: 'Dashboard',
+    pipeline: 'Pipeline',
+    topic: 'Topic',
+    mlmodel: 'ML Model',
+    container: 'Container',
+    storedProcedure: 'Stored Procedure',
+    searchIndex: 'Search Index',
+    apiEndpoint: 'API Endpoint',
+    glossaryTerm: 'Glossary Term'
+};
+
+export function isEntityType(value: unknown): value is EntityType {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ENTITY_TYPE_LABELS, value);
+}
+
+// Glossary terms are not part of the lineage graph
+export function hasLineage(entityType: EntityType): boolean {
+    return entityType !== 'glossaryTerm';
+}
+
+interface EntityResultBase {
+    id: string;
+    name: string;
+    displayName?: string;
+    fullyQualifiedName: string;
+    description?: string;
+    service?: string;
+    owners?: string[];
+    updatedAt?: string;
+    tags?: string[];
+    // Entity version when indexed; tag edits check it to detect concurrent changes
+    version?: number;
+    aiAnalysis?: string;
+}
+
+export interface TableResult extends EntityResultBase {
+    entityType: 'table';
+    tableType?: string;
+    columns?: any[];
+    rowCount?: number;
+    database?: string;
+    schema?: string;
+    usage?: UsageSummary;
+    // e.g. "Tier.Tier1"; some servers also list it in `tags`
+    tier?: string;
+}
+
+export interface DashboardResult extends EntityResultBase {
+    entityType: 'dashboard';
+    dashboardType?: string;
+    charts?: string[];
+    sourceUrl?: string;
+}
+
+export interface PipelineResult extends EntityResultBase {
+    entityType: 'pipeline';
+    tasks?: string[];
+    sourceUrl?: string;
+}
+
+export interface TopicResult extends EntityResultBase {
+    entityType: 'topic';
+    partitions?: number;
+    messageSchemaType?: string;
+    schemaFields?: string[];
+}
+
+export interface MlModelResult extends EntityResultBase {
+    entityType: 'mlmodel';
+    algorithm?: string;
+    features?: string[];
+}
+
+export interface ContainerResult extends EntityResultBase {
+    entityType: 'container';
+    prefix?: string;
+    fileFormats?: string[];
+    columns?: any[];
+}
+
+export interface StoredProcedureResult extends EntityResultBase {
+    entityType: 'storedProcedure';
+    language?: string;
+    code?: string;
+    database?: string;
+    schema?: string;
+}
+
+export interface SearchIndexResult extends EntityResultBase {
+    entityType: 'searchIndex';
+    fields?: string[];
+}
+
+export interface ApiEndpointResult extends EntityResultBase {
+    entityType: 'apiEndpoint';
+    requestMethod?: string;
+    endpointUrl?: string;
+}
+
+export interface GlossaryTermResult extends EntityResultBase {
+    entityType: 'glossaryTerm';
+    glossary?: string;
+    synonyms?: string[];
+}
+
+export type EntityResult =
+    | TableResult
+    | DashboardResult
+    | PipelineResult
+    | TopicResult
+    | MlModelResult
+    | ContainerResult
+    | StoredProcedureResult
+    | SearchIndexResult
+    | ApiEndpointResult
+    | GlossaryTermResult;
+
+// Search aggregations offered as filters; testStatus is resolved through the data quality API
+export type FacetField = 'service' | 'database' | 'databaseSchema' | 'owner' | 'tier' | 'tag' | 'domain' | 'testStatus';
+
+export const FACET_LABELS: Record<FacetField, string> = {
+    service: 'Service',
+    database: 'Database',
+    databaseSchema: 'Schema',
+    owner: 'Owner',
+    tier: 'Tier',
+    tag: 'Tag',
+    domain: 'Domain',
+    testStatus: 'Test status'
+};
+
+export interface Facet {
+    field: FacetField;
+    buckets: { value: string; count: number }[];
+}
+
+// Selected values per facet; an asset must match one value of every facet given
+export type SearchFilters = Partial<Record<FacetField, string[]>>;
+
+export function hasFilters(filters?: SearchFilters): boolean {
+    return !!filters && Object.values(filters).some(values => values && values.length > 0);
+}
+
+// e.g. "Service: snowflake_prod; Tier: Tier.Tier1"
+export function describeFilters(filters?: SearchFilters): string {
+    return (Object.keys(FACET_LABELS) as FacetField[])
+        .filter(field => filters?.[field]?.length)
+        .map(field => `${FACET_LABELS[field]}: ${filters![field]!.join(' or ')}`)
+        .join('; ');
+}
+
+export type SearchSort = 'relevance' | 'updated' | 'name' | 'popularity';
+
+export const SEARCH_SORT_LABELS: Record<SearchSort, string> = {
+    relevance: 'Relevance',
+    updated: 'Last updated',
+    name: 'Name',
+    popularity: 'Most used'
+};
+
+// Where the next page of results starts; the webview sends it back unchanged to load that page
+export type SearchCursor =
+    | { query: string; from: number }
+    // Listing tables when the search API is unavailable
+    | { query: string; after: string };
+
+/**
+ * A question translated by the LLM into search terms and filters, e.g.
+ * "tier 1 finance tables updated this week" becomes terms ["finance"],
+ * entity type table, tier "Tier.Tier1" and a date range.
+ */
+export interface StructuredQuery {
+    terms: string[];
+    entityTypes?: EntityType[];
+    filters?: SearchFilters;
+    // Dates as YYYY-MM-DD, inclusive
+    updatedAfter?: string;
+    updatedBefore?: string;
+}
+
+export interface SearchContext {
+    originalQuery: string;
+    searchTermsUsed: string[];
+    wasNaturalLanguage: boolean;
+    entityType?: EntityType;
+    filters?: SearchFilters;
+    // Set when the LLM interpreted the question
+    interpretedQuery?: StructuredQuery;
+}
+
+// e.g. "Dashboard only; Service: looker_prod", or '' for an unrestricted search
+export function describeSearchScope(context: SearchContext): string {
+    return [context.entityType && `${ENTITY_TYPE_LABELS[context.entityType]} only`, describeFilters(context.filters)]
+        .filter(Boolean)
+        .join('; ');
+}
+
+export interface OwnerReference {
+    name: string;
+    // 'user' or 'team'
+    type?: string;
+}
+
+// A table column, or a field of a topic schema, search index or container data model
+export interface ColumnDetails {
+    // As in SQL, sample data, profiles and change descriptions
+    name: string;
+    // Label shown instead of the name when set
+    displayName?: string;
+    fullyQualifiedName?: string;
+    dataType?: string;
+    // e.g. "varchar(255)" or "struct<street:string,city:string>"
+    dataTypeDisplay?: string;
+    description?: string;
+    // PRIMARY_KEY, UNIQUE, NOT_NULL or NULL
+    constraint?: string;
+    tags: string[];
+    // Fields of struct, map and union columns
+    children?: ColumnDetails[];
+}
+
+export interface TableConstraint {
+    // PRIMARY_KEY, FOREIGN_KEY, UNIQUE, SORT_KEY or DIST_KEY
+    constraintType: string;
+    columns: string[];
+    // FQNs of the columns a foreign key refers to
+    referredColumns?: string[];
+}
+
+export interface TablePartition {
+    columns: string[];
+    intervalType?: string;
+    interval?: string;
+}
+
+/**
+ * Everything the detail panel shows about one entity, fetched by FQN with `fields=`.
+ */
+export interface EntityDetails {
+    id: string;
+    entityType: EntityType;
+    name: string;
+    displayName?: string;
+    fullyQualifiedName: string;
+    description?: string;
+    service?: string;
+    owners: OwnerReference[];
+    // e.g. "Tier.Tier1"; not repeated in `tags`
+    tier?: string;
+    tags: string[];
+    domains: string[];
+    dataProducts: string[];
+    followers: string[];
+    votes?: { upVotes: number; downVotes: number };
+    // Custom property values formatted for display, by property name
+    customProperties: { name: string; value: string }[];
+    version?: number;
+    updatedAt?: number;
+    updatedBy?: string;
+    sourceUrl?: string;
+    // Tables only
+    tableType?: string;
+    database?: string;
+    schema?: string;
+    schemaFqn?: string;
+    tableConstraints?: TableConstraint[];
+    partition?: TablePartition;
+    // Columns or schema fields, for the entity types that have them
+    columns?: ColumnDetails[];
+}
+
+export interface UsageStats {
+    // Queries over the period
+    count: number;
+    // 0 to 100, compared with the other tables of the catalog
+    percentileRank?: number;
+}
+
+export interface UsageSummary {
+    daily?: UsageStats;
+    weekly?: UsageStats;
+    monthly?: UsageStats;
+    // Day the usage was computed, YYYY-MM-DD
+    date?: string;
+}
+
+export interface TableQuery {
+    id: string;
+    query: string;
+    // Epoch ms of the last run
+    queryDate?: number;
+    // Seconds
+    duration?: number;
+    users: string[];
+    votes?: number;
+}
+
+// Another table joined with this one, and in how many of the fetched queries
+export interface JoinPartner {
+    table: string;
+    queries: number;
+}
+
+export interface TableUsage {
+    summary?: UsageSummary;
+    // Daily query counts, oldest first
+    history: { date: string; count: number }[];
+    // Most used first
+    queries: TableQuery[];
+    joinPartners: JoinPartner[];
+}
+
+// An LLM-written description of a table, or of one of its top-level columns, awaiting review
+export interface DescriptionDraft {
+    fqn: string;
+    column?: string;
+    current?: string;
+    draft: string;
+    // Without edit rights, approving creates a Request Description task for the owners
+    canEdit: boolean;
+}
+
+export type DescriptionOutcome = 'updated' | 'taskCreated';
+
+export type TagSource = 'Classification' | 'Glossary';
+
+// A classification tag or glossary term that can be assigned
+export interface TagOption {
+    fqn: string;
+    source: TagSource;
+    description?: string;
+}
+
+// Tags of a table or column; the tier is kept apart from the other tags
+export interface TagState {
+    tags: string[];
+    tier?: string;
+    // Of the table, after the change
+    version?: number;
+}
+
+// Adding a tier replaces the current one
+export interface TagChange {
+    add?: TagOption;
+    remove?: string;
+}
+
+export const TIER_PREFIX = 'Tier.';
+export const PII_PREFIX = 'PII.';
+
+// An entity has at most one tag from each of these classifications; a new one replaces the old
+export const EXCLUSIVE_TAG_PREFIXES = [TIER_PREFIX, PII_PREFIX];
+
+// Tags proposed by the LLM for one column
+export interface ColumnClassification {
+    column: string;
+    // e.g. ["PII.Sensitive"]; empty when the column holds nothing to classify
+    tags: string[];
+    // 0 to 1
+    confidence: number;
+    reasoning: string;
+    // Tags the column has now
+    current: string[];
+}
+
+export interface ClassificationReport {
+    fqn: string;
+    // Of the table when it was classified
+    version?: number;
+    columns: ColumnClassification[];
+    // Already tagged as sensitive, so not sent to the LLM
+    skippedColumns: string[];
+    usedSampleValues: boolean;
+    // Sample values were asked for but withheld, because the LLM does not run on this machine
+    sampleValuesWithheld: boolean;
+}
+
+export interface FieldChange {
+    // e.g. "description", "columns" or "columns.email.tags"
+    field: string;
+    kind: 'added' | 'updated' | 'deleted';
+    // Formatted for display; entity references and tags are reduced to their names
+    oldValue?: string;
+    newValue?: string;
+}
+
+export interface EntityVersion {
+    // e.g. 0.3; minor versions are metadata changes, major ones backward-incompatible
+    version: number;
+    // Epoch ms
+    updatedAt?: number;
+    updatedBy?: string;
+    // Changes since the previous version; empty for the first one
+    changes: FieldChange[];
+}
+
+// Profiler metrics of one column at one point in time
+export interface ColumnProfile {
+    name: string;
+    // Epoch ms
+    timestamp?: number;
+    valuesCount?: number;
+    nullCount?: number;
+    // 0 to 1
+    nullProportion?: number;
+    distinctCount?: number;
+    uniqueCount?: number;
+    // Numbers, or text for dates and strings
+    min?: number | string;
+    max?: number | string;
+    mean?: number;
+    median?: number;
+    stddev?: number;
+    histogram?: { boundaries: string[]; frequencies: number[] };
+}
+
+export interface TableProfile {
+    // Latest profile run, epoch ms
+    timestamp?: number;
+    rowCount?: number;
+    columnCount?: number;
+    sizeInBytes?: number;
+    // Oldest first, over the last 30 days
+    rowCountHistory: { timestamp: number; rowCount: number }[];
+    // Latest metrics per column; columns never profiled are left out
+    columns: (ColumnProfile & { fullyQualifiedName?: string })[];
+}
+
+export type TestStatus = 'Success' | 'Failed' | 'Aborted' | 'Queued';
+
+export const TEST_STATUSES: TestStatus[] = ['Success', 'Failed', 'Aborted', 'Queued'];
+
+export function isTestStatus(value: unknown): value is TestStatus {
+    return TEST_STATUSES.includes(value as TestStatus);
+}
+
+export interface TestResult {
+    // Epoch ms
+    timestamp: number;
+    status: TestStatus;
+    // e.g. "Found 12 null values"
+    result?: string;
+}
+
+export interface DataQualityTest {
+    name: string;
+    fullyQualifiedName: string;
+    displayName?: string;
+    description?: string;
+    // e.g. "columnValuesToBeNotNull"
+    testDefinition?: string;
+    // Set for column-level tests
+    column?: string;
+    testSuites: string[];
+    latest?: TestResult;
+    // Oldest first, over the last 30 days
+    history: TestResult[];
+}
+
+export interface DataQualityIncident {
+    id: string;
+    testCase: string;
+    // New, Ack or Assigned; resolved incidents are left out
+    status: string;
+    severity?: string;
+    assignee?: string;
+    // Epoch ms
+    updatedAt?: number;
+}
+
+export interface DataQualityReport {
+    // Latest result of every test, by status
+    summary: Record<TestStatus, number>;
+    tests: DataQualityTest[];
+    incidents: DataQualityIncident[];
+}
+
+export type SampleValue = string | number | boolean | null;
+
+export interface SampleColumn {
+    name: string;
+    dataType?: string;
+    tags: string[];
+}
+
+// Sample rows ingested for a table; empty when none were ingested
+export interface SampleData {
+    columns: SampleColumn[];
+    // One value per column, in column order
+    rows: SampleValue[][];
+    // Names of columns left out because they are tagged as sensitive
+    excludedColumns: string[];
+}
+
+// Type-ahead entry: a data asset to search for, or a tag, glossary term or owner to filter by
+export interface Suggestion {
+    kind: 'asset' | 'tag' | 'glossaryTerm' | 'owner';
+    label: string;
+    // Search text for assets; filter value for the others
+    value: string;
+    entityType?: EntityType;
+    // Service, glossary or team shown next to the label
+    detail?: string;
+}
+
+// Shown below the empty search box, from the connected catalog
+export interface StartSuggestions {
+    popular: Suggestion[];
+    recentlyUpdated: Suggestion[];
+    recentSearches: string[];
+}
+
+export interface WebviewConfig {
+    profileName: string;
+    profileCount: number;
+    openmetadataUrl: string;
+    hasAuthToken: boolean;
+    llmApiUrl: string;
+    llmModel: string;
+    llmConfigured: boolean;
+}
+
+export type ConnectionState =
+    | 'checking'
+    | 'ok'
+    | 'notConfigured'
+    | 'unreachable'
+    | 'authFailed'
+    | 'versionMismatch'
+    | 'modelMissing';
+
+// Actions the host can run to fix a failed connection check
+export type ConnectionFix = 'openSettings' | 'signIn' | 'setOpenMetadataToken' | 'setLlmApiKey' | 'pullModel' | 'showLog';
+
+export const CONNECTION_FIX_LABELS: Record<ConnectionFix, string> = {
+    openSettings: 'Open Settings',
+    signIn: 'Sign In',
+    setOpenMetadataToken: 'Set OpenMetadata Token',
+    setLlmApiKey: 'Set LLM API Key',
+    pullModel: 'Pull Model',
+    showLog: 'Show Log'
+};
+
+export interface ConnectionCheck {
+    state: ConnectionState;
+    message: string;
+    fix?: ConnectionFix;
+    // Server version (OpenMetadata) or model name (LLM) when known
+    detail?: string;
+}
+
+export interface ConnectionHealth {
+    openmetadata: ConnectionCheck;
+    llm: ConnectionCheck;
+    checkedAt?: number;
+}
+
+export function isConnectionProblem(check: ConnectionCheck): boolean {
+    return check.state !== 'ok' && check.state !== 'checking';
+}
+
+// The LLM is optional, so leaving it unconfigured is not a problem
+export function hasConnectionProblem(health: ConnectionHealth): boolean {
+    return isConnectionProblem(health.openmetadata) ||
+        (health.llm.state !== 'notConfigured' && isConnectionProblem(health.llm));
+}
+
+export type LineageDirection = 'upstream' | 'downstream';
+
+export interface LineageGraph {
+    nodes: EntityReference[];
+    edges: EdgeDetails[];
+    centerNode: EntityReference | null;
+}
+
+// Messages sent from the webview to the extension host
+export type WebviewRequest =
+    | { type: 'getConfig' }
+    | { type: 'switchProfile' }
+    | { type: 'testConnections' }
+    | { type: 'runFix'; fix: ConnectionFix }
+    | { type: 'getStartSuggestions' }
+    | { type: 'suggest'; requestId: string; query: string }
+    // Without an entity type, all supported types are searched
+    // `structuredQuery` runs an (edited) interpretation as is; `literal` skips LLM interpretation
+    | {
+        type: 'search';
+        requestId: string;
+        query: string;
+        entityType?: EntityType;
+        filters?: SearchFilters;
+        sort?: SearchSort;
+        structuredQuery?: StructuredQuery;
+        literal?: boolean;
+    }
+    | {
+        type: 'loadMoreResults';
+        requestId: string;
+        cursor: SearchCursor;
+        entityType?: EntityType;
+        filters?: SearchFilters;
+        sort?: SearchSort;
+        structuredQuery?: StructuredQuery;
+    }
+    | { type: 'getEntityDetails'; requestId: string; fqn: string; entityType: EntityType }
+    | { type: 'getTableProfile'; requestId: string; fqn: string }
+    | { type: 'getColumnProfileHistory'; requestId: string; columnFqn: string }
+    // LLM analysis of a table, using its profile where available
+    | { type: 'analyzeTable'; requestId: string; fqn: string }
+    | { type: 'getSampleData'; requestId: string; fqn: string }
+    | { type: 'getDataQuality'; requestId: string; fqn: string }
+    | { type: 'getTableUsage'; requestId: string; fqn: string }
+    // Opens the SQL in a new untitled editor
+    | { type: 'openQuery'; sql: string }
+    | { type: 'getEntityVersions'; requestId: string; fqn: string; entityType: EntityType }
+    // Opens VS Code's diff editor on two versions; nothing is sent back
+    | { type: 'openVersionDiff'; entityType: EntityType; entityId: string; name: string; fromVersion: number; toVersion: number }
+    | { type: 'summarizeVersionChange'; requestId: string; entityType: EntityType; entityId: string; fromVersion: number; toVersion: number }
+    | { type: 'copyToClipboard'; text: string; label?: string }
+    | { type: 'generateDescription'; requestId: string; fqn: string; column?: string }
+    // Drafts a description for every undocumented table of a schema, one message per table
+    | { type: 'generateSchemaDescriptions'; requestId: string; schemaFqn: string }
+    | { type: 'applyDescription'; requestId: string; fqn: string; column?: string; description: string }
+    | { type: 'getTagOptions'; requestId: string }
+    // `version` is the table version the change was made against
+    | { type: 'updateTags'; requestId: string; fqn: string; column?: string; change: TagChange; version?: number }
+    | { type: 'classifyColumns'; requestId: string; fqn: string; includeSampleValues: boolean }
+    // Adds the accepted tags, by column, in one patch
+    | { type: 'applyClassifications'; requestId: string; fqn: string; version?: number; accepted: { column: string; tags: string[] }[] }
+    | { type: 'getLineage'; requestId: string; tableFqn: string; entityType: EntityType }
+    | { type: 'expandLineage'; requestId: string; tableFqn: string; nodeId: string; direction: LineageDirection; entityType: EntityType }
+    | { type: 'collapseLineage'; requestId: string; tableFqn: string; nodeId: string; direction: LineageDirection }
+    | { type: 'cancel'; requestId: string }
+    | { type: 'error'; message: string }
+    | { type: 'info'; message: string };
+
+// Messages sent from the extension host to the webview
+export type HostMessage =
+    | { type: 'config'; config: WebviewConfig }
+    | { type: 'connectionHealth'; health: ConnectionHealth }
+    | { type: 'startSuggestions'; suggestions: StartSuggestions }
+    | { type: 'suggestions'; requestId: string; suggestions: Suggestion[] }
+    | { type: 'searchStarted'; requestId: string; query: string }
+    | { type: 'searchResults'; requestId: string; query: string; results: EntityResult[]; facets: Facet[]; total?: number; nextCursor?: SearchCursor; aiInsights: string; searchContext: SearchContext }
+    | { type: 'moreResults'; requestId: string; results: EntityResult[]; total?: number; nextCursor?: SearchCursor }
+    | { type: 'moreResultsError'; requestId: string; error: string }
+    | { type: 'aiInsightsUpdate'; requestId: string; aiInsights: string }
+    | { type: 'searchError'; requestId: string; error: string }
+    | { type: 'searchCancelled'; requestId: string; query: string }
+    | { type: 'entityDetails'; requestId: string; details: EntityDetails }
+    | { type: 'entityDetailsError'; requestId: string; error: string }
+    | { type: 'tableProfile'; requestId: string; profile: TableProfile }
+    | { type: 'tableProfileError'; requestId: string; error: string }
+    | { type: 'columnProfileHistory'; requestId: string; columnFqn: string; history: ColumnProfile[] }
+    | { type: 'columnProfileHistoryError'; requestId: string; columnFqn: string; error: string }
+    | { type: 'tableAnalysis'; requestId: string; analysis: string }
+    | { type: 'sampleData'; requestId: string; sampleData: SampleData }
+    | { type: 'sampleDataError'; requestId: string; error: string }
+    | { type: 'dataQuality'; requestId: string; fqn: string; report: DataQualityReport }
+    | { type: 'dataQualityError'; requestId: string; fqn: string; error: string }
+    | { type: 'tableUsage'; requestId: string; usage: TableUsage }
+    | { type: 'tableUsageError'; requestId: string; error: string }
+    // Newest version first
+    | { type: 'entityVersions'; requestId: string; entityId: string; versions: EntityVersion[] }
+    | { type: 'entityVersionsError'; requestId: string; error: string }
+    | { type: 'versionSummary'; requestId: string; summary: string }
+    | { type: 'descriptionDraft'; requestId: string; draft: DescriptionDraft }
+    | { type: 'descriptionDraftError'; requestId: string; fqn: string; error: string }
+    | { type: 'undocumentedTables'; requestId: string; schemaFqn: string; tables: string[] }
+    | { type: 'undocumentedTablesError'; requestId: string; error: string }
+    | { type: 'descriptionApplied'; requestId: string; outcome: DescriptionOutcome }
+    | { type: 'descriptionApplyError'; requestId: string; error: string }
+    | { type: 'tagOptions'; requestId: string; options: TagOption[] }
+    | { type: 'tagOptionsError'; requestId: string; error: string }
+    | { type: 'tagsUpdated'; requestId: string; state: TagState }
+    // `current` is set when the table changed underneath and holds its latest tags
+    | { type: 'tagsUpdateError'; requestId: string; error: string; current?: TagState }
+    | { type: 'columnClassifications'; requestId: string; report: ClassificationReport }
+    | { type: 'columnClassificationsError'; requestId: string; error: string }
+    | { type: 'classificationsApplied'; requestId: string; columns: number }
+    | { type: 'classificationsApplyError'; requestId: string; error: string }
+    | { type: 'lineageData'; requestId: string; tableFqn: string; lineageData: LineageGraph }
+    | { type: 'lineageError'; requestId: string; tableFqn: string; error: string }
+    | { type: 'expandedLineageData'; requestId: string; tableFqn: string; nodeId: string; direction: LineageDirection; expandedData: LineageGraph }
+    | { type: 'collapsedLineage'; requestId: string; tableFqn: string; nodeId: string; direction: LineageDirection };
+
+export type Versioned<T> = T & { protocolVersion: number };
+
+let requestCounter = 0;
+
+export function createRequestId(): string {
+    requestCounter++;
+    return `${Date.now().toString(36)}-${requestCounter}`;
+}
+
+export function withVersion<T extends WebviewRequest | HostMessage>(message: T): Versioned<T> {
+    return { ...message, protocolVersion: PROTOCOL_VERSION };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === 'string';
+}
+
+function isConnectionFix(value: unknown): value is ConnectionFix {
+    return isString(value) && Object.prototype.hasOwnProperty.call(CONNECTION_FIX_LABELS, value);
+}
+
+function isSearchFilters(value: unknown): value is SearchFilters {
+    return isObject(value) && Object.entries(value).every(([field, values]) =>
+        Object.prototype.hasOwnProperty.call(FACET_LABELS, field) &&
+        Array.isArray(values) && values.every(isString));
+}
+
+function isSearchSort(value: unknown): value is SearchSort {
+    return isString(value) && Object.prototype.hasOwnProperty.call(SEARCH_SORT_LABELS, value);
+}
+
+function isSearchCursor(value: unknown): value is SearchCursor {
+    return isObject(value) && isString(value.query) &&
+        ((typeof value.from === 'number' && value.from >= 0) || isString(value.after));
+}
+
+function isVersion(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value) && value >= 0;
+}
+
+function isTagOption(value: unknown): value is TagOption {
+    return isObject(value) && isString(value.fqn) && !!value.fqn && (value.source === 'Classification' || value.source === 'Glossary');
+}
+
+function isTagChange(value: unknown): value is TagChange {
+    return isObject(value) &&
+        (value.add === undefined || isTagOption(value.add)) &&
+        (value.remove === undefined || (isString(value.remove) && !!value.remove)) &&
+        (value.add !== undefined || value.remove !== undefined);
+}
+
+function isAcceptedClassification(value: unknown): value is { column: string; tags: string[] } {
+    return isObject(value) && isString(value.column) && !!value.column &&
+        Array.isArray(value.tags) && value.tags.length > 0 && value.tags.every(tag => isString(tag) && !!tag);
+}
+
+function isDate(value: unknown): value is string {
+    return isString(value) && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+}
+
+const MAX_QUERY_TERMS = 10;
+
+/**
+ * Validate a structured query, e.g. one parsed from LLM output. Unknown entity
+ * types and fields are dropped; returns undefined if nothing usable is left.
+ */
+export function parseStructuredQuery(value: unknown): StructuredQuery | undefined {
+    if (!isObject(value)) {
+        return undefined;
+    }
+
+    const terms = Array.isArray(value.terms)
+        ? value.terms.filter(isString).map(term => term.trim()).filter(Boolean).slice(0, MAX_QUERY_TERMS)
+        : [];
+    const entityTypes = Array.isArray(value.entityTypes) ? value.entityTypes.filter(isEntityType) : [];
+
+    const filters: SearchFilters = {};
+    if (isObject(value.filters)) {
+        for (const [field, values] of Object.entries(value.filters)) {
+            let valid = Array.isArray(values) ? values.filter(isString).map(v => v.trim()).filter(Boolean) : [];
+            if (field === 'tier') {
+                // Tiers are tags named Tier.Tier1 to Tier.Tier5; accept "Tier1" or "tier 1" too
+                valid = valid.map(v => v.replace(/^(?:tier\.)?tier\s*(\d)$/i, 'Tier.Tier$1'));
+            } else if (field === 'testStatus') {
+                valid = valid.map(v => v.charAt(0).toUpperCase() + v.slice(1).toLowerCase()).filter(isTestStatus);
+            }
+            if (Object.prototype.hasOwnProperty.call(FACET_LABELS, field) && valid.length > 0) {
+                filters[field as FacetField] = valid;
+            }
+        }
+    }
+
+    const query: StructuredQuery = {
+        terms,
+        entityTypes: entityTypes.length > 0 ? entityTypes : undefined,
+        filters: hasFilters(filters) ? filters : undefined,
+        updatedAfter: isDate(value.updatedAfter) ? value.updatedAfter : undefined,
+        updatedBefore: isDate(value.updatedBefore) ? value.updatedBefore : undefined
+    };
+
+    const empty = terms.length === 0 && !query.entityTypes && !query.filters && !query.updatedAfter && !query.updatedBefore;
+    return empty ? undefined : query;
+}
+
+const MAX_REASONING_LENGTH = 300;
+
+/**
+ * Validate column classifications, e.g. parsed from LLM output. Columns and
+ * tags are matched case-insensitively against the ones offered; unknown ones
+ * are dropped. Of several PII tags for one column the first is kept.
+ */
+export function parseColumnClassifications(value: unknown, columns: string[], tags: string[]): Omit<ColumnClassification, 'current'>[] {
+    const entries = isObject(value) && Array.isArray(value.columns) ? value.columns : Array.isArray(value) ? value : [];
+    const columnNames = new Map(columns.map(column => [column.toLowerCase(), column]));
+    const tagNames = new Map(tags.map(tag => [tag.toLowerCase(), tag]));
+    const seen = new Set<string>();
+
+    const classifications: Omit<ColumnClassification, 'current'>[] = [];
+    for (const entry of entries) {
+        const column = isObject(entry) && isString(entry.column) ? columnNames.get(entry.column.trim().toLowerCase()) : undefined;
+        if (!isObject(entry) || !column || seen.has(column)) continue;
+        seen.add(column);
+
+        const proposed: string[] = [];
+        for (const tag of Array.isArray(entry.tags) ? entry.tags.filter(isString) : []) {
+            const known = tagNames.get(tag.trim().toLowerCase());
+            const exclusive = EXCLUSIVE_TAG_PREFIXES.find(prefix => known?.startsWith(prefix));
+            if (known && !proposed.includes(known) && !(exclusive && proposed.some(other => other.startsWith(exclusive)))) {
+                proposed.push(known);
+            }
+        }
+
+        // Some models answer in percent
+        const raw = typeof entry.confidence === 'number' ? entry.confidence : Number(entry.confidence);
+        const confidence = isFinite(raw) ? Math.min(1, Math.max(0, raw > 1 ? raw / 100 : raw)) : 0;
+
+        classifications.push({
+            column,
+            tags: proposed,
+            confidence,
+            reasoning: isString(entry.reasoning) ? entry.reasoning.trim().slice(0, MAX_REASONING_LENGTH) : ''
+        });
+    }
+    return classifications;
+}
+
+function isDirection(value: unknown): value is LineageDirection {
+    return value === 'upstream' || value === 'downstream';
+}
+
+/**
+ * Validate a raw message received from the webview. Returns a clean copy of the
+ * request, or undefined if the message is malformed or from another protocol version.
+ */
+export function parseWebviewRequest(data: unknown): WebviewRequest | undefined {
+    if (!isObject(data) || data.protocolVersion !== PROTOCOL_VERSION) {
+        return undefined;
+    }
+
+    switch (data.type) {
+        case 'getConfig':
+        case 'switchProfile':
+        case 'testConnections':
+        case 'getStartSuggestions':
+            return { type: data.type };
+
+        case 'suggest':
+            if (isString(data.requestId) && isString(data.query) && data.query.trim()) {
+                return { type: 'suggest', requestId: data.requestId, query: data.query.trim() };
+            }
+            return undefined;
+
+        case 'runFix':
+            if (isConnectionFix(data.fix)) {
+                return { type: 'runFix', fix: data.fix };
+            }
+            return undefined;
+
+        case 'search':
+            if (isString(data.requestId) && isString(data.query) && data.query.trim() &&
+                (data.entityType === undefined || isEntityType(data.entityType)) &&
+                (data.filters === undefined || isSearchFilters(data.filters)) &&
+                (data.sort === undefined || isSearchSort(data.sort))) {
+                return {
+                    type: 'search',
+                    requestId: data.requestId,
+                    query: data.query.trim(),
+                    entityType: data.entityType,
+                    filters: data.filters,
+                    sort: data.sort,
+                    structuredQuery: parseStructuredQuery(data.structuredQuery),
+                    literal: data.literal === true
+                };
+            }
+            return undefined;
+
+        case 'loadMoreResults':
+            if (isString(data.requestId) && isSearchCursor(data.cursor) &&
+                (data.entityType === undefined || isEntityType(data.entityType)) &&
+                (data.filters === undefined || isSearchFilters(data.filters)) &&
+                (data.sort === undefined || isSearchSort(data.sort))) {
+                return {
+                    type: 'loadMoreResults',
+                    requestId: data.requestId,
+                    cursor: 'after' in data.cursor
+                        ? { query: data.cursor.query, after: data.cursor.after }
+                        : { query: data.cursor.query, from: data.cursor.from },
+                    entityType: data.entityType,
+                    filters: data.filters,
+                    sort: data.sort,
+                    structuredQuery: parseStructuredQuery(data.structuredQuery)
+                };
+            }
+            return undefined;
+
+        case 'getEntityDetails':
+            if (isString(data.requestId) && isString(data.fqn) && data.fqn && isEntityType(data.entityType)) {
+                return { type: 'getEntityDetails', requestId: data.requestId, fqn: data.fqn, entityType: data.entityType };
+            }
+            return undefined;
+
+        case 'getTableProfile':
+        case 'analyzeTable':
+        case 'getSampleData':
+        case 'getDataQuality':
+        case 'getTableUsage':
+            if (isString(data.requestId) && isString(data.fqn) && data.fqn) {
+                return { type: data.type, requestId: data.requestId, fqn: data.fqn };
+            }
+            return undefined;
+
+        case 'getColumnProfileHistory':
+            if (isString(data.requestId) && isString(data.columnFqn) && data.columnFqn) {
+                return { type: 'getColumnProfileHistory', requestId: data.requestId, columnFqn: data.columnFqn };
+            }
+            return undefined;
+
+        case 'getLineage':
+            if (isString(data.requestId) && isString(data.tableFqn) && isEntityType(data.entityType)) {
+                return { type: 'getLineage', requestId: data.requestId, tableFqn: data.tableFqn, entityType: data.entityType };
+            }
+            return undefined;
+
+        case 'expandLineage':
+            if (isString(data.requestId) && isString(data.tableFqn) && isString(data.nodeId) &&
+                isDirection(data.direction) && isEntityType(data.entityType)) {
+                return {
+                    type: 'expandLineage',
+                    requestId: data.requestId,
+                    tableFqn: data.tableFqn,
+                    nodeId: data.nodeId,
+                    direction: data.direction,
+                    entityType: data.entityType
+                };
+            }
+            return undefined;
+
+        case 'collapseLineage':
+            if (isString(data.requestId) && isString(data.tableFqn) && isString(data.nodeId) && isDirection(data.direction)) {
+                return {
+                    type: 'collapseLineage',
+                    requestId: data.requestId,
+                    tableFqn: data.tableFqn,
+                    nodeId: data.nodeId,
+                    direction: data.direction
+                };
+            }
+            return undefined;
+
+        case 'getEntityVersions':
+            if (isString(data.requestId) && isString(data.fqn) && data.fqn && isEntityType(data.entityType)) {
+                return { type: 'getEntityVersions', requestId: data.requestId, fqn: data.fqn, entityType: data.entityType };
+            }
+            return undefined;
+
+        case 'openVersionDiff':
+            if (isEntityType(data.entityType) && isString(data.entityId) && isString(data.name) &&
+                isVersion(data.fromVersion) && isVersion(data.toVersion)) {
+                return {
+                    type: 'openVersionDiff',
+                    entityType: data.entityType,
+                    entityId: data.entityId,
+                    name: data.name,
+                    fromVersion: data.fromVersion,
+                    toVersion: data.toVersion
+                };
+            }
+            return undefined;
+
+        case 'summarizeVersionChange':
+            if (isString(data.requestId) && isEntityType(data.entityType) && isString(data.entityId) &&
+                isVersion(data.fromVersion) && isVersion(data.toVersion)) {
+                return {
+                    type: 'summarizeVersionChange',
+                    requestId: data.requestId,
+                    entityType: data.entityType,
+                    entityId: data.entityId,
+                    fromVersion: data.fromVersion,
+                    toVersion: data.toVersion
+                };
+            }
+            return undefined;
+
+        case 'openQuery':
+            if (isString(data.sql)) {
+                return { type: 'openQuery', sql: data.sql };
+            }
+            return undefined;
+
+        case 'generateDescription':
+            if (isString(data.requestId) && isString(data.fqn) && data.fqn &&
+                (data.column === undefined || (isString(data.column) && data.column))) {
+                return { type: 'generateDescription', requestId: data.requestId, fqn: data.fqn, column: data.column };
+            }
+            return undefined;
+
+        case 'generateSchemaDescriptions':
+            if (isString(data.requestId) && isString(data.schemaFqn) && data.schemaFqn) {
+                return { type: 'generateSchemaDescriptions', requestId: data.requestId, schemaFqn: data.schemaFqn };
+            }
+            return undefined;
+
+        case 'applyDescription':
+            if (isString(data.requestId) && isString(data.fqn) && data.fqn &&
+                (data.column === undefined || (isString(data.column) && data.column)) &&
+                isString(data.description) && data.description.trim()) {
+                return {
+                    type: 'applyDescription',
+                    requestId: data.requestId,
+                    fqn: data.fqn,
+                    column: data.column,
+                    description: data.description.trim()
+                };
+            }
+            return undefined;
+
+        case 'getTagOptions':
+            if (isString(data.requestId)) {
+                return { type: 'getTagOptions', requestId: data.requestId };
+            }
+            return undefined;
+
+        case 'updateTags':
+            if (isString(data.requestId) && isString(data.fqn) && data.fqn &&
+                (data.column === undefined || (isString(data.column) && data.column)) &&
+                isTagChange(data.change) && (data.version === undefined || isVersion(data.version))) {
+                return {
+                    type: 'updateTags',
+                    requestId: data.requestId,
+                    fqn: data.fqn,
+                    column: data.column,
+                    change: {
+                        add: data.change.add && { fqn: data.change.add.fqn, source: data.change.add.source },
+                        remove: data.change.remove
+                    },
+                    version: data.version
+                };
+            }
+            return undefined;
+
+        case 'classifyColumns':
+            if (isString(data.requestId) && isString(data.fqn) && data.fqn) {
+                return { type: 'classifyColumns', requestId: data.requestId, fqn: data.fqn, includeSampleValues: data.includeSampleValues === true };
+            }
+            return undefined;
+
+        case 'applyClassifications':
+            if (isString(data.requestId) && isString(data.fqn) && data.fqn &&
+                (data.version === undefined || isVersion(data.version)) &&
+                Array.isArray(data.accepted) && data.accepted.length > 0 && data.accepted.every(isAcceptedClassification)) {
+                return {
+                    type: 'applyClassifications',
+                    requestId: data.requestId,
+                    fqn: data.fqn,
+                    version: data.version,
+                    accepted: data.accepted.map(entry => ({ column: entry.column, tags: entry.tags }))
+                };
+            }
+            return undefined;
+
+        case 'copyToClipboard':
+            if (isString(data.text) && (data.label === undefined || isString(data.label))) {
+                return { type: 'copyToClipboard', text: data.text, label: data.label };
+            }
+            return undefined;
+
+        case 'cancel':
+            if (isString(data.requestId)) {
+                return { type: 'cancel', requestId: data.requestId };
+            }
+            return undefined;
+
+        case 'error':
+        case 'info':
+            if (isString(data.message)) {
+                return { type: data.type, message: data.message };
+            }
+            return undefined;
+
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Check that a message received by the webview comes from the extension host
+ * and speaks the same protocol version.
+ */
+export function isHostMessage(data: unknown): data is Versioned<HostMessage> {
+    return isObject(data) && data.protocolVersion === PROTOCOL_VERSION && isString(data.type);
+}
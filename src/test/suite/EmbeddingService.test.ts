@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { reciprocalRankFusion } from '../../services/EmbeddingService';
+
+suite('reciprocalRankFusion', () => {
+    test('ranks items found by several lists first', () => {
+        const keyword = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+        const semantic = [{ id: 'c' }, { id: 'a' }];
+        assert.deepStrictEqual(reciprocalRankFusion([keyword, semantic]).map(item => item.id), ['a', 'c', 'b']);
+    });
+
+    test('keeps the first list\'s copy of an item', () => {
+        const merged = reciprocalRankFusion([[{ id: 'a', source: 'keyword' }], [{ id: 'a', source: 'semantic' }]]);
+        assert.deepStrictEqual(merged, [{ id: 'a', source: 'keyword' }]);
+    });
+
+    test('handles empty lists', () => {
+        assert.deepStrictEqual(reciprocalRankFusion([]), []);
+        assert.deepStrictEqual(reciprocalRankFusion([[], [{ id: 'a' }]]), [{ id: 'a' }]);
+    });
+});
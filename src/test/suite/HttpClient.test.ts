@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import axios, { AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
+import { HttpClient, ServerError } from '../../services/HttpClient';
+
+suite('HttpClient', () => {
+    const request = axios.request;
+    let methods: string[];
+
+    // Answers every request with a 502 that asks to be retried right away
+    setup(() => {
+        methods = [];
+        axios.request = (async (config: AxiosRequestConfig) => {
+            methods.push(String(config.method));
+            throw new AxiosError('Bad Gateway', 'ERR_BAD_RESPONSE', undefined, undefined, {
+                status: 502, statusText: 'Bad Gateway', headers: { 'retry-after': '0' }, data: {}, config: {} as InternalAxiosRequestConfig
+            });
+        }) as typeof axios.request;
+    });
+
+    teardown(() => {
+        axios.request = request;
+    });
+
+    const client = () => new HttpClient({ name: 'Test', baseUrl: 'http://localhost:8585' });
+
+    test('retries idempotent methods after a gateway error', async () => {
+        await assert.rejects(client().get('/tables', { retries: 2 }), ServerError);
+        await assert.rejects(client().put('/tables', {}, { retries: 2 }), ServerError);
+        assert.deepStrictEqual(methods, ['GET', 'GET', 'GET', 'PUT', 'PUT', 'PUT']);
+    });
+
+    test('does not repeat writes', async () => {
+        await assert.rejects(client().post('/feed', {}, { retries: 2 }), ServerError);
+        await assert.rejects(client().patch('/tables/1', [], { retries: 2 }), ServerError);
+        assert.deepStrictEqual(methods, ['POST', 'PATCH']);
+    });
+
+    test('retries a POST marked as idempotent', async () => {
+        await assert.rejects(client().post('/chat/completions', {}, { retries: 1, idempotent: true }), ServerError);
+        assert.deepStrictEqual(methods, ['POST', 'POST']);
+    });
+});
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import { AuthError, HttpClient, HttpError } from '../../services/HttpClient';
+import { inferJoinPartners, OpenMetadataService, VersionConflictError, withTag } from '../../services/OpenMetadataService';
+import { TableQuery } from '../../shared/protocol';
+
+const queries = (...sql: string[]): TableQuery[] => sql.map((query, index) => ({ id: String(index), query, users: [] }));
+
+suite('inferJoinPartners', () => {
+    test('counts the tables joined with the table', () => {
+        const partners = inferJoinPartners(queries(
+            'SELECT * FROM sales.orders o JOIN sales.customers c ON c.id = o.customer_id',
+            'select * from orders join "sales"."customers" c on c.id = orders.customer_id join products p on p.id = orders.product_id',
+            'SELECT count(*) FROM sales.orders'
+        ), 'orders');
+        assert.deepStrictEqual(partners, [
+            { table: 'sales.customers', queries: 2 },
+            { table: 'products', queries: 1 }
+        ]);
+    });
+
+    test('skips CTEs', () => {
+        const partners = inferJoinPartners(queries(
+            'WITH recent AS (SELECT * FROM orders), big AS (SELECT 1) SELECT * FROM recent JOIN [dbo].[customers] c ON 1 = 1 JOIN big ON 1 = 1'
+        ), 'orders');
+        assert.deepStrictEqual(partners, [{ table: 'dbo.customers', queries: 1 }]);
+    });
+
+    test('returns nothing without joins', () => {
+        assert.deepStrictEqual(inferJoinPartners(queries('SELECT * FROM orders'), 'orders'), []);
+    });
+});
+
+suite('withTag', () => {
+    const label = (tagFQN: string) => ({ tagFQN, source: 'Classification', labelType: 'Manual', state: 'Confirmed' });
+
+    test('adds a confirmed manual label', () => {
+        assert.deepStrictEqual(withTag([], { fqn: 'Glossary.Revenue', source: 'Glossary' }), [
+            { tagFQN: 'Glossary.Revenue', source: 'Glossary', labelType: 'Manual', state: 'Confirmed' }
+        ]);
+    });
+
+    test('does not add a tag twice', () => {
+        const labels = withTag([label('Finance.Revenue'), label('PII.Sensitive')], { fqn: 'Finance.Revenue', source: 'Classification' });
+        assert.deepStrictEqual(labels.map(l => l.tagFQN), ['PII.Sensitive', 'Finance.Revenue']);
+    });
+
+    test('replaces the tier and the PII tag, but not other tags', () => {
+        const labels = [label('Tier.Tier2'), label('PII.NonSensitive'), label('Finance.Revenue')];
+        assert.deepStrictEqual(
+            withTag(labels, { fqn: 'Tier.Tier1', source: 'Classification' }).map(l => l.tagFQN),
+            ['PII.NonSensitive', 'Finance.Revenue', 'Tier.Tier1']
+        );
+        assert.deepStrictEqual(
+            withTag(labels, { fqn: 'PII.Sensitive', source: 'Classification' }).map(l => l.tagFQN),
+            ['Tier.Tier2', 'Finance.Revenue', 'PII.Sensitive']
+        );
+        assert.deepStrictEqual(
+            withTag(labels, { fqn: 'Finance.Cost', source: 'Classification' }).map(l => l.tagFQN),
+            ['Tier.Tier2', 'PII.NonSensitive', 'Finance.Revenue', 'Finance.Cost']
+        );
+    });
+});
+
+suite('updateTags', () => {
+    const table = (version: number, tags: string[]) => ({
+        id: 'table-1',
+        version,
+        updatedBy: 'alice',
+        tags: tags.map(tagFQN => ({ tagFQN })),
+        columns: []
+    });
+
+    // A service whose table is `versions[n]` on the n-th read and whose patches `patch` answers
+    function serviceWith(versions: any[], patch: (operations: any[]) => any) {
+        const patches: any[][] = [];
+        let reads = 0;
+        const http = Object.assign(new HttpClient({ name: 'OpenMetadata' }), {
+            get: async () => versions[Math.min(reads++, versions.length - 1)],
+            patch: async (_path: string, operations: any[]) => {
+                patches.push(operations);
+                return patch(operations);
+            }
+        });
+        const service = new OpenMetadataService('http://localhost:8585', async () => undefined, http);
+        return { service, patches };
+    }
+
+    test('tests the expected version in the same patch', async () => {
+        const { service, patches } = serviceWith([table(0.2, [])], () => table(0.3, ['Finance.Revenue']));
+
+        const state = await service.updateTags('shop.orders', { add: { fqn: 'Finance.Revenue', source: 'Classification' } }, undefined, 0.2);
+        assert.deepStrictEqual(patches[0][0], { op: 'test', path: '/version', value: 0.2 });
+        assert.strictEqual(patches[0][1].path, '/tags');
+        assert.deepStrictEqual(state, { tags: ['Finance.Revenue'], tier: undefined, version: 0.3 });
+    });
+
+    test('reports a write that lands before the patch as a conflict', async () => {
+        const { service } = serviceWith([table(0.2, []), table(0.3, ['PII.Sensitive'])], () => {
+            throw new HttpError('OpenMetadata request failed (HTTP 400): test failed', 400);
+        });
+
+        await assert.rejects(
+            service.updateTags('shop.orders', { add: { fqn: 'Finance.Revenue', source: 'Classification' } }, undefined, 0.2),
+            (error: unknown) => error instanceof VersionConflictError &&
+                error.current?.version === 0.3 && error.current.tags.includes('PII.Sensitive')
+        );
+    });
+
+    test('explains a refused patch as a missing permission', async () => {
+        const { service } = serviceWith([table(0.2, [])], () => {
+            throw new AuthError('OpenMetadata authentication failed (HTTP 403).', 403);
+        });
+
+        await assert.rejects(
+            service.updateTags('shop.orders', { remove: 'Finance.Revenue' }, undefined, 0.2),
+            /You lack permission to edit tags on shop\.orders/
+        );
+    });
+
+    test('passes other refusals on', async () => {
+        const { service } = serviceWith([table(0.2, [])], () => {
+            throw new HttpError('OpenMetadata request failed (HTTP 400): invalid tag', 400);
+        });
+
+        await assert.rejects(
+            service.updateTags('shop.orders', { add: { fqn: 'Nope.Nope', source: 'Classification' } }, undefined, 0.2),
+            (error: unknown) => !(error instanceof VersionConflictError) && error instanceof HttpError
+        );
+    });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { HttpClient } from '../../services/HttpClient';
+import { OpenMetadataService } from '../../services/OpenMetadataService';
+import { isLocalEndpoint, sampleValuesByColumn, withoutSensitiveColumns, withoutSensitiveSample } from '../../services/PrivacyService';
+import { ColumnDetails, SampleData, TableProfile } from '../../shared/protocol';
+
+// These run with the default settings, where sensitive columns are excluded
+suite('PrivacyService', () => {
+    const sample: SampleData = {
+        columns: [
+            { name: 'id', tags: [] },
+            { name: 'ssn', tags: ['PII.Sensitive'] },
+            { name: 'email', tags: ['PII.NonSensitive'] }
+        ],
+        rows: [[1, '123-45-6789', 'a@example.com'], [2, '987-65-4321', 'b@example.com']],
+        excludedColumns: []
+    };
+
+    test('drops sensitive columns and their values from sample data', () => {
+        assert.deepStrictEqual(withoutSensitiveSample(sample), {
+            columns: [sample.columns[0], sample.columns[2]],
+            rows: [[1, 'a@example.com'], [2, 'b@example.com']],
+            excludedColumns: ['ssn']
+        });
+    });
+
+    test('drops sensitive columns and their profile metrics', () => {
+        const columns: ColumnDetails[] = [
+            { name: 'id', tags: [] },
+            { name: 'ssn', tags: ['PII.Sensitive'] },
+            { name: 'address', tags: [], children: [{ name: 'street', tags: ['PII.Sensitive'] }] }
+        ];
+        const profile: TableProfile = {
+            rowCount: 2,
+            rowCountHistory: [],
+            columns: [{ name: 'id', min: 1, max: 2 }, { name: 'ssn', min: '123-45-6789', max: '987-65-4321' }]
+        };
+
+        const visible = withoutSensitiveColumns(columns, profile);
+        assert.deepStrictEqual(visible.columns, [columns[0]]);
+        assert.strictEqual(visible.columns?.[0], columns[0]);
+        assert.deepStrictEqual(visible.profile?.columns, [{ name: 'id', min: 1, max: 2 }]);
+    });
+
+    test('matches columns with a display name by their name', async () => {
+        const table = {
+            id: 'table-1',
+            columns: [
+                { name: 'id', dataType: 'INT', tags: [] },
+                { name: 'ssn', displayName: 'Social security number', dataType: 'VARCHAR', tags: [{ tagFQN: 'PII.Sensitive' }] }
+            ]
+        };
+        // Answers the table and its sample data without a server
+        const http = Object.assign(new HttpClient({ name: 'OpenMetadata' }), {
+            get: async (path: string) => path.endsWith('/sampleData')
+                ? { sampleData: { columns: ['id', 'ssn'], rows: [[1, '123-45-6789']] } }
+                : table
+        });
+        const service = new OpenMetadataService('http://localhost:8585', async () => undefined, http);
+
+        const sample = await service.getSampleData('shop.db.public.customers');
+        assert.deepStrictEqual(sample.columns[1].tags, ['PII.Sensitive']);
+        assert.deepStrictEqual(withoutSensitiveSample(sample).rows, [[1]]);
+
+        const columns: ColumnDetails[] = [
+            { name: 'id', tags: [] },
+            { name: 'ssn', displayName: 'Social security number', tags: ['PII.Sensitive'] }
+        ];
+        const profile: TableProfile = {
+            rowCountHistory: [],
+            columns: [{ name: 'id', min: 1, max: 9 }, { name: 'ssn', min: '001-01-0001', max: '999-99-9999' }]
+        };
+        assert.deepStrictEqual(withoutSensitiveColumns(columns, profile).profile?.columns.map(column => column.name), ['id']);
+    });
+
+    test('recognizes LLM endpoints on this machine', () => {
+        assert.ok(isLocalEndpoint('http://localhost:11434/v1/chat/completions'));
+        assert.ok(isLocalEndpoint('http://127.0.0.1:8080/v1'));
+        assert.ok(isLocalEndpoint('http://[::1]:11434'));
+        assert.ok(isLocalEndpoint('http://ollama.localhost'));
+        assert.ok(!isLocalEndpoint('http://192.168.1.20:11434'));
+        assert.ok(!isLocalEndpoint('https://api.openai.com/v1/chat/completions'));
+        assert.ok(!isLocalEndpoint('http://localhost.example.com'));
+        assert.ok(!isLocalEndpoint('not a url'));
+    });
+
+    test('collects a few distinct, shortened sample values per column', () => {
+        const values = sampleValuesByColumn({
+            columns: [{ name: 'status', tags: [] }, { name: 'note', tags: [] }],
+            rows: [['open', null], ['open', ''], ['closed', 'x'.repeat(60)], ['pending', 'short']],
+            excludedColumns: []
+        }, 2);
+        assert.deepStrictEqual(values.get('status'), ['open', 'closed']);
+        assert.deepStrictEqual(values.get('note'), ['x'.repeat(40), 'short']);
+    });
+});
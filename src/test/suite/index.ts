@@ -0,0 +1,16 @@
+import * as fs from 'fs';
+import Mocha from 'mocha';
+import * as path from 'path';
+
+// Entry point that VS Code loads in the extension host; runs every *.test.js next to it
+export function run(): Promise<void> {
+    const mocha = new Mocha({ ui: 'tdd', color: true });
+
+    fs.readdirSync(__dirname)
+        .filter(file => file.endsWith('.test.js'))
+        .forEach(file => mocha.addFile(path.join(__dirname, file)));
+
+    return new Promise((resolve, reject) => {
+        mocha.run(failures => failures > 0 ? reject(new Error(`${failures} tests failed`)) : resolve());
+    });
+}
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { parseColumnClassifications, parseStructuredQuery } from '../../shared/protocol';
+
+suite('parseStructuredQuery', () => {
+    test('rejects anything but an object with something usable', () => {
+        assert.strictEqual(parseStructuredQuery(null), undefined);
+        assert.strictEqual(parseStructuredQuery('finance'), undefined);
+        assert.strictEqual(parseStructuredQuery({}), undefined);
+        assert.strictEqual(parseStructuredQuery({ terms: ['  '], entityTypes: ['spreadsheet'] }), undefined);
+    });
+
+    test('trims terms and drops unknown entity types', () => {
+        const query = parseStructuredQuery({ terms: [' finance ', 42, ''], entityTypes: ['table', 'spreadsheet'] });
+        assert.deepStrictEqual(query, {
+            terms: ['finance'],
+            entityTypes: ['table'],
+            filters: undefined,
+            updatedAfter: undefined,
+            updatedBefore: undefined
+        });
+    });
+
+    test('caps the number of terms', () => {
+        const terms = Array.from({ length: 15 }, (_, index) => `term${index}`);
+        assert.strictEqual(parseStructuredQuery({ terms })?.terms.length, 10);
+    });
+
+    test('normalizes tiers and test statuses and drops unknown filters', () => {
+        const query = parseStructuredQuery({
+            terms: [],
+            filters: {
+                tier: ['Tier1', 'tier 2', 'Tier.Tier3'],
+                testStatus: ['failed', 'broken'],
+                owner: ['Payments', 7],
+                color: ['red']
+            }
+        });
+        assert.deepStrictEqual(query?.filters, {
+            tier: ['Tier.Tier1', 'Tier.Tier2', 'Tier.Tier3'],
+            testStatus: ['Failed'],
+            owner: ['Payments']
+        });
+    });
+
+    test('keeps only valid dates', () => {
+        const query = parseStructuredQuery({ terms: ['orders'], updatedAfter: '2024-05-01', updatedBefore: 'last week' });
+        assert.strictEqual(query?.updatedAfter, '2024-05-01');
+        assert.strictEqual(query?.updatedBefore, undefined);
+    });
+});
+
+suite('parseColumnClassifications', () => {
+    const columns = ['email', 'created_at', 'ssn'];
+    const tags = ['PII.Sensitive', 'PII.NonSensitive', 'Finance.Revenue'];
+
+    test('matches columns and tags case-insensitively and drops unknown ones', () => {
+        const result = parseColumnClassifications({
+            columns: [
+                { column: 'EMAIL', tags: ['pii.nonsensitive', 'Marketing.Lead'], confidence: 0.9, reasoning: 'Email addresses' },
+                { column: 'phone', tags: ['PII.NonSensitive'], confidence: 0.9, reasoning: 'Not offered' }
+            ]
+        }, columns, tags);
+        assert.deepStrictEqual(result, [
+            { column: 'email', tags: ['PII.NonSensitive'], confidence: 0.9, reasoning: 'Email addresses' }
+        ]);
+    });
+
+    test('accepts a bare array', () => {
+        const result = parseColumnClassifications([{ column: 'created_at', tags: [], confidence: 1, reasoning: '' }], columns, tags);
+        assert.deepStrictEqual(result, [{ column: 'created_at', tags: [], confidence: 1, reasoning: '' }]);
+    });
+
+    test('keeps the first PII tag and the first entry per column', () => {
+        const result = parseColumnClassifications({
+            columns: [
+                { column: 'ssn', tags: ['PII.Sensitive', 'PII.NonSensitive', 'Finance.Revenue', 'PII.Sensitive'], confidence: 0.8 },
+                { column: 'ssn', tags: ['PII.NonSensitive'], confidence: 0.1 }
+            ]
+        }, columns, tags);
+        assert.strictEqual(result.length, 1);
+        assert.deepStrictEqual(result[0].tags, ['PII.Sensitive', 'Finance.Revenue']);
+    });
+
+    test('reads confidence as a fraction between 0 and 1', () => {
+        const confidence = (value: unknown) =>
+            parseColumnClassifications([{ column: 'email', tags: [], confidence: value }], columns, tags)[0].confidence;
+        assert.strictEqual(confidence(0.75), 0.75);
+        assert.strictEqual(confidence('0.5'), 0.5);
+        assert.strictEqual(confidence(85), 0.85);
+        assert.strictEqual(confidence(250), 1);
+        assert.strictEqual(confidence(-1), 0);
+        assert.strictEqual(confidence('high'), 0);
+    });
+
+    test('trims and shortens the reasoning', () => {
+        const result = parseColumnClassifications([{ column: 'email', tags: [], reasoning: `  ${'x'.repeat(400)}` }], columns, tags);
+        assert.strictEqual(result[0].reasoning.length, 300);
+        assert.ok(result[0].reasoning.startsWith('x'));
+    });
+
+    test('returns nothing for an answer without columns', () => {
+        assert.deepStrictEqual(parseColumnClassifications({ answer: 'email is PII' }, columns, tags), []);
+        assert.deepStrictEqual(parseColumnClassifications(undefined, columns, tags), []);
+    });
+});
@@ -1,98 +1,144 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    ConnectionFix,
+    ConnectionHealth,
+    createRequestId,
+    EntityResult,
+    EntityType,
+    Facet,
+    hasFilters,
+    hasConnectionProblem,
+    isHostMessage,
+    SearchCursor,
+    SearchFilters,
+    SearchSort,
+    StartSuggestions,
+    StructuredQuery,
+    Suggestion,
+    WebviewConfig
+} from '../shared/protocol';
 import { AIInsights } from './components/AIInsights';
+import { ConfigStatus } from './components/ConfigStatus';
 import { ConnectionDots } from './components/ConnectionDots';
+import { EntityDetailPanel } from './components/Details/EntityDetailPanel';
 import { DynamicSuggestions } from './components/DynamicSuggestions';
+import { FacetFilters } from './components/FacetFilters';
+import { InterpretedQuery } from './components/InterpretedQuery';
 
 import LineageModal from './components/Lineage/LineageModal';
 import { ResultsList } from './components/ResultsList';
 import { SearchInterface } from './components/SearchInterface';
 import './styles.css';
-
-// VS Code API type
-declare const acquireVsCodeApi: () => any;
-
-interface TableResult {
-    id: string;
-    name: string;
-    fullyQualifiedName: string;
-    description?: string;
-    tableType?: string;
-    columns?: any[];
-    rowCount?: number;
-    database?: string;
-    schema?: string;
-    updatedAt?: string;
-    tags?: string[];
-    aiAnalysis?: string;
-}
-
-interface Config {
-    openmetadataUrl: string;
-    hasAuthToken: boolean;
-    localLLMEndpoint?: string;
-    localLLMToken?: string;
-}
-
-// Global VS Code API instance to avoid multiple acquisitions
-declare global {
-    interface Window {
-        vscodeApi?: any;
-    }
-}
-
-const getVsCodeApi = () => {
-    if (!window.vscodeApi) {
-        try {
-            window.vscodeApi = acquireVsCodeApi();
-        } catch (error) {
-            console.warn('VS Code API already acquired by another extension:', error);
-            // Create a mock API that logs messages instead of sending them
-            window.vscodeApi = {
-                postMessage: (message: any) => {
-                    console.log('Mock VS Code API - would send message:', message);
-                },
-                getState: () => ({}),
-                setState: (state: any) => {
-                    console.log('Mock VS Code API - would set state:', state);
-                }
-            };
-        }
-    }
-    return window.vscodeApi;
-};
+import { loadState, postToHost, saveState } from './vscodeApi';
 
 export const App: React.FC = () => {
-    const [vscode] = useState(() => getVsCodeApi());
-    const [searchQuery, setSearchQuery] = useState('');
-    const [results, setResults] = useState<TableResult[]>([]);
-    const [aiInsights, setAiInsights] = useState('');
+    // State saved before the webview was last reloaded
+    const [restored] = useState(loadState);
+
+    const [searchQuery, setSearchQuery] = useState(restored.searchQuery || '');
+    const [entityType, setEntityType] = useState<EntityType | ''>(restored.entityType || '');
+    const [filters, setFilters] = useState<SearchFilters>(restored.filters || {});
+    const [facets, setFacets] = useState<Facet[]>(restored.facets || []);
+    const [sort, setSort] = useState<SearchSort>(restored.sort || 'relevance');
+    const [total, setTotal] = useState<number | undefined>(restored.total);
+    const [nextCursor, setNextCursor] = useState<SearchCursor | undefined>(restored.nextCursor);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [loadMoreError, setLoadMoreError] = useState('');
+    const [interpretedQuery, setInterpretedQuery] = useState<StructuredQuery | undefined>(restored.interpretedQuery);
+    // Set after "Use keywords", so changing the scope does not ask the LLM again
+    const [keywordsOnly, setKeywordsOnly] = useState(false);
+    // Read by searches started from event listeners registered on mount
+    const scopeRef = useRef({ entityType, filters, sort });
+    scopeRef.current = { entityType, filters, sort };
+    // The page request in flight; replies to older ones are dropped
+    const loadMoreId = useRef<string | null>(null);
+    const [results, setResults] = useState<EntityResult[]>(restored.results || []);
+    // Insights that were still being generated will not arrive after a reload
+    const [aiInsights, setAiInsights] = useState(
+        restored.aiInsights && !restored.aiInsights.includes('Analyzing') ? restored.aiInsights : ''
+    );
     const [loading, setLoading] = useState(false);
-    const [config, setConfig] = useState<Config | null>(null);
-    const [error, setError] = useState('');
+    const [config, setConfig] = useState<WebviewConfig | null>(null);
+    const [health, setHealth] = useState<ConnectionHealth | null>(null);
+    const [error, setError] = useState(restored.error || '');
+    const [expandedResults, setExpandedResults] = useState<Set<string>>(() => new Set(restored.expandedResults));
+    const appRef = useRef<HTMLDivElement>(null);
+    const scrollSaveTimer = useRef<number | undefined>(undefined);
+    // Replies for any other search are stale and must not overwrite the current results
+    const currentSearchId = useRef<string | null>(null);
+    const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+    const [startSuggestions, setStartSuggestions] = useState<StartSuggestions | null>(null);
+    // Latest type-ahead request; typing waits briefly before asking
+    const suggestId = useRef<string | null>(null);
+    const suggestTimer = useRef<number | undefined>(undefined);
     
     // Lineage modal state
     const [lineageModal, setLineageModal] = useState<{
         isOpen: boolean;
         tableFqn: string;
         tableName: string;
-    }>({
-        isOpen: false,
-        tableFqn: '',
-        tableName: '',
-    });
+        entityType: EntityType;
+    }>(() => restored.lineageModal
+        ? { isOpen: true, ...restored.lineageModal, entityType: restored.lineageModal.entityType || 'table' }
+        : { isOpen: false, tableFqn: '', tableName: '', entityType: 'table' });
 
+    const [detailEntity, setDetailEntity] = useState(restored.detailEntity);
 
+    useEffect(() => {
+        saveState({
+            searchQuery,
+            entityType,
+            filters,
+            facets,
+            sort,
+            total,
+            nextCursor,
+            interpretedQuery,
+            results,
+            aiInsights,
+            error,
+            expandedResults: Array.from(expandedResults),
+            lineageModal: lineageModal.isOpen
+                ? { tableFqn: lineageModal.tableFqn, tableName: lineageModal.tableName, entityType: lineageModal.entityType }
+                : undefined,
+            detailEntity
+        });
+    }, [searchQuery, entityType, filters, facets, sort, total, nextCursor, interpretedQuery, results, aiInsights, error, expandedResults, lineageModal, detailEntity]);
 
+    // Restore the scroll position once the restored results are rendered
+    useEffect(() => {
+        if (appRef.current && restored.scrollTop) {
+            appRef.current.scrollTop = restored.scrollTop;
+        }
+        return () => window.clearTimeout(scrollSaveTimer.current);
+    }, [restored]);
+
+    const handleScroll = () => {
+        window.clearTimeout(scrollSaveTimer.current);
+        scrollSaveTimer.current = window.setTimeout(() => {
+            saveState({ scrollTop: appRef.current?.scrollTop || 0 });
+        }, 200);
+    };
+
+    const handleToggleDetails = useCallback((tableId: string) => {
+        setExpandedResults(previous => {
+            const next = new Set(previous);
+            if (!next.delete(tableId)) {
+                next.add(tableId);
+            }
+            return next;
+        });
+    }, []);
 
     useEffect(() => {
         // Request configuration when component mounts
-        vscode.postMessage({ type: 'getConfig' });
+        postToHost({ type: 'getConfig' });
 
         // Handle search suggestion events from ResultsList
         const handleSearchSuggestion = (event: CustomEvent) => {
             const query = event.detail;
             setSearchQuery(query);
-            vscode.postMessage({ type: 'search', query });
+            startSearch(query);
         };
 
         window.addEventListener('searchSuggestion', handleSearchSuggestion as EventListener);
@@ -100,12 +146,54 @@ export const App: React.FC = () => {
         // Handle messages from the extension
         const handleMessage = (event: MessageEvent) => {
             const message = event.data;
-            
+            if (!isHostMessage(message)) return;
+
+            if (message.type === 'config') {
+                setConfig(message.config);
+                // The profile may have changed, and with it the catalog
+                postToHost({ type: 'getStartSuggestions' });
+                return;
+            }
+
+            if (message.type === 'startSuggestions') {
+                setStartSuggestions(message.suggestions);
+                return;
+            }
+
+            if (message.type === 'suggestions') {
+                if (message.requestId === suggestId.current) {
+                    setSuggestions(message.suggestions);
+                }
+                return;
+            }
+
+            if (message.type === 'connectionHealth') {
+                setHealth(message.health);
+                return;
+            }
+
+            if (message.type === 'moreResults' || message.type === 'moreResultsError') {
+                if (message.requestId !== loadMoreId.current) return;
+                loadMoreId.current = null;
+                setLoadingMore(false);
+
+                if (message.type === 'moreResults') {
+                    // The index can shift between pages, so skip results already shown
+                    setResults(previous => {
+                        const shown = new Set(previous.map(result => result.id));
+                        return [...previous, ...message.results.filter(result => !shown.has(result.id))];
+                    });
+                    setTotal(message.total);
+                    setNextCursor(message.nextCursor);
+                } else {
+                    setLoadMoreError(message.error);
+                }
+                return;
+            }
+
+            if (!('requestId' in message) || message.requestId !== currentSearchId.current) return;
+
             switch (message.type) {
-                case 'config':
-                    setConfig(message.config);
-                    break;
-                    
                 case 'searchStarted':
                     setLoading(true);
                     setError('');
@@ -115,6 +203,10 @@ export const App: React.FC = () => {
                 case 'searchResults':
                     setLoading(false);
                     setResults(message.results);
+                    setFacets(message.facets);
+                    setTotal(message.total);
+                    setNextCursor(message.nextCursor);
+                    setInterpretedQuery(message.searchContext.interpretedQuery);
                     if (message.aiInsights) {
                         setAiInsights(message.aiInsights);
                     } else if (message.results.length > 0) {
@@ -131,18 +223,154 @@ export const App: React.FC = () => {
                     setError(message.error);
                     setAiInsights('');
                     setResults([]);
+                    setFacets([]);
+                    setTotal(undefined);
+                    setNextCursor(undefined);
+                    setInterpretedQuery(undefined);
                     break;
-                    
+
+                case 'searchCancelled':
+                    setLoading(false);
+                    setAiInsights('');
+                    currentSearchId.current = null;
+                    break;
+
                 // openVibeCoderModal removed (Vibe Coder modal deleted)
             }
         };
 
         window.addEventListener('message', handleMessage);
         return () => {
+            window.clearTimeout(suggestTimer.current);
             window.removeEventListener('message', handleMessage);
             window.removeEventListener('searchSuggestion', handleSearchSuggestion as EventListener);
         };
-    }, [vscode]);
+    }, []);
+
+    // Pages of the previous results are no longer wanted
+    const cancelLoadMore = () => {
+        if (loadMoreId.current) {
+            postToHost({ type: 'cancel', requestId: loadMoreId.current });
+            loadMoreId.current = null;
+        }
+        setLoadingMore(false);
+        setLoadMoreError('');
+    };
+
+    const cancelSuggestions = () => {
+        window.clearTimeout(suggestTimer.current);
+        if (suggestId.current) {
+            postToHost({ type: 'cancel', requestId: suggestId.current });
+            suggestId.current = null;
+        }
+        setSuggestions([]);
+    };
+
+    const handleSearchQueryChange = (query: string) => {
+        setSearchQuery(query);
+        cancelSuggestions();
+
+        if (!query.trim()) {
+            postToHost({ type: 'getStartSuggestions' });
+        } else if (query.trim().length >= 2) {
+            suggestTimer.current = window.setTimeout(() => {
+                const requestId = createRequestId();
+                suggestId.current = requestId;
+                postToHost({ type: 'suggest', requestId, query: query.trim() });
+            }, 200);
+        }
+    };
+
+    const startSearch = (
+        query: string,
+        scope = scopeRef.current,
+        interpretation: { structuredQuery?: StructuredQuery; literal?: boolean } = {}
+    ) => {
+        const requestId = createRequestId();
+        cancelSuggestions();
+        cancelLoadMore();
+        setExpandedResults(new Set());
+        setKeywordsOnly(!!interpretation.literal);
+        currentSearchId.current = requestId;
+        postToHost({
+            type: 'search',
+            requestId,
+            query,
+            entityType: scope.entityType || undefined,
+            filters: hasFilters(scope.filters) ? scope.filters : undefined,
+            sort: scope.sort,
+            structuredQuery: interpretation.structuredQuery,
+            literal: interpretation.literal
+        });
+    };
+
+    // Re-running the same query in a new scope keeps the current interpretation
+    const currentInterpretation = () =>
+        interpretedQuery ? { structuredQuery: interpretedQuery } : { literal: keywordsOnly };
+
+    const handleLoadMore = useCallback(() => {
+        if (!nextCursor || loadMoreId.current) return;
+
+        const requestId = createRequestId();
+        loadMoreId.current = requestId;
+        setLoadingMore(true);
+        setLoadMoreError('');
+        postToHost({
+            type: 'loadMoreResults',
+            requestId,
+            cursor: nextCursor,
+            entityType: entityType || undefined,
+            filters: hasFilters(filters) ? filters : undefined,
+            sort,
+            structuredQuery: interpretedQuery
+        });
+    }, [nextCursor, entityType, filters, sort, interpretedQuery]);
+
+    const handleSortChange = (next: SearchSort) => {
+        setSort(next);
+        if (searchQuery.trim()) {
+            startSearch(searchQuery.trim(), { entityType, filters, sort: next }, currentInterpretation());
+        }
+    };
+
+    const handleEntityTypeChange = (type: EntityType | '') => {
+        setEntityType(type);
+        if (searchQuery.trim()) {
+            startSearch(searchQuery.trim(), { entityType: type, filters, sort }, currentInterpretation());
+        }
+    };
+
+    // The new filters apply to the current query right away
+    const handleFiltersChange = (next: SearchFilters) => {
+        setFilters(next);
+        if (searchQuery.trim()) {
+            startSearch(searchQuery.trim(), { entityType, filters: next, sort }, currentInterpretation());
+        }
+    };
+
+    // Assets are searched by name; tags, glossary terms and owners become filters over everything
+    const handleSuggestionSelect = (suggestion: Suggestion) => {
+        if (suggestion.kind === 'asset') {
+            setSearchQuery(suggestion.value);
+            startSearch(suggestion.value);
+            return;
+        }
+
+        const field = suggestion.kind === 'owner' ? 'owner' : 'tag';
+        const values = filters[field] || [];
+        const next = values.includes(suggestion.value) ? filters : { ...filters, [field]: [...values, suggestion.value] };
+        setFilters(next);
+        setSearchQuery('*');
+        startSearch('*', { entityType, filters: next, sort });
+    };
+
+    const handleInterpretationChange = (next: StructuredQuery) => {
+        startSearch(searchQuery.trim(), scopeRef.current, { structuredQuery: next });
+    };
+
+    const handleUseKeywords = () => {
+        startSearch(searchQuery.trim(), scopeRef.current, { literal: true });
+    };
 
     const handleSearch = () => {
         if (!searchQuery.trim()) {
@@ -151,10 +379,18 @@ export const App: React.FC = () => {
         }
 
         setError('');
-        vscode.postMessage({ 
-            type: 'search', 
-            query: searchQuery.trim() 
-        });
+        startSearch(searchQuery.trim());
+    };
+
+    const handleCancelSearch = () => {
+        if (currentSearchId.current) {
+            postToHost({ type: 'cancel', requestId: currentSearchId.current });
+        }
+        currentSearchId.current = null;
+        setLoading(false);
+        if (aiInsights.includes('Analyzing')) {
+            setAiInsights('');
+        }
     };
 
     const handleKeyPress = (event: React.KeyboardEvent) => {
@@ -165,23 +401,40 @@ export const App: React.FC = () => {
 
     const handleExampleSearch = (query: string) => {
         setSearchQuery(query);
-        vscode.postMessage({ type: 'search', query });
+        startSearch(query);
+    };
+
+    // Tables with a failing test anywhere in the catalog; the filter can be removed like any other
+    const handleFailingTests = () => {
+        const next: SearchFilters = { testStatus: ['Failed'] };
+        setEntityType('table');
+        setFilters(next);
+        setSearchQuery('*');
+        startSearch('*', { entityType: 'table', filters: next, sort });
     };
 
     // Lineage handling functions
-    const handleViewLineage = (tableFqn: string, tableName: string) => {
+    const handleViewLineage = (tableFqn: string, tableName: string, type: EntityType) => {
         setLineageModal({
             isOpen: true,
             tableFqn,
             tableName,
+            entityType: type,
         });
     };
 
+    const handleOpenDetails = (fqn: string, name: string, type: EntityType) => {
+        setDetailEntity({ fqn, name, entityType: type });
+    };
+
+    const handleCloseDetails = useCallback(() => setDetailEntity(undefined), []);
+
     const handleCloseLineage = () => {
         setLineageModal({
             isOpen: false,
             tableFqn: '',
             tableName: '',
+            entityType: 'table',
         });
     };
 
@@ -198,40 +451,95 @@ export const App: React.FC = () => {
     }, []);
 
     const handleHomeClick = () => {
-        // Reset to home state
+        // Reset to home state; replies to a running search are ignored from now on
+        currentSearchId.current = null;
         setSearchQuery('');
         setResults([]);
+        setFacets([]);
+        setFilters({});
+        setTotal(undefined);
+        setNextCursor(undefined);
+        setInterpretedQuery(undefined);
+        setKeywordsOnly(false);
+        cancelLoadMore();
         setAiInsights('');
         setError('');
         setLoading(false);
+        setExpandedResults(new Set());
+        cancelSuggestions();
+        postToHost({ type: 'getStartSuggestions' });
     };
 
+    // AI insights are still being generated for the current results
+    const insightsPending = aiInsights.includes('Analyzing');
+
+    const handleFix = (fix: ConnectionFix) => postToHost({ type: 'runFix', fix });
+    const handleTestConnections = () => postToHost({ type: 'testConnections' });
+
     // Check if dots should be shown (only when there's a problem)
-    const shouldShowDots = !config || !config.openmetadataUrl;
+    const connectionProblem = !!health && hasConnectionProblem(health);
+    const shouldShowDots = !config || !config.openmetadataUrl || connectionProblem;
     const headerClassName = `app-header-minimal ${shouldShowDots ? '' : 'no-dots'}`;
 
     return (
-        <div className="app">
+        <div className="app" ref={appRef} onScroll={handleScroll}>
             <div className={headerClassName}>
-                <ConnectionDots config={config} onHomeClick={handleHomeClick} />
+                <ConnectionDots
+                    config={config}
+                    health={health}
+                    onHomeClick={handleHomeClick}
+                    onProfileClick={() => postToHost({ type: 'switchProfile' })}
+                    onFix={handleFix}
+                    onTestConnections={handleTestConnections}
+                />
                 <div className="search-container-top">
                     <SearchInterface
                         searchQuery={searchQuery}
-                        onSearchQueryChange={setSearchQuery}
+                        onSearchQueryChange={handleSearchQueryChange}
                         onSearch={handleSearch}
                         onKeyPress={handleKeyPress}
                         loading={loading}
                         onExampleSearch={handleExampleSearch}
+                        onCancel={loading || insightsPending ? handleCancelSearch : undefined}
+                        entityType={entityType}
+                        onEntityTypeChange={handleEntityTypeChange}
+                        suggestions={suggestions}
+                        onSuggestionSelect={handleSuggestionSelect}
 
                         compact={true}
                     />
+                    <FacetFilters
+                        facets={facets}
+                        filters={filters}
+                        onFiltersChange={handleFiltersChange}
+                    />
+                    {interpretedQuery && (
+                        <InterpretedQuery
+                            query={interpretedQuery}
+                            onChange={handleInterpretationChange}
+                            onUseKeywords={handleUseKeywords}
+                        />
+                    )}
                     {searchQuery.trim() === '' && (
-                        <DynamicSuggestions onSuggestionClick={handleExampleSearch} />
+                        <DynamicSuggestions
+                            suggestions={startSuggestions}
+                            onSuggestionClick={handleExampleSearch}
+                            onFailingTestsClick={handleFailingTests}
+                        />
                     )}
                 </div>
             </div>
 
             <main className="app-main">
+                {connectionProblem && (
+                    <ConfigStatus
+                        config={config}
+                        health={health}
+                        onFix={handleFix}
+                        onTestConnections={handleTestConnections}
+                    />
+                )}
+
                 {error && (
                     <div className="error-message">
                         ❌ {error}
@@ -241,7 +549,7 @@ export const App: React.FC = () => {
                 {(aiInsights || (results.length > 0 && !loading)) && (
                     <AIInsights 
                         insights={aiInsights} 
-                        isStreaming={aiInsights.includes('Analyzing')}
+                        isStreaming={insightsPending}
                     />
                 )}
 
@@ -250,6 +558,15 @@ export const App: React.FC = () => {
                     loading={loading}
                     searchQuery={searchQuery}
                     onViewLineage={handleViewLineage}
+                    onOpenDetails={handleOpenDetails}
+                    expandedResults={expandedResults}
+                    onToggleDetails={handleToggleDetails}
+                    total={total}
+                    sort={sort}
+                    onSortChange={handleSortChange}
+                    onLoadMore={nextCursor ? handleLoadMore : undefined}
+                    loadingMore={loadingMore}
+                    loadMoreError={loadMoreError}
                 />
             </main>
 
@@ -257,10 +574,22 @@ export const App: React.FC = () => {
             <LineageModal
                 tableFqn={lineageModal.tableFqn}
                 tableName={lineageModal.tableName}
+                entityType={lineageModal.entityType}
                 isOpen={lineageModal.isOpen}
                 onClose={handleCloseLineage}
+                onOpenDetails={handleOpenDetails}
             />
 
+            {detailEntity && (
+                <EntityDetailPanel
+                    key={`${detailEntity.entityType}:${detailEntity.fqn}`}
+                    fqn={detailEntity.fqn}
+                    name={detailEntity.name}
+                    entityType={detailEntity.entityType}
+                    onClose={handleCloseDetails}
+                />
+            )}
+
             {/* Vibe Coder Modal removed */}
 
         </div>
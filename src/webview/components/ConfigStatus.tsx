@@ -1,17 +1,38 @@
 import React from 'react';
-
-interface Config {
-    openmetadataUrl: string;
-    localLLMEndpoint?: string;
-    localLLMToken?: string;
-}
+import {
+    CONNECTION_FIX_LABELS,
+    ConnectionCheck,
+    ConnectionFix,
+    ConnectionHealth,
+    isConnectionProblem,
+    WebviewConfig
+} from '../../shared/protocol';
 
 interface ConfigStatusProps {
-    config: Config | null;
+    config: WebviewConfig | null;
+    health: ConnectionHealth | null;
+    onFix?: (fix: ConnectionFix) => void;
+    onTestConnections?: () => void;
 }
 
-export const ConfigStatus: React.FC<ConfigStatusProps> = ({ config }) => {
-    if (!config) {
+const STATUS_TEXT: Record<ConnectionCheck['state'], string> = {
+    checking: 'Checking...',
+    ok: 'Connected',
+    notConfigured: 'Not configured',
+    unreachable: 'Unreachable',
+    authFailed: 'Auth failed',
+    versionMismatch: 'Unsupported version',
+    modelMissing: 'Model missing'
+};
+
+const statusClass = (check: ConnectionCheck) => {
+    if (check.state === 'ok') return 'connected';
+    if (check.state === 'checking') return 'loading';
+    return 'disconnected';
+};
+
+export const ConfigStatus: React.FC<ConfigStatusProps> = ({ config, health, onFix, onTestConnections }) => {
+    if (!config || !health) {
         return (
             <div className="status-bar">
                 <div className="status-indicator loading" title="Loading configuration...">
@@ -22,21 +43,37 @@ export const ConfigStatus: React.FC<ConfigStatusProps> = ({ config }) => {
         );
     }
 
-    const connectionStatus = config.openmetadataUrl ? 'connected' : 'disconnected';
-
-    return (
-        <div className="status-bar">
-            <div 
-                className={`status-indicator ${connectionStatus}`}
-                title={config.openmetadataUrl || 'OpenMetadata not configured'}
-            >
-                <div className={`status-dot ${connectionStatus}`}></div>
+    const renderCheck = (name: string, check: ConnectionCheck, title: string) => (
+        <div className="status-row">
+            <div className={`status-indicator ${statusClass(check)}`} title={title}>
+                <div className={`status-dot ${statusClass(check)}`}></div>
                 <span className="status-text">
-                    {connectionStatus === 'connected' ? 'Connected' : 'Disconnected'}
+                    {name}: {STATUS_TEXT[check.state]}
                 </span>
             </div>
-            
+            {isConnectionProblem(check) && (
+                <div className="status-details">
+                    <span className="status-message">{check.message}</span>
+                    {check.fix && onFix && (
+                        <button className="status-fix-button" onClick={() => onFix(check.fix!)}>
+                            {CONNECTION_FIX_LABELS[check.fix]}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="status-bar">
+            {renderCheck('OpenMetadata', health.openmetadata, config.openmetadataUrl || 'OpenMetadata not configured')}
             <div className="status-separator"></div>
+            {renderCheck('LLM', health.llm, config.llmApiUrl || 'LLM not configured')}
+            {onTestConnections && (
+                <button className="status-fix-button secondary" onClick={onTestConnections}>
+                    Test Again
+                </button>
+            )}
         </div>
     );
-};
\ No newline at end of file
+};
@@ -1,4 +1,12 @@
 import React from 'react';
+import {
+    CONNECTION_FIX_LABELS,
+    ConnectionCheck,
+    ConnectionFix,
+    ConnectionHealth,
+    hasConnectionProblem,
+    WebviewConfig
+} from '../../shared/protocol';
 
 // Extend window interface to include our extension logo URI
 declare global {
@@ -7,16 +15,36 @@ declare global {
     }
 }
 
-interface Config {
-    openmetadataUrl: string;
-}
-
 interface ConnectionDotsProps {
-    config: Config | null;
+    config: WebviewConfig | null;
+    health: ConnectionHealth | null;
     onHomeClick?: () => void;
+    onProfileClick?: () => void;
+    onFix?: (fix: ConnectionFix) => void;
+    onTestConnections?: () => void;
 }
 
-export const ConnectionDots: React.FC<ConnectionDotsProps> = ({ config, onHomeClick }) => {
+const dotClass = (check: ConnectionCheck) => {
+    switch (check.state) {
+        case 'ok':
+            return 'connected';
+        case 'checking':
+            return 'loading';
+        case 'notConfigured':
+            return 'disconnected';
+        default:
+            return 'failed';
+    }
+};
+
+export const ConnectionDots: React.FC<ConnectionDotsProps> = ({
+    config,
+    health,
+    onHomeClick,
+    onProfileClick,
+    onFix,
+    onTestConnections
+}) => {
     const handleDotsClick = () => {
         // Open GitHub repo in browser
         window.open('https://github.com/markusbegerow/local-llm-chat-vscode-openmetadata/tree/main', '_blank');
@@ -37,25 +65,68 @@ export const ConnectionDots: React.FC<ConnectionDotsProps> = ({ config, onHomeCl
         );
     }
 
-    const isOpenMetadataConnected = !!config.openmetadataUrl;
-    
+    const isOpenMetadataConnected = !!config.openmetadataUrl && !(health && hasConnectionProblem(health));
+    // Only worth showing once the user has more than one profile to choose from
+    const showProfile = config.profileCount > 1;
+
     // Show logo when everything is working
     if (isOpenMetadataConnected) {
         const logoUri = window.extensionLogoUri || 'assets/robot_icon_32.png';
         return (
-            <div className="extension-logo" onClick={handleLogoClick} title="OpenMetadata - Click to go home">
-                <img src={logoUri} alt="OpenMetadata" />
-            </div>
+            <>
+                <div className="extension-logo" onClick={handleLogoClick} title={`OpenMetadata (${config.profileName}: ${config.openmetadataUrl}) - Click to go home`}>
+                    <img src={logoUri} alt="OpenMetadata" />
+                </div>
+                {showProfile && (
+                    <button
+                        className="profile-badge"
+                        onClick={onProfileClick}
+                        title={`Profile: ${config.profileName} (${config.openmetadataUrl}) - Click to switch`}
+                    >
+                        {config.profileName}
+                    </button>
+                )}
+            </>
         );
     }
     
-    // Show dots when there's a problem
-    return (
-        <div className="connection-dots" onClick={handleDotsClick}>
-            <div 
-                className={`connection-dot ${isOpenMetadataConnected ? 'connected' : 'disconnected'}`}
-                title={`OpenMetadata: ${isOpenMetadataConnected ? 'Connected' : 'Not configured'} - Click for setup help`}
+    if (!health) {
+        // Show dots when there's a problem
+        return (
+            <div className="connection-dots" onClick={handleDotsClick}>
+                <div
+                    className="connection-dot disconnected"
+                    title="OpenMetadata: Not configured - Click for setup help"
+                ></div>
+            </div>
+        );
+    }
+
+    // One dot per connection; clicking a failed one runs its fix
+    const renderDot = (name: string, check: ConnectionCheck) => {
+        const handleClick = (event: React.MouseEvent) => {
+            event.stopPropagation();
+            if (check.fix && onFix) {
+                onFix(check.fix);
+            } else if (onTestConnections) {
+                onTestConnections();
+            }
+        };
+        const action = check.fix ? CONNECTION_FIX_LABELS[check.fix] : 'Test again';
+
+        return (
+            <div
+                className={`connection-dot ${dotClass(check)}`}
+                onClick={handleClick}
+                title={`${name}: ${check.message} - Click to ${action.toLowerCase()}`}
             ></div>
+        );
+    };
+
+    return (
+        <div className="connection-dots">
+            {renderDot('OpenMetadata', health.openmetadata)}
+            {renderDot('LLM', health.llm)}
         </div>
     );
 };
\ No newline at end of file
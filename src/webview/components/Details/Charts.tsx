@@ -0,0 +1,79 @@
+import React from 'react';
+import { TestResult } from '../../../shared/protocol';
+
+interface SparklineProps {
+    points: { timestamp: number; value: number }[];
+    format?: (value: number) => string;
+    width?: number;
+    height?: number;
+}
+
+const formatDay = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+// Values over time as a small line chart, with the range and dates as labels
+export const Sparkline: React.FC<SparklineProps> = ({ points, format = value => value.toLocaleString(), width = 280, height = 48 }) => {
+    if (points.length === 0) {
+        return null;
+    }
+
+    const values = points.map(point => point.value);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const first = points[0].timestamp;
+    const span = points[points.length - 1].timestamp - first || 1;
+    const x = (timestamp: number) => points.length === 1 ? width / 2 : ((timestamp - first) / span) * (width - 6) + 3;
+    const y = (value: number) => max === min ? height / 2 : height - 3 - ((value - min) / (max - min)) * (height - 6);
+
+    return (
+        <div className="sparkline">
+            <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img">
+                <polyline
+                    className="sparkline-line"
+                    fill="none"
+                    points={points.map(point => `${x(point.timestamp)},${y(point.value)}`).join(' ')}
+                />
+                {points.map(point => (
+                    <circle key={point.timestamp} className="sparkline-point" cx={x(point.timestamp)} cy={y(point.value)} r={2}>
+                        <title>{`${formatDay(point.timestamp)}: ${format(point.value)}`}</title>
+                    </circle>
+                ))}
+            </svg>
+            <div className="sparkline-labels">
+                <span>{formatDay(first)}</span>
+                <span>{min === max ? format(min) : `${format(min)} – ${format(max)}`}</span>
+                <span>{formatDay(points[points.length - 1].timestamp)}</span>
+            </div>
+        </div>
+    );
+};
+
+// Bars for the profiler's value histogram; each bin is labelled by its boundary
+export const Histogram: React.FC<{ boundaries: string[]; frequencies: number[] }> = ({ boundaries, frequencies }) => {
+    const highest = Math.max(...frequencies, 1);
+
+    return (
+        <div className="histogram" role="img">
+            {frequencies.map((frequency, index) => (
+                <div
+                    key={index}
+                    className="histogram-bar"
+                    style={{ height: `${Math.max((frequency / highest) * 100, 2)}%` }}
+                    title={`${boundaries[index] ?? ''}: ${frequency.toLocaleString()}`}
+                />
+            ))}
+        </div>
+    );
+};
+
+// One square per test run, oldest first, coloured by status
+export const StatusHistory: React.FC<{ results: TestResult[] }> = ({ results }) => (
+    <span className="status-history" role="img">
+        {results.map(result => (
+            <span
+                key={result.timestamp}
+                className={`status-history-run ${result.status.toLowerCase()}`}
+                title={`${new Date(result.timestamp).toLocaleString()}: ${result.status}${result.result ? ` – ${result.result}` : ''}`}
+            />
+        ))}
+    </span>
+);
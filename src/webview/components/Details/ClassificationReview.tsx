@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ClassificationReport, ColumnClassification, createRequestId, isHostMessage } from '../../../shared/protocol';
+import { postToHost } from '../../vscodeApi';
+
+type Decision = 'accept' | 'reject';
+
+// Below this the proposal is shown as a guess
+const LOW_CONFIDENCE = 0.5;
+
+// Proposed tags the column does not have yet
+const newTagsOf = (classification: ColumnClassification) =>
+    classification.tags.filter(tag => !classification.current.includes(tag));
+
+interface ClassificationReviewProps {
+    fqn: string;
+    onClose: () => void;
+    // Called after accepted tags were written to OpenMetadata
+    onApplied?: () => void;
+}
+
+/**
+ * Proposes PII and other classification tags per column with the LLM and lets
+ * the user accept or reject each before the accepted ones are written in one
+ * patch. Sample values are opt-in and only go to an LLM on this machine.
+ */
+export const ClassificationReview: React.FC<ClassificationReviewProps> = ({ fqn, onClose, onApplied }) => {
+    const [includeSampleValues, setIncludeSampleValues] = useState(false);
+    const [running, setRunning] = useState(false);
+    const [report, setReport] = useState<ClassificationReport | null>(null);
+    const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+    const [saving, setSaving] = useState(false);
+    const [applied, setApplied] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const requestId = useRef<string | null>(null);
+    const container = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        container.current?.scrollIntoView({ block: 'nearest' });
+    }, []);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || message.requestId !== requestId.current) return;
+
+            switch (message.type) {
+                case 'columnClassifications':
+                    requestId.current = null;
+                    setRunning(false);
+                    setReport(message.report);
+                    setDecisions({});
+                    break;
+                case 'columnClassificationsError':
+                    requestId.current = null;
+                    setRunning(false);
+                    setError(message.error);
+                    break;
+                case 'classificationsApplied':
+                    requestId.current = null;
+                    setSaving(false);
+                    setApplied(message.columns);
+                    onApplied?.();
+                    break;
+                case 'classificationsApplyError':
+                    requestId.current = null;
+                    setSaving(false);
+                    setError(message.error);
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            if (requestId.current) {
+                postToHost({ type: 'cancel', requestId: requestId.current });
+                requestId.current = null;
+            }
+        };
+    }, [onApplied]);
+
+    const classify = () => {
+        const id = createRequestId();
+        requestId.current = id;
+        setRunning(true);
+        setReport(null);
+        setError(null);
+        postToHost({ type: 'classifyColumns', requestId: id, fqn, includeSampleValues });
+    };
+
+    const changes = report?.columns.filter(classification => newTagsOf(classification).length > 0) || [];
+    const accepted = changes.filter(classification => decisions[classification.column] === 'accept');
+
+    const decide = (column: string, decision: Decision) =>
+        setDecisions(previous => ({ ...previous, [column]: decision }));
+
+    const apply = () => {
+        const id = createRequestId();
+        requestId.current = id;
+        setSaving(true);
+        setError(null);
+        postToHost({
+            type: 'applyClassifications',
+            requestId: id,
+            fqn,
+            version: report?.version,
+            accepted: accepted.map(classification => ({ column: classification.column, tags: newTagsOf(classification) }))
+        });
+    };
+
+    return (
+        <div className="description-review" ref={container}>
+            <div className="description-review-header">
+                <span>🛡️ Column classification</span>
+                <button className="lineage-modal-close-minimal" onClick={onClose} aria-label="Close column classification">
+                    ×
+                </button>
+            </div>
+
+            {applied !== null ? (
+                <div className="description-review-done">
+                    ✓ Tags applied to {applied} column{applied === 1 ? '' : 's'}
+                </div>
+            ) : (
+                <>
+                    <div className="classification-options">
+                        <label className="classification-samples-option">
+                            <input
+                                type="checkbox"
+                                checked={includeSampleValues}
+                                disabled={running || saving}
+                                onChange={(e) => setIncludeSampleValues(e.target.checked)}
+                            />
+                            Include sample values (only sent to an LLM running on this machine)
+                        </label>
+                        <button className="action-button" disabled={running || saving} onClick={classify}>
+                            {report ? '↻ Classify again' : 'Classify columns'}
+                        </button>
+                    </div>
+
+                    {running && (
+                        <div className="lineage-loading-compact">
+                            <div className="loading-spinner-compact"></div>
+                            <span>Classifying columns...</span>
+                        </div>
+                    )}
+
+                    {report && (
+                        <>
+                            {report.sampleValuesWithheld && (
+                                <div className="detail-muted">
+                                    Sample values were not sent, because the configured LLM does not run on this machine.
+                                </div>
+                            )}
+                            {report.skippedColumns.length > 0 && (
+                                <div className="detail-muted" title={report.skippedColumns.join(', ')}>
+                                    {report.skippedColumns.length} column{report.skippedColumns.length === 1 ? ' is' : 's are'} already
+                                    tagged as sensitive and {report.skippedColumns.length === 1 ? 'was' : 'were'} skipped.
+                                </div>
+                            )}
+
+                            {report.columns.length === 0 ? (
+                                <div className="detail-muted">No columns to classify.</div>
+                            ) : (
+                                <table className="column-table classification-table">
+                                    <thead>
+                                        <tr>
+                                            <th>Column</th>
+                                            <th>Proposed tags</th>
+                                            <th>Confidence</th>
+                                            <th>Reasoning</th>
+                                            <th></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.columns.map(classification => {
+                                            const added = newTagsOf(classification);
+                                            const decision = decisions[classification.column];
+                                            return (
+                                                <tr key={classification.column} className={decision ? `classification-${decision}` : undefined}>
+                                                    <td className="column-name-cell">{classification.column}</td>
+                                                    <td>
+                                                        {classification.tags.length === 0 && <span className="detail-muted">None</span>}
+                                                        {classification.tags.map(tag => (
+                                                            <span
+                                                                key={tag}
+                                                                className={`tag-compact ${added.includes(tag) ? 'classification-new-tag' : ''}`}
+                                                                title={added.includes(tag) ? 'New' : 'Already tagged'}
+                                                            >
+                                                                {tag}
+                                                            </span>
+                                                        ))}
+                                                    </td>
+                                                    <td className={classification.confidence < LOW_CONFIDENCE ? 'classification-low-confidence' : undefined}>
+                                                        {Math.round(classification.confidence * 100)}%
+                                                    </td>
+                                                    <td className="column-description-cell">{classification.reasoning}</td>
+                                                    <td className="classification-decision">
+                                                        {added.length > 0 ? (
+                                                            <>
+                                                                <button
+                                                                    className={`action-button ${decision === 'accept' ? 'active' : ''}`}
+                                                                    disabled={saving}
+                                                                    onClick={() => decide(classification.column, 'accept')}
+                                                                    aria-label={`Accept tags for ${classification.column}`}
+                                                                >
+                                                                    ✓
+                                                                </button>
+                                                                <button
+                                                                    className={`action-button ${decision === 'reject' ? 'active' : ''}`}
+                                                                    disabled={saving}
+                                                                    onClick={() => decide(classification.column, 'reject')}
+                                                                    aria-label={`Reject tags for ${classification.column}`}
+                                                                >
+                                                                    ✗
+                                                                </button>
+                                                            </>
+                                                        ) : (
+                                                            <span className="detail-muted">No change</span>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            )}
+
+                            {changes.length > 0 && (
+                                <div className="description-review-actions">
+                                    <button className="action-button" disabled={saving || accepted.length === 0} onClick={apply}>
+                                        {saving ? 'Saving...' : `✓ Apply ${accepted.length} of ${changes.length}`}
+                                    </button>
+                                    <button
+                                        className="action-button"
+                                        disabled={saving}
+                                        onClick={() => setDecisions(Object.fromEntries(changes.map(classification => [classification.column, 'accept' as const])))}
+                                    >
+                                        Accept all
+                                    </button>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </>
+            )}
+
+            {error && <div className="error-message">❌ {error}</div>}
+        </div>
+    );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { ColumnDetails, TableConstraint } from '../../../shared/protocol';
+
+interface ColumnTableProps {
+    columns: ColumnDetails[];
+    tableConstraints?: TableConstraint[];
+    // Offers an LLM-drafted description for top-level columns when given
+    onGenerateDescription?: (column: string) => void;
+    // Replaces the tag chips of top-level columns, e.g. with an editor
+    renderTags?: (column: ColumnDetails) => React.ReactNode;
+}
+
+const KEY_LABELS: Record<string, { label: string; title: string }> = {
+    PRIMARY_KEY: { label: 'PK', title: 'Primary key' },
+    FOREIGN_KEY: { label: 'FK', title: 'Foreign key' },
+    UNIQUE: { label: 'UQ', title: 'Unique' },
+    NOT_NULL: { label: 'NN', title: 'Not null' },
+    SORT_KEY: { label: 'SK', title: 'Sort key' },
+    DIST_KEY: { label: 'DK', title: 'Distribution key' }
+};
+
+// Column and table level constraints that include the column
+function keysOf(column: ColumnDetails, tableConstraints: TableConstraint[]) {
+    const keys = tableConstraints
+        .filter(constraint => constraint.columns.includes(column.name))
+        .map(constraint => ({
+            type: constraint.constraintType,
+            references: constraint.referredColumns?.join(', ')
+        }));
+    if (column.constraint && column.constraint !== 'NULL' && !keys.some(key => key.type === column.constraint)) {
+        keys.unshift({ type: column.constraint, references: undefined });
+    }
+    return keys;
+}
+
+interface ColumnRowProps {
+    column: ColumnDetails;
+    depth: number;
+    tableConstraints: TableConstraint[];
+    onGenerateDescription?: (column: string) => void;
+    renderTags?: (column: ColumnDetails) => React.ReactNode;
+}
+
+const ColumnRow: React.FC<ColumnRowProps> = ({ column, depth, tableConstraints, onGenerateDescription, renderTags }) => {
+    // Nested fields of struct columns start collapsed
+    const [expanded, setExpanded] = useState(false);
+    const hasChildren = !!column.children?.length;
+    // Table constraints only name top-level columns
+    const keys = depth === 0 ? keysOf(column, tableConstraints) : [];
+
+    return (
+        <>
+            <tr>
+                <td className="column-name-cell" style={{ paddingLeft: 6 + depth * 14 }}>
+                    {hasChildren ? (
+                        <button
+                            className="column-expand-button"
+                            onClick={() => setExpanded(!expanded)}
+                            aria-label={expanded ? 'Collapse fields' : 'Expand fields'}
+                        >
+                            {expanded ? '▾' : '▸'}
+                        </button>
+                    ) : (
+                        <span className="column-expand-spacer" />
+                    )}
+                    <span className="column-name-compact" title={column.displayName && column.name}>
+                        {column.displayName || column.name}
+                    </span>
+                    {keys.map(key => (
+                        <span
+                            key={key.type}
+                            className={`column-key-badge ${key.type.toLowerCase()}`}
+                            title={key.references ? `${KEY_LABELS[key.type]?.title || key.type} → ${key.references}` : KEY_LABELS[key.type]?.title || key.type}
+                        >
+                            {KEY_LABELS[key.type]?.label || key.type}
+                        </span>
+                    ))}
+                </td>
+                <td className="column-type-cell" title={column.dataTypeDisplay}>
+                    {column.dataTypeDisplay || column.dataType || ''}
+                </td>
+                <td className="column-description-cell">
+                    {column.description}
+                    {onGenerateDescription && depth === 0 && (
+                        <button
+                            className="column-describe-button"
+                            onClick={() => onGenerateDescription(column.name)}
+                            title={column.description ? 'Draft a new description' : 'Generate description'}
+                            aria-label={`Generate description for ${column.displayName || column.name}`}
+                        >
+                            ✨
+                        </button>
+                    )}
+                    {renderTags && depth === 0 ? renderTags(column) : column.tags.length > 0 && (
+                        <div className="column-tags">
+                            {column.tags.map(tag => <span key={tag} className="tag-compact">{tag}</span>)}
+                        </div>
+                    )}
+                </td>
+            </tr>
+            {expanded && column.children!.map((child, index) => (
+                <ColumnRow key={`${child.name}-${index}`} column={child} depth={depth + 1} tableConstraints={tableConstraints} />
+            ))}
+        </>
+    );
+};
+
+// Columns with types, keys, tags and descriptions; struct columns expand into their fields
+export const ColumnTable: React.FC<ColumnTableProps> = ({ columns, tableConstraints = [], onGenerateDescription, renderTags }) => (
+    <table className="column-table">
+        <thead>
+            <tr>
+                <th>Name</th>
+                <th>Type</th>
+                <th>Description</th>
+            </tr>
+        </thead>
+        <tbody>
+            {columns.map((column, index) => (
+                <ColumnRow
+                    key={`${column.name}-${index}`}
+                    column={column}
+                    depth={0}
+                    tableConstraints={tableConstraints}
+                    onGenerateDescription={onGenerateDescription}
+                    renderTags={renderTags}
+                />
+            ))}
+        </tbody>
+    </table>
+);
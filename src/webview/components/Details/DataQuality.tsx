@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { createRequestId, DataQualityReport, isHostMessage, TestResult, TestStatus } from '../../../shared/protocol';
+import { postToHost } from '../../vscodeApi';
+import { StatusHistory } from './Charts';
+
+const STATUS_ICONS: Record<TestStatus, string> = {
+    Success: '✓',
+    Failed: '✗',
+    Aborted: '⊘',
+    Queued: '…'
+};
+
+// Worse statuses win when several runs fall on the same day
+const STATUS_RANK: Record<TestStatus, number> = { Failed: 3, Aborted: 2, Queued: 1, Success: 0 };
+
+// Each caller sends its own request, so a card and the detail panel can both show a report
+function useDataQuality(fqn: string) {
+    const [report, setReport] = useState<DataQualityReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let requestId: string | null = createRequestId();
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || message.requestId !== requestId) return;
+
+            if (message.type === 'dataQuality') {
+                requestId = null;
+                setReport(message.report);
+            } else if (message.type === 'dataQualityError') {
+                requestId = null;
+                setError(message.error);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        setReport(null);
+        setError(null);
+        postToHost({ type: 'getDataQuality', requestId, fqn });
+
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            if (requestId) {
+                postToHost({ type: 'cancel', requestId });
+            }
+        };
+    }, [fqn]);
+
+    return { report, error };
+}
+
+// The worst result per day across all tests of a table
+function dailyResults(report: DataQualityReport): TestResult[] {
+    const days = new Map<string, TestResult>();
+    for (const result of report.tests.flatMap(test => test.history)) {
+        const day = new Date(result.timestamp).toDateString();
+        const current = days.get(day);
+        if (!current || STATUS_RANK[result.status] > STATUS_RANK[current.status]) {
+            days.set(day, result);
+        }
+    }
+    return [...days.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+const StatusCounts: React.FC<{ summary: DataQualityReport['summary'] }> = ({ summary }) => (
+    <span className="dq-counts">
+        {(['Success', 'Failed', 'Aborted'] as TestStatus[]).filter(status => summary[status] > 0).map(status => (
+            <span key={status} className={`dq-count ${status.toLowerCase()}`} title={`${summary[status]} ${status.toLowerCase()}`}>
+                {STATUS_ICONS[status]} {summary[status]}
+            </span>
+        ))}
+    </span>
+);
+
+/**
+ * One-line test summary for a result card. Tables without tests show nothing.
+ */
+export const DataQualityStrip: React.FC<{ fqn: string }> = ({ fqn }) => {
+    const { report, error } = useDataQuality(fqn);
+
+    if (error) {
+        return <div className="dq-strip detail-muted">Data quality unavailable: {error}</div>;
+    }
+    if (!report || report.tests.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="dq-strip">
+            <span className="metadata-label">Tests</span>
+            <StatusCounts summary={report.summary} />
+            <StatusHistory results={dailyResults(report)} />
+            {report.incidents.length > 0 && (
+                <span className="dq-incident-count">
+                    {report.incidents.length} open incident{report.incidents.length !== 1 ? 's' : ''}
+                </span>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Tests, their recent runs and open incidents of a table, for the detail panel.
+ */
+export const DataQualityView: React.FC<{ fqn: string }> = ({ fqn }) => {
+    const { report, error } = useDataQuality(fqn);
+
+    if (error) {
+        return <div className="error-message">❌ {error}</div>;
+    }
+
+    if (!report) {
+        return (
+            <div className="lineage-loading-compact">
+                <div className="loading-spinner-compact"></div>
+                <span>Loading test results...</span>
+            </div>
+        );
+    }
+
+    if (report.tests.length === 0) {
+        return <div className="detail-muted">No data quality tests are defined for this table.</div>;
+    }
+
+    return (
+        <div className="dq-view">
+            <div className="dq-strip">
+                <StatusCounts summary={report.summary} />
+                <StatusHistory results={dailyResults(report)} />
+            </div>
+
+            {report.incidents.length > 0 && (
+                <div className="detail-section">
+                    <div className="detail-section-title">Open incidents ({report.incidents.length})</div>
+                    <ul className="detail-list">
+                        {report.incidents.map(incident => (
+                            <li key={incident.id}>
+                                <strong>{incident.testCase}</strong>: {incident.status}
+                                {incident.severity && `, ${incident.severity}`}
+                                {incident.assignee && `, assigned to ${incident.assignee}`}
+                                {incident.updatedAt && <span className="detail-muted"> · {new Date(incident.updatedAt).toLocaleDateString()}</span>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="detail-section">
+                <div className="detail-section-title">Tests ({report.tests.length})</div>
+                <table className="column-table">
+                    <thead>
+                        <tr>
+                            <th>Test</th>
+                            <th>Column</th>
+                            <th>Status</th>
+                            <th>Last 30 days</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {report.tests.map(test => (
+                            <tr key={test.fullyQualifiedName}>
+                                <td title={[test.description, test.testSuites.length ? `Suites: ${test.testSuites.join(', ')}` : ''].filter(Boolean).join('\n')}>
+                                    {test.displayName || test.name}
+                                    {test.testDefinition && <div className="column-type-cell">{test.testDefinition}</div>}
+                                </td>
+                                <td>{test.column || <span className="detail-muted">table</span>}</td>
+                                <td>
+                                    {test.latest ? (
+                                        <span className={`dq-count ${test.latest.status.toLowerCase()}`} title={test.latest.result}>
+                                            {STATUS_ICONS[test.latest.status]} {test.latest.status}
+                                        </span>
+                                    ) : (
+                                        <span className="detail-muted">Not run</span>
+                                    )}
+                                    {test.latest?.result && <div className="dq-result">{test.latest.result}</div>}
+                                </td>
+                                <td><StatusHistory results={test.history} /></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
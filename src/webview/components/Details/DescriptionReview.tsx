@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createRequestId, DescriptionDraft, DescriptionOutcome, isHostMessage } from '../../../shared/protocol';
+import { postToHost } from '../../vscodeApi';
+
+const OUTCOME_LABELS: Record<DescriptionOutcome, string> = {
+    updated: '✓ Description saved to OpenMetadata',
+    taskCreated: '✓ Request Description task created for the owners'
+};
+
+interface DraftEditorProps {
+    draft: DescriptionDraft;
+    onDiscard: () => void;
+    onApplied?: (outcome: DescriptionOutcome) => void;
+    onRegenerate?: () => void;
+}
+
+// Current description next to the editable draft; nothing is written until the user approves
+const DraftEditor: React.FC<DraftEditorProps> = ({ draft, onDiscard, onApplied, onRegenerate }) => {
+    const [text, setText] = useState(draft.draft);
+    const [saving, setSaving] = useState(false);
+    const [outcome, setOutcome] = useState<DescriptionOutcome | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const requestId = useRef<string | null>(null);
+
+    useEffect(() => setText(draft.draft), [draft]);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || message.requestId !== requestId.current) return;
+
+            if (message.type === 'descriptionApplied') {
+                requestId.current = null;
+                setSaving(false);
+                setOutcome(message.outcome);
+                onApplied?.(message.outcome);
+            } else if (message.type === 'descriptionApplyError') {
+                requestId.current = null;
+                setSaving(false);
+                setError(message.error);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [onApplied]);
+
+    const apply = () => {
+        const id = createRequestId();
+        requestId.current = id;
+        setSaving(true);
+        setError(null);
+        postToHost({ type: 'applyDescription', requestId: id, fqn: draft.fqn, column: draft.column, description: text });
+    };
+
+    if (outcome) {
+        return <div className="description-review-done">{OUTCOME_LABELS[outcome]}</div>;
+    }
+
+    return (
+        <div className="description-review-editor">
+            <div className="description-review-columns">
+                <div>
+                    <div className="detail-section-title">Current</div>
+                    <div className="description-review-current">
+                        {draft.current || <span className="detail-muted">No description</span>}
+                    </div>
+                </div>
+                <div>
+                    <div className="detail-section-title">Draft</div>
+                    <textarea
+                        className="description-review-draft"
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        rows={5}
+                        aria-label="Draft description"
+                    />
+                </div>
+            </div>
+
+            {!draft.canEdit && (
+                <div className="detail-muted">
+                    You cannot edit this table, so approving creates a Request Description task for its owners.
+                </div>
+            )}
+
+            <div className="description-review-actions">
+                <button className="action-button" disabled={saving || !text.trim()} onClick={apply}>
+                    {saving ? 'Saving...' : draft.canEdit ? '✓ Apply' : '✓ Request description'}
+                </button>
+                {onRegenerate && (
+                    <button className="action-button" disabled={saving} onClick={onRegenerate}>
+                        ↻ Regenerate
+                    </button>
+                )}
+                <button className="action-button" disabled={saving} onClick={onDiscard}>
+                    Discard
+                </button>
+            </div>
+
+            {error && <div className="error-message">❌ {error}</div>}
+        </div>
+    );
+};
+
+interface DescriptionReviewProps {
+    fqn: string;
+    column?: string;
+    onClose: () => void;
+    onApplied?: (outcome: DescriptionOutcome) => void;
+}
+
+/**
+ * Drafts a description of a table or one of its columns with the LLM and lets
+ * the user edit and approve it before it is written to OpenMetadata.
+ */
+export const DescriptionReview: React.FC<DescriptionReviewProps> = ({ fqn, column, onClose, onApplied }) => {
+    const [draft, setDraft] = useState<DescriptionDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // Bumped by Regenerate to request a new draft
+    const [attempt, setAttempt] = useState(0);
+    const requestId = useRef<string | null>(null);
+    const container = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        container.current?.scrollIntoView({ block: 'nearest' });
+    }, []);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || message.requestId !== requestId.current) return;
+
+            if (message.type === 'descriptionDraft') {
+                requestId.current = null;
+                setDraft(message.draft);
+            } else if (message.type === 'descriptionDraftError') {
+                requestId.current = null;
+                setError(message.error);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        const id = createRequestId();
+        requestId.current = id;
+        setDraft(null);
+        setError(null);
+        postToHost({ type: 'generateDescription', requestId: id, fqn, column });
+
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            if (requestId.current) {
+                postToHost({ type: 'cancel', requestId: requestId.current });
+                requestId.current = null;
+            }
+        };
+    }, [fqn, column, attempt]);
+
+    return (
+        <div className="description-review" ref={container}>
+            <div className="description-review-header">
+                <span>✨ Description for {column ? `column ${column}` : 'this table'}</span>
+                <button className="lineage-modal-close-minimal" onClick={onClose} aria-label="Close description review">
+                    ×
+                </button>
+            </div>
+
+            {error && <div className="error-message">❌ {error}</div>}
+
+            {!error && !draft && (
+                <div className="lineage-loading-compact">
+                    <div className="loading-spinner-compact"></div>
+                    <span>Drafting description...</span>
+                </div>
+            )}
+
+            {draft && (
+                <DraftEditor
+                    draft={draft}
+                    onDiscard={onClose}
+                    onApplied={onApplied}
+                    onRegenerate={() => setAttempt(attempt + 1)}
+                />
+            )}
+        </div>
+    );
+};
+
+interface SchemaDescriptionsProps {
+    schemaFqn: string;
+    onClose: () => void;
+}
+
+/**
+ * Bulk mode: drafts descriptions for every undocumented table of a schema, one
+ * after the other, and lists each draft for review as it arrives.
+ */
+export const SchemaDescriptions: React.FC<SchemaDescriptionsProps> = ({ schemaFqn, onClose }) => {
+    const [tables, setTables] = useState<string[] | null>(null);
+    const [drafts, setDrafts] = useState<Record<string, DescriptionDraft>>({});
+    const [failures, setFailures] = useState<Record<string, string>>({});
+    const [discarded, setDiscarded] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [stopped, setStopped] = useState(false);
+    const requestId = useRef<string | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || message.requestId !== requestId.current) return;
+
+            switch (message.type) {
+                case 'undocumentedTables':
+                    setTables(message.tables);
+                    break;
+                case 'undocumentedTablesError':
+                    requestId.current = null;
+                    setError(message.error);
+                    break;
+                case 'descriptionDraft':
+                    setDrafts(previous => ({ ...previous, [message.draft.fqn]: message.draft }));
+                    break;
+                case 'descriptionDraftError':
+                    setFailures(previous => ({ ...previous, [message.fqn]: message.error }));
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        const id = createRequestId();
+        requestId.current = id;
+        postToHost({ type: 'generateSchemaDescriptions', requestId: id, schemaFqn });
+
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            if (requestId.current) {
+                postToHost({ type: 'cancel', requestId: requestId.current });
+                requestId.current = null;
+            }
+        };
+    }, [schemaFqn]);
+
+    const finished = tables?.filter(fqn => drafts[fqn] || failures[fqn]).length ?? 0;
+    const running = !!tables && !stopped && finished < tables.length;
+
+    const stop = () => {
+        if (requestId.current) {
+            postToHost({ type: 'cancel', requestId: requestId.current });
+            requestId.current = null;
+        }
+        setStopped(true);
+    };
+
+    return (
+        <div className="description-review">
+            <div className="description-review-header">
+                <span>✨ Undocumented tables in {schemaFqn}</span>
+                {running && <button className="action-button" onClick={stop}>Stop</button>}
+                <button className="lineage-modal-close-minimal" onClick={onClose} aria-label="Close bulk descriptions">
+                    ×
+                </button>
+            </div>
+
+            {error && <div className="error-message">❌ {error}</div>}
+
+            {!error && !tables && (
+                <div className="lineage-loading-compact">
+                    <div className="loading-spinner-compact"></div>
+                    <span>Finding undocumented tables...</span>
+                </div>
+            )}
+
+            {tables && tables.length === 0 && (
+                <div className="detail-muted">Every table in this schema has a description.</div>
+            )}
+
+            {tables && tables.length > 0 && (
+                <>
+                    <div className="detail-muted">
+                        {finished} of {tables.length} drafted{stopped && finished < tables.length ? ', stopped' : ''}
+                    </div>
+                    <ul className="description-bulk-list">
+                        {tables.filter(fqn => !discarded.includes(fqn)).map(fqn => (
+                            <li key={fqn} className="description-bulk-item">
+                                <div className="description-bulk-table" title={fqn}>{fqn}</div>
+                                {drafts[fqn] ? (
+                                    <DraftEditor
+                                        draft={drafts[fqn]}
+                                        onDiscard={() => setDiscarded(previous => [...previous, fqn])}
+                                    />
+                                ) : failures[fqn] ? (
+                                    <div className="error-message">❌ {failures[fqn]}</div>
+                                ) : (
+                                    <div className="detail-muted">{running ? 'Waiting...' : 'Not drafted'}</div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,348 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    createRequestId,
+    DescriptionOutcome,
+    ENTITY_TYPE_LABELS,
+    EntityDetails,
+    EntityType,
+    isHostMessage,
+    TableConstraint
+} from '../../../shared/protocol';
+import { postToHost } from '../../vscodeApi';
+import { TagEditor, useTagUpdates } from '../TagEditor';
+import { ClassificationReview } from './ClassificationReview';
+import { ColumnTable } from './ColumnTable';
+import { DataQualityView } from './DataQuality';
+import { DescriptionReview, SchemaDescriptions } from './DescriptionReview';
+import { ProfileView } from './ProfileView';
+import { SampleDataGrid } from './SampleDataGrid';
+import { UsageView } from './UsageView';
+import { VersionHistory } from './VersionHistory';
+
+export interface EntityDetailPanelProps {
+    fqn: string;
+    name: string;
+    entityType: EntityType;
+    onClose: () => void;
+}
+
+const CONSTRAINT_LABELS: Record<string, string> = {
+    PRIMARY_KEY: 'Primary key',
+    FOREIGN_KEY: 'Foreign key',
+    UNIQUE: 'Unique',
+    SORT_KEY: 'Sort key',
+    DIST_KEY: 'Distribution key'
+};
+
+const formatDate = (value?: number) => value ? new Date(value).toLocaleString() : undefined;
+
+const describeConstraint = (constraint: TableConstraint) => {
+    const label = CONSTRAINT_LABELS[constraint.constraintType] || constraint.constraintType;
+    const references = constraint.referredColumns?.length ? ` → ${constraint.referredColumns.join(', ')}` : '';
+    return `${label}: ${constraint.columns.join(', ')}${references}`;
+};
+
+// Label/value rows; rows without a value are left out
+const Facts: React.FC<{ rows: [string, React.ReactNode][] }> = ({ rows }) => {
+    const present = rows.filter(([, value]) => value !== undefined && value !== null && value !== '');
+    if (present.length === 0) return null;
+
+    return (
+        <dl className="detail-facts">
+            {present.map(([label, value]) => (
+                <React.Fragment key={label}>
+                    <dt>{label}</dt>
+                    <dd>{value}</dd>
+                </React.Fragment>
+            ))}
+        </dl>
+    );
+};
+
+const list = (values: string[]) => values.length > 0 ? values.join(', ') : undefined;
+
+type DetailTab = 'overview' | 'profile' | 'quality' | 'usage' | 'sample' | 'history';
+
+const TAB_LABELS: Record<DetailTab, string> = {
+    overview: 'Overview',
+    profile: 'Profile',
+    quality: 'Data quality',
+    usage: 'Usage',
+    sample: 'Sample data',
+    history: 'History'
+};
+
+// Profiles, tests, usage and sample data exist only for tables
+const tabsFor = (entityType: EntityType): DetailTab[] =>
+    entityType === 'table' ? ['overview', 'profile', 'quality', 'usage', 'sample', 'history'] : ['overview', 'history'];
+
+interface OverviewProps {
+    details: EntityDetails;
+    entityType: EntityType;
+    // Called after a description or classification was written to OpenMetadata
+    onChanged: () => void;
+}
+
+const Overview: React.FC<OverviewProps> = ({ details, entityType, onChanged }) => {
+    // One draft at a time: the table's own, or that of the named column
+    const [review, setReview] = useState<{ column?: string } | null>(null);
+    const [bulk, setBulk] = useState(false);
+    const [classifying, setClassifying] = useState(false);
+    // Descriptions and tags are written for tables only
+    const describable = entityType === 'table';
+    const tagUpdates = useTagUpdates(details.fullyQualifiedName, details.version);
+    const tableTags = tagUpdates.tagsOf(undefined, { tags: details.tags, tier: details.tier });
+
+    const handleApplied = useCallback((outcome: DescriptionOutcome) => {
+        if (outcome === 'updated') onChanged();
+    }, [onChanged]);
+
+    return (
+        <>
+            {details.description ? (
+                <div className="detail-description">{details.description}</div>
+            ) : describable && (
+                <div className="detail-muted">No description</div>
+            )}
+
+            {describable && (
+                <div className="description-actions">
+                    {(!review || review.column) && (
+                        <button className="action-button" onClick={() => setReview({})}>
+                            ✨ Generate description
+                        </button>
+                    )}
+                    {details.schemaFqn && !bulk && (
+                        <button className="action-button" onClick={() => setBulk(true)}>
+                            ✨ Describe undocumented tables in {details.schema}
+                        </button>
+                    )}
+                    {!classifying && !!details.columns?.length && (
+                        <button className="action-button" onClick={() => setClassifying(true)}>
+                            🛡️ Classify columns
+                        </button>
+                    )}
+                </div>
+            )}
+            {review && !review.column && (
+                <DescriptionReview fqn={details.fullyQualifiedName} onClose={() => setReview(null)} onApplied={handleApplied} />
+            )}
+            {bulk && details.schemaFqn && (
+                <SchemaDescriptions schemaFqn={details.schemaFqn} onClose={() => setBulk(false)} />
+            )}
+
+            <Facts rows={[
+                ['Owners', list(details.owners.map(owner => owner.type === 'team' ? `${owner.name} (team)` : owner.name))],
+                ['Tier', describable ? undefined : details.tier?.replace(/^Tier\./, '')],
+                ['Domains', list(details.domains)],
+                ['Data products', list(details.dataProducts)],
+                ['Service', details.service],
+                ['Database', details.database && [details.database, details.schema].filter(Boolean).join('.')],
+                ['Type', details.tableType],
+                ['Followers', details.followers.length > 0 && (
+                    <span title={details.followers.join(', ')}>{details.followers.length}</span>
+                )],
+                ['Votes', details.votes && `👍 ${details.votes.upVotes}  👎 ${details.votes.downVotes}`],
+                ['Version', details.version?.toString()],
+                ['Updated', [formatDate(details.updatedAt), details.updatedBy && `by ${details.updatedBy}`].filter(Boolean).join(' ')],
+                ['Source', details.sourceUrl && <a href={details.sourceUrl}>{details.sourceUrl}</a>]
+            ]} />
+
+            {describable ? (
+                <div className="detail-section">
+                    <div className="detail-section-title">Tier and tags</div>
+                    <TagEditor
+                        state={tableTags}
+                        onChange={(change) => tagUpdates.update(undefined, tableTags, change)}
+                        showTier
+                        busy={tagUpdates.busy}
+                        error={tagUpdates.errorOf()}
+                    />
+                </div>
+            ) : details.tags.length > 0 && (
+                <div className="detail-section">
+                    <div className="detail-section-title">Tags</div>
+                    <div className="table-tags-compact">
+                        {details.tags.map(tag => <span key={tag} className="tag-compact">{tag}</span>)}
+                    </div>
+                </div>
+            )}
+
+            {details.customProperties.length > 0 && (
+                <div className="detail-section">
+                    <div className="detail-section-title">Custom properties</div>
+                    <Facts rows={details.customProperties.map(property => [property.name, property.value])} />
+                </div>
+            )}
+
+            {(details.tableConstraints?.length || details.partition) && (
+                <div className="detail-section">
+                    <div className="detail-section-title">Constraints and partitioning</div>
+                    <ul className="detail-list">
+                        {details.tableConstraints?.map((constraint, index) => (
+                            <li key={index}>{describeConstraint(constraint)}</li>
+                        ))}
+                        {details.partition && (
+                            <li>
+                                Partitioned by {details.partition.columns.join(', ')}
+                                {details.partition.intervalType && ` (${[details.partition.intervalType, details.partition.interval].filter(Boolean).join(', ')})`}
+                            </li>
+                        )}
+                    </ul>
+                </div>
+            )}
+
+            {details.columns && details.columns.length > 0 && (
+                <div className="detail-section">
+                    <div className="detail-section-title">
+                        {entityType === 'table' ? 'Columns' : 'Schema'} ({details.columns.length})
+                    </div>
+                    {classifying && (
+                        <ClassificationReview fqn={details.fullyQualifiedName} onClose={() => setClassifying(false)} onApplied={onChanged} />
+                    )}
+                    {review?.column && (
+                        <DescriptionReview
+                            key={review.column}
+                            fqn={details.fullyQualifiedName}
+                            column={review.column}
+                            onClose={() => setReview(null)}
+                            onApplied={handleApplied}
+                        />
+                    )}
+                    <ColumnTable
+                        columns={details.columns}
+                        tableConstraints={details.tableConstraints}
+                        onGenerateDescription={describable ? (column) => setReview({ column }) : undefined}
+                        renderTags={describable ? (column) => {
+                            const state = tagUpdates.tagsOf(column.name, { tags: column.tags });
+                            return (
+                                <TagEditor
+                                    state={state}
+                                    onChange={(change) => tagUpdates.update(column.name, state, change)}
+                                    busy={tagUpdates.busy}
+                                    error={tagUpdates.errorOf(column.name)}
+                                />
+                            );
+                        } : undefined}
+                    />
+                </div>
+            )}
+        </>
+    );
+};
+
+/**
+ * Overlay with everything OpenMetadata knows about one entity. Opened from a
+ * result card or a lineage node, so it stacks above the lineage modal.
+ */
+export const EntityDetailPanel: React.FC<EntityDetailPanelProps> = ({ fqn, name, entityType, onClose }) => {
+    const [details, setDetails] = useState<EntityDetails | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [tab, setTab] = useState<DetailTab>('overview');
+    const requestId = useRef<string | null>(null);
+
+    const fetchDetails = useCallback(() => {
+        const id = createRequestId();
+        requestId.current = id;
+        setLoading(true);
+        setError(null);
+        postToHost({ type: 'getEntityDetails', requestId: id, fqn, entityType });
+    }, [fqn, entityType]);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || message.requestId !== requestId.current) return;
+
+            if (message.type === 'entityDetails') {
+                requestId.current = null;
+                setDetails(message.details);
+                setLoading(false);
+            } else if (message.type === 'entityDetailsError') {
+                requestId.current = null;
+                setError(message.error);
+                setLoading(false);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        fetchDetails();
+
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            if (requestId.current) {
+                postToHost({ type: 'cancel', requestId: requestId.current });
+                requestId.current = null;
+            }
+        };
+    }, [fetchDetails]);
+
+    // Escape closes only this panel, not the lineage modal underneath
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                event.stopPropagation();
+                onClose();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown, true);
+        return () => document.removeEventListener('keydown', handleKeyDown, true);
+    }, [onClose]);
+
+    return (
+        <div className="detail-panel-backdrop" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="detail-panel" role="dialog" aria-label={`${name} details`}>
+                <div className="detail-panel-header">
+                    <span className="entity-type-badge">{ENTITY_TYPE_LABELS[entityType]}</span>
+                    <span className="detail-panel-title">{details?.displayName || details?.name || name}</span>
+                    <button className="lineage-modal-close-minimal" onClick={onClose} aria-label="Close details">
+                        ×
+                    </button>
+                </div>
+                <div className="detail-panel-fqn" title={fqn}>{fqn}</div>
+
+                <div className="detail-panel-body">
+                    {loading && (
+                        <div className="lineage-loading-compact">
+                            <div className="loading-spinner-compact"></div>
+                            <span>Loading details...</span>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="error-message">
+                            ❌ {error}
+                            <button className="retry-button-compact" onClick={fetchDetails}>Try Again</button>
+                        </div>
+                    )}
+
+                    {!loading && !error && details && (
+                        <>
+                            <div className="detail-tabs" role="tablist">
+                                {tabsFor(entityType).map(option => (
+                                    <button
+                                        key={option}
+                                        role="tab"
+                                        aria-selected={tab === option}
+                                        className={`detail-tab ${tab === option ? 'active' : ''}`}
+                                        onClick={() => setTab(option)}
+                                    >
+                                        {TAB_LABELS[option]}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {tab === 'overview' && <Overview details={details} entityType={entityType} onChanged={fetchDetails} />}
+                            {tab === 'profile' && <ProfileView fqn={fqn} />}
+                            {tab === 'quality' && <DataQualityView fqn={fqn} />}
+                            {tab === 'usage' && <UsageView fqn={fqn} />}
+                            {tab === 'sample' && <SampleDataGrid fqn={fqn} />}
+                            {tab === 'history' && <VersionHistory fqn={fqn} name={details.name} entityType={entityType} />}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,234 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ColumnProfile, createRequestId, isHostMessage, TableProfile } from '../../../shared/protocol';
+import { postToHost } from '../../vscodeApi';
+import { Histogram, Sparkline } from './Charts';
+
+interface ProfileViewProps {
+    fqn: string;
+}
+
+interface ColumnHistory {
+    history?: ColumnProfile[];
+    error?: string;
+}
+
+const percent = (value?: number) => value === undefined ? '' : `${(value * 100).toFixed(1)}%`;
+const number = (value?: number) => value === undefined ? '' : value.toLocaleString();
+const metric = (value?: number | string) => {
+    if (value === undefined || value === null) return '';
+    return typeof value === 'number' ? Number(value.toFixed(2)).toLocaleString() : value;
+};
+
+const formatBytes = (bytes?: number) => {
+    if (bytes === undefined) return undefined;
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return `${Number(size.toFixed(1))} ${units[unit]}`;
+};
+
+// Histogram and metric history of one column, shown below its row
+const ColumnProfileDetails: React.FC<{ column: ColumnProfile; history?: ColumnHistory }> = ({ column, history }) => (
+    <div className="column-profile-details">
+        {column.histogram && (
+            <div>
+                <div className="detail-section-title">Distribution</div>
+                <Histogram boundaries={column.histogram.boundaries} frequencies={column.histogram.frequencies} />
+            </div>
+        )}
+        {!history && <div className="detail-muted">Loading history...</div>}
+        {history?.error && <div className="detail-muted">History unavailable: {history.error}</div>}
+        {history?.history && history.history.length > 1 && (
+            <>
+                <div>
+                    <div className="detail-section-title">Null ratio, last 30 days</div>
+                    <Sparkline
+                        points={history.history
+                            .filter(p => p.timestamp !== undefined && p.nullProportion !== undefined)
+                            .map(p => ({ timestamp: p.timestamp!, value: p.nullProportion! }))}
+                        format={value => percent(value)}
+                    />
+                </div>
+                <div>
+                    <div className="detail-section-title">Distinct values, last 30 days</div>
+                    <Sparkline
+                        points={history.history
+                            .filter(p => p.timestamp !== undefined && p.distinctCount !== undefined)
+                            .map(p => ({ timestamp: p.timestamp!, value: p.distinctCount! }))}
+                    />
+                </div>
+            </>
+        )}
+    </div>
+);
+
+/**
+ * Profiler metrics of a table: row count over time and the latest statistics
+ * per column. Expanding a column loads its history.
+ */
+export const ProfileView: React.FC<ProfileViewProps> = ({ fqn }) => {
+    const [profile, setProfile] = useState<TableProfile | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [histories, setHistories] = useState<Record<string, ColumnHistory>>({});
+    const [analysis, setAnalysis] = useState<string | null>(null);
+    const [analyzing, setAnalyzing] = useState(false);
+    // Request IDs of this view; replies to anything else are ignored
+    const pending = useRef(new Set<string>());
+
+    const send = (request: (requestId: string) => void) => {
+        const requestId = createRequestId();
+        pending.current.add(requestId);
+        request(requestId);
+    };
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || !pending.current.delete(message.requestId)) return;
+
+            switch (message.type) {
+                case 'tableProfile':
+                    setProfile(message.profile);
+                    break;
+                case 'tableProfileError':
+                    setError(message.error);
+                    break;
+                case 'columnProfileHistory':
+                    setHistories(previous => ({ ...previous, [message.columnFqn]: { history: message.history } }));
+                    break;
+                case 'columnProfileHistoryError':
+                    setHistories(previous => ({ ...previous, [message.columnFqn]: { error: message.error } }));
+                    break;
+                case 'tableAnalysis':
+                    setAnalysis(message.analysis);
+                    setAnalyzing(false);
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        send(requestId => postToHost({ type: 'getTableProfile', requestId, fqn }));
+
+        const requests = pending.current;
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            requests.forEach(requestId => postToHost({ type: 'cancel', requestId }));
+            requests.clear();
+        };
+    }, [fqn]);
+
+    const toggleColumn = (column: TableProfile['columns'][number]) => {
+        const key = column.fullyQualifiedName || column.name;
+        setExpanded(expanded === key ? null : key);
+        if (column.fullyQualifiedName && !histories[column.fullyQualifiedName]) {
+            send(requestId => postToHost({ type: 'getColumnProfileHistory', requestId, columnFqn: column.fullyQualifiedName! }));
+        }
+    };
+
+    const analyze = () => {
+        setAnalyzing(true);
+        setAnalysis(null);
+        send(requestId => postToHost({ type: 'analyzeTable', requestId, fqn }));
+    };
+
+    if (error) {
+        return <div className="error-message">❌ {error}</div>;
+    }
+
+    if (!profile) {
+        return (
+            <div className="lineage-loading-compact">
+                <div className="loading-spinner-compact"></div>
+                <span>Loading profile...</span>
+            </div>
+        );
+    }
+
+    const profiled = profile.timestamp !== undefined || profile.columns.length > 0;
+
+    return (
+        <div className="profile-view">
+            {!profiled ? (
+                <div className="detail-muted">This table has not been profiled yet.</div>
+            ) : (
+                <>
+                    <dl className="detail-facts">
+                        {profile.timestamp && <><dt>Last profiled</dt><dd>{new Date(profile.timestamp).toLocaleString()}</dd></>}
+                        {profile.rowCount !== undefined && <><dt>Rows</dt><dd>{number(profile.rowCount)}</dd></>}
+                        {profile.columnCount !== undefined && <><dt>Columns</dt><dd>{number(profile.columnCount)}</dd></>}
+                        {profile.sizeInBytes !== undefined && <><dt>Size</dt><dd>{formatBytes(profile.sizeInBytes)}</dd></>}
+                    </dl>
+
+                    {profile.rowCountHistory.length > 1 && (
+                        <div className="detail-section">
+                            <div className="detail-section-title">Row count, last 30 days</div>
+                            <Sparkline points={profile.rowCountHistory.map(p => ({ timestamp: p.timestamp, value: p.rowCount }))} />
+                        </div>
+                    )}
+
+                    {profile.columns.length > 0 && (
+                        <div className="detail-section">
+                            <div className="detail-section-title">Columns</div>
+                            <table className="column-table profile-table">
+                                <thead>
+                                    <tr>
+                                        <th>Column</th>
+                                        <th>Null</th>
+                                        <th>Distinct</th>
+                                        <th>Min</th>
+                                        <th>Max</th>
+                                        <th>Mean</th>
+                                        <th>Profiled</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {profile.columns.map(column => {
+                                        const key = column.fullyQualifiedName || column.name;
+                                        return (
+                                            <React.Fragment key={key}>
+                                                <tr className="profile-row" onClick={() => toggleColumn(column)}>
+                                                    <td className="column-name-cell">
+                                                        <span className="column-expand-spacer">{expanded === key ? '▾' : '▸'}</span>
+                                                        {column.name}
+                                                    </td>
+                                                    <td>{percent(column.nullProportion)}</td>
+                                                    <td>{number(column.distinctCount)}</td>
+                                                    <td>{metric(column.min)}</td>
+                                                    <td>{metric(column.max)}</td>
+                                                    <td>{metric(column.mean)}</td>
+                                                    <td>{column.timestamp ? new Date(column.timestamp).toLocaleDateString() : ''}</td>
+                                                </tr>
+                                                {expanded === key && (
+                                                    <tr>
+                                                        <td colSpan={7}>
+                                                            <ColumnProfileDetails
+                                                                column={column}
+                                                                history={column.fullyQualifiedName ? histories[column.fullyQualifiedName] : { history: [] }}
+                                                            />
+                                                        </td>
+                                                    </tr>
+                                                )}
+                                            </React.Fragment>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+
+            <div className="detail-section">
+                <button className="action-button" onClick={analyze} disabled={analyzing}>
+                    {analyzing ? '🤖 Analyzing...' : '🤖 Analyze with AI'}
+                </button>
+                {analysis && <div className="profile-analysis">{analysis}</div>}
+            </div>
+        </div>
+    );
+};
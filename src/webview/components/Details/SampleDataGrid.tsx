@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createRequestId, isHostMessage, SampleData, SampleValue } from '../../../shared/protocol';
+import { postToHost } from '../../vscodeApi';
+
+interface SampleDataGridProps {
+    fqn: string;
+}
+
+type SortState = { column: number; descending: boolean } | null;
+
+const display = (value: SampleValue) => value === null ? '' : String(value);
+
+const compareValues = (a: SampleValue, b: SampleValue) => {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return display(a).localeCompare(display(b), undefined, { numeric: true });
+};
+
+const csvCell = (value: SampleValue) => {
+    const text = display(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const markdownCell = (value: SampleValue) => display(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const toCsv = (sample: SampleData, rows: SampleValue[][]) =>
+    [sample.columns.map(column => csvCell(column.name)), ...rows.map(row => row.map(csvCell))]
+        .map(cells => cells.join(','))
+        .join('\n');
+
+const toMarkdown = (sample: SampleData, rows: SampleValue[][]) => [
+    `| ${sample.columns.map(column => markdownCell(column.name)).join(' | ')} |`,
+    `| ${sample.columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`)
+].join('\n');
+
+/**
+ * Sample rows of a table as a sortable grid. Columns tagged as sensitive have
+ * already been removed by the extension host.
+ */
+export const SampleDataGrid: React.FC<SampleDataGridProps> = ({ fqn }) => {
+    const [sample, setSample] = useState<SampleData | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [sort, setSort] = useState<SortState>(null);
+    const requestId = useRef<string | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || message.requestId !== requestId.current) return;
+
+            if (message.type === 'sampleData') {
+                requestId.current = null;
+                setSample(message.sampleData);
+            } else if (message.type === 'sampleDataError') {
+                requestId.current = null;
+                setError(message.error);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        const id = createRequestId();
+        requestId.current = id;
+        postToHost({ type: 'getSampleData', requestId: id, fqn });
+
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            if (requestId.current) {
+                postToHost({ type: 'cancel', requestId: requestId.current });
+                requestId.current = null;
+            }
+        };
+    }, [fqn]);
+
+    const rows = useMemo(() => {
+        if (!sample || !sort) return sample?.rows || [];
+        // Nulls stay last in both directions
+        return [...sample.rows].sort((a, b) => {
+            const left = a[sort.column];
+            const right = b[sort.column];
+            if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+            return sort.descending ? compareValues(right, left) : compareValues(left, right);
+        });
+    }, [sample, sort]);
+
+    const toggleSort = (column: number) => setSort(previous =>
+        previous?.column !== column ? { column, descending: false }
+            : !previous.descending ? { column, descending: true }
+                : null);
+
+    if (error) {
+        return <div className="error-message">❌ {error}</div>;
+    }
+
+    if (!sample) {
+        return (
+            <div className="lineage-loading-compact">
+                <div className="loading-spinner-compact"></div>
+                <span>Loading sample data...</span>
+            </div>
+        );
+    }
+
+    const excluded = sample.excludedColumns.length > 0 && (
+        <div className="detail-muted">
+            Hidden as sensitive: {sample.excludedColumns.join(', ')}
+        </div>
+    );
+
+    if (sample.rows.length === 0) {
+        return (
+            <div className="sample-data">
+                <div className="detail-muted">No sample data ingested for this table. Enable sample data in the profiler ingestion to see rows here.</div>
+                {excluded}
+            </div>
+        );
+    }
+
+    return (
+        <div className="sample-data">
+            <div className="sample-data-toolbar">
+                <span className="detail-muted">{sample.rows.length} sample rows</span>
+                <button
+                    className="action-button"
+                    onClick={() => postToHost({ type: 'copyToClipboard', text: toCsv(sample, rows), label: 'Sample data as CSV' })}
+                >
+                    Copy CSV
+                </button>
+                <button
+                    className="action-button"
+                    onClick={() => postToHost({ type: 'copyToClipboard', text: toMarkdown(sample, rows), label: 'Sample data as Markdown' })}
+                >
+                    Copy Markdown
+                </button>
+            </div>
+            {excluded}
+
+            <div className="sample-data-scroll">
+                <table className="sample-data-table">
+                    <thead>
+                        <tr>
+                            {sample.columns.map((column, index) => (
+                                <th
+                                    key={column.name}
+                                    onClick={() => toggleSort(index)}
+                                    aria-sort={sort?.column === index ? (sort.descending ? 'descending' : 'ascending') : 'none'}
+                                    title={`Sort by ${column.name}`}
+                                >
+                                    <span className="sample-column-name">
+                                        {column.name}
+                                        {sort?.column === index && (sort.descending ? ' ▾' : ' ▴')}
+                                    </span>
+                                    {column.dataType && <span className="sample-column-type">{column.dataType}</span>}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, rowIndex) => (
+                            <tr key={rowIndex}>
+                                {row.map((value, index) => (
+                                    <td key={index} className={value === null ? 'sample-null' : undefined} title={display(value)}>
+                                        {value === null ? 'null' : display(value)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createRequestId, isHostMessage, TableUsage, UsageStats } from '../../../shared/protocol';
+import { postToHost } from '../../vscodeApi';
+import { Sparkline } from './Charts';
+
+const formatStats = (stats?: UsageStats) => {
+    if (!stats) return undefined;
+    const rank = stats.percentileRank !== undefined ? ` · busier than ${Math.round(stats.percentileRank)}% of tables` : '';
+    return `${stats.count.toLocaleString()} queries${rank}`;
+};
+
+/**
+ * How much a table is queried, its most used recent queries and the tables it
+ * is joined with in them.
+ */
+export const UsageView: React.FC<{ fqn: string }> = ({ fqn }) => {
+    const [usage, setUsage] = useState<TableUsage | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const requestId = useRef<string | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || message.requestId !== requestId.current) return;
+
+            if (message.type === 'tableUsage') {
+                requestId.current = null;
+                setUsage(message.usage);
+            } else if (message.type === 'tableUsageError') {
+                requestId.current = null;
+                setError(message.error);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        const id = createRequestId();
+        requestId.current = id;
+        postToHost({ type: 'getTableUsage', requestId: id, fqn });
+
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            if (requestId.current) {
+                postToHost({ type: 'cancel', requestId: requestId.current });
+                requestId.current = null;
+            }
+        };
+    }, [fqn]);
+
+    if (error) {
+        return <div className="error-message">❌ {error}</div>;
+    }
+
+    if (!usage) {
+        return (
+            <div className="lineage-loading-compact">
+                <div className="loading-spinner-compact"></div>
+                <span>Loading usage...</span>
+            </div>
+        );
+    }
+
+    if (!usage.summary && usage.queries.length === 0) {
+        return <div className="detail-muted">No usage has been collected for this table. Usage and queries appear once usage ingestion runs.</div>;
+    }
+
+    return (
+        <div className="usage-view">
+            <dl className="detail-facts">
+                {usage.summary?.daily && <><dt>Last day</dt><dd>{formatStats(usage.summary.daily)}</dd></>}
+                {usage.summary?.weekly && <><dt>Last week</dt><dd>{formatStats(usage.summary.weekly)}</dd></>}
+                {usage.summary?.monthly && <><dt>Last month</dt><dd>{formatStats(usage.summary.monthly)}</dd></>}
+            </dl>
+
+            {usage.history.length > 1 && (
+                <div className="detail-section">
+                    <div className="detail-section-title">Queries per day, last 30 days</div>
+                    <Sparkline points={usage.history.map(day => ({ timestamp: Date.parse(day.date), value: day.count }))} />
+                </div>
+            )}
+
+            {usage.joinPartners.length > 0 && (
+                <div className="detail-section">
+                    <div className="detail-section-title">Joined with</div>
+                    <ul className="detail-list">
+                        {usage.joinPartners.map(partner => (
+                            <li key={partner.table}>
+                                {partner.table} <span className="detail-muted">({partner.queries} quer{partner.queries === 1 ? 'y' : 'ies'})</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {usage.queries.length > 0 && (
+                <div className="detail-section">
+                    <div className="detail-section-title">Frequent queries</div>
+                    {usage.queries.map(query => (
+                        <div key={query.id} className="usage-query">
+                            <pre className="usage-query-sql" title={query.query}>{query.query}</pre>
+                            <div className="usage-query-meta">
+                                <span className="detail-muted" title={query.users.join(', ')}>
+                                    {[
+                                        query.users.length > 0 && `${query.users.length} user${query.users.length !== 1 ? 's' : ''}`,
+                                        query.queryDate && new Date(query.queryDate).toLocaleDateString(),
+                                        query.duration !== undefined && `${query.duration.toLocaleString()} s`,
+                                        query.votes && `👍 ${query.votes}`
+                                    ].filter(Boolean).join(' · ')}
+                                </span>
+                                <button className="action-button" onClick={() => postToHost({ type: 'openQuery', sql: query.query })}>
+                                    Open in SQL editor
+                                </button>
+                                <button
+                                    className="action-button"
+                                    onClick={() => postToHost({ type: 'copyToClipboard', text: query.query, label: 'Query' })}
+                                >
+                                    Copy
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createRequestId, EntityType, EntityVersion, FieldChange, isHostMessage } from '../../../shared/protocol';
+import { postToHost } from '../../vscodeApi';
+
+interface VersionHistoryProps {
+    fqn: string;
+    name: string;
+    entityType: EntityType;
+}
+
+const CHANGE_MARKS: Record<FieldChange['kind'], string> = {
+    added: '+',
+    updated: '~',
+    deleted: '−'
+};
+
+const describeChange = (change: FieldChange) => {
+    if (change.kind === 'updated') {
+        return `${change.field}: ${change.oldValue ?? '(empty)'} → ${change.newValue ?? '(empty)'}`;
+    }
+    const value = change.kind === 'added' ? change.newValue : change.oldValue;
+    return value ? `${change.field}: ${value}` : change.field;
+};
+
+/**
+ * Versions of an entity with their recorded changes. Any two versions can be
+ * compared in VS Code's diff editor or summarized by the LLM.
+ */
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ fqn, name, entityType }) => {
+    const [versions, setVersions] = useState<EntityVersion[] | null>(null);
+    const [entityId, setEntityId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [fromVersion, setFromVersion] = useState<number | null>(null);
+    const [toVersion, setToVersion] = useState<number | null>(null);
+    const [summary, setSummary] = useState<string | null>(null);
+    const [summarizing, setSummarizing] = useState(false);
+    const pending = useRef(new Set<string>());
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || !pending.current.delete(message.requestId)) return;
+
+            switch (message.type) {
+                case 'entityVersions':
+                    setEntityId(message.entityId);
+                    setVersions(message.versions);
+                    // Newest first: compare the latest version with the one before it
+                    setToVersion(message.versions[0]?.version ?? null);
+                    setFromVersion(message.versions[1]?.version ?? null);
+                    break;
+                case 'entityVersionsError':
+                    setError(message.error);
+                    break;
+                case 'versionSummary':
+                    setSummary(message.summary);
+                    setSummarizing(false);
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        const requestId = createRequestId();
+        pending.current.add(requestId);
+        postToHost({ type: 'getEntityVersions', requestId, fqn, entityType });
+
+        const requests = pending.current;
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            requests.forEach(id => postToHost({ type: 'cancel', requestId: id }));
+            requests.clear();
+        };
+    }, [fqn, entityType]);
+
+    const openDiff = (from: number, to: number) => {
+        if (entityId) {
+            postToHost({ type: 'openVersionDiff', entityType, entityId, name, fromVersion: from, toVersion: to });
+        }
+    };
+
+    const summarize = () => {
+        if (!entityId || fromVersion === null || toVersion === null) return;
+        const requestId = createRequestId();
+        pending.current.add(requestId);
+        setSummarizing(true);
+        setSummary(null);
+        postToHost({ type: 'summarizeVersionChange', requestId, entityType, entityId, fromVersion, toVersion });
+    };
+
+    if (error) {
+        return <div className="error-message">❌ {error}</div>;
+    }
+
+    if (!versions) {
+        return (
+            <div className="lineage-loading-compact">
+                <div className="loading-spinner-compact"></div>
+                <span>Loading version history...</span>
+            </div>
+        );
+    }
+
+    // Older versions on the left, as in the diff editor
+    const range = fromVersion !== null && toVersion !== null && fromVersion < toVersion;
+
+    return (
+        <div className="version-history">
+            {versions.length > 1 && (
+                <div className="version-compare">
+                    <span>Compare</span>
+                    <select className="facet-select" value={fromVersion ?? ''} onChange={(e) => setFromVersion(Number(e.target.value))}>
+                        {versions.map(version => <option key={version.version} value={version.version}>v{version.version}</option>)}
+                    </select>
+                    <span>with</span>
+                    <select className="facet-select" value={toVersion ?? ''} onChange={(e) => setToVersion(Number(e.target.value))}>
+                        {versions.map(version => <option key={version.version} value={version.version}>v{version.version}</option>)}
+                    </select>
+                    <button className="action-button" disabled={!range} onClick={() => range && openDiff(fromVersion!, toVersion!)}>
+                        Open diff
+                    </button>
+                    <button className="action-button" disabled={!range || summarizing} onClick={summarize}>
+                        {summarizing ? '🤖 Summarizing...' : '🤖 Summarize changes'}
+                    </button>
+                </div>
+            )}
+
+            {summary && <div className="profile-analysis">{summary}</div>}
+
+            <ol className="version-list">
+                {versions.map((version, index) => {
+                    const previous = versions[index + 1];
+                    return (
+                        <li key={version.version} className="version-item">
+                            <div className="version-header">
+                                <span className="version-number">v{version.version}</span>
+                                <span className="detail-muted">
+                                    {version.updatedAt && new Date(version.updatedAt).toLocaleString()}
+                                    {version.updatedBy && ` by ${version.updatedBy}`}
+                                </span>
+                                {previous && (
+                                    <button
+                                        className="action-button"
+                                        onClick={() => openDiff(previous.version, version.version)}
+                                        title={`Compare with v${previous.version}`}
+                                    >
+                                        Diff
+                                    </button>
+                                )}
+                            </div>
+                            {version.changes.length > 0 ? (
+                                <ul className="version-changes">
+                                    {version.changes.map((change, changeIndex) => (
+                                        <li key={changeIndex} className={`version-change ${change.kind}`}>
+                                            <span className="version-change-mark">{CHANGE_MARKS[change.kind]}</span>
+                                            {describeChange(change)}
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <div className="detail-muted">{previous ? 'No changes recorded' : 'Created'}</div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
@@ -1,67 +1,53 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
+import { StartSuggestions, Suggestion } from '../../shared/protocol';
 
 interface DynamicSuggestionsProps {
+    // From the connected catalog; null until the host has answered
+    suggestions: StartSuggestions | null;
     onSuggestionClick?: (suggestion: string) => void;
+    // Searches tables whose latest test run failed
+    onFailingTestsClick?: () => void;
 }
 
-export const DynamicSuggestions: React.FC<DynamicSuggestionsProps> = ({ onSuggestionClick }) => {
-    const suggestions = [
-        "What customer information do I have?",
-        "Show me all sales related tables",
-        "Find tables containing user data",
-        "What payment methods are stored?",
-        "Show me order tracking tables",
-        "Find customer behavior analytics",
-        "What product information is available?",
-        "Show me inventory management data",
-        "Find marketing campaign tables",
-        "What financial reporting data exists?",
-        "Show me user activity logs",
-        "Find data quality issues in my tables"
-    ];
+export const DynamicSuggestions: React.FC<DynamicSuggestionsProps> = ({ suggestions, onSuggestionClick, onFailingTestsClick }) => {
+    const sections: { label: string; items: (string | Suggestion)[] }[] = suggestions ? [
+        { label: 'Recent', items: suggestions.recentSearches },
+        { label: 'Popular', items: suggestions.popular },
+        { label: 'Recently updated', items: suggestions.recentlyUpdated }
+    ].filter(section => section.items.length > 0) : [];
 
-    const [currentIndex, setCurrentIndex] = useState(0);
-    const [isVisible, setIsVisible] = useState(true);
-
-    useEffect(() => {
-        let interval: NodeJS.Timeout;
-        let timeout: NodeJS.Timeout;
-
-        const startRotation = () => {
-            interval = setInterval(() => {
-                // Start fade out
-                setIsVisible(false);
-                
-                // After fade out completes, change text and fade in
-                timeout = setTimeout(() => {
-                    setCurrentIndex((prevIndex) => (prevIndex + 1) % suggestions.length);
-                    setIsVisible(true);
-                }, 300); // 300ms for fade out duration
-            }, 5000); // 5 seconds
-        };
-
-        startRotation();
-
-        return () => {
-            if (interval) clearInterval(interval);
-            if (timeout) clearTimeout(timeout);
-        };
-    }, [suggestions.length]);
-
-    const handleSuggestionClick = () => {
-        if (onSuggestionClick) {
-            onSuggestionClick(suggestions[currentIndex]);
-        }
-    };
+    if (sections.length === 0 && !onFailingTestsClick) {
+        return null;
+    }
 
     return (
         <div className="dynamic-suggestions-header">
-            <div 
-                className={`suggestion-text ${isVisible ? 'visible' : 'hidden'}`}
-                onClick={handleSuggestionClick}
-            >
-                {suggestions[currentIndex]}
-            </div>
+            {sections.map(section => (
+                <div key={section.label} className="suggestion-row">
+                    <span className="suggestion-row-label">{section.label}:</span>
+                    {section.items.map((item, index) => {
+                        const text = typeof item === 'string' ? item : item.value;
+                        return (
+                            <span
+                                key={index}
+                                className="suggestion-text"
+                                onClick={() => onSuggestionClick?.(text)}
+                                title={typeof item === 'string' ? undefined : item.detail}
+                            >
+                                {typeof item === 'string' ? item : item.label}
+                            </span>
+                        );
+                    })}
+                </div>
+            ))}
+            {onFailingTestsClick && (
+                <div className="suggestion-row">
+                    <span className="suggestion-row-label">Shortcuts:</span>
+                    <span className="suggestion-text" onClick={onFailingTestsClick} title="Tables whose latest data quality test run failed">
+                        Tables with failing tests
+                    </span>
+                </div>
+            )}
         </div>
     );
-};
\ No newline at end of file
+};
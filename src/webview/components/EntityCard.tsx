@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import {
+    ApiEndpointResult,
+    ContainerResult,
+    DashboardResult,
+    ENTITY_TYPE_LABELS,
+    EntityResult,
+    EntityType,
+    GlossaryTermResult,
+    hasLineage,
+    MlModelResult,
+    PipelineResult,
+    SearchIndexResult,
+    StoredProcedureResult,
+    TopicResult
+} from '../../shared/protocol';
+import { TableCard } from './TableCard';
+
+interface EntityCardProps<T extends EntityResult = EntityResult> {
+    entity: T;
+    onViewLineage?: (fqn: string, name: string, entityType: EntityType) => void;
+    onOpenDetails?: (fqn: string, name: string, entityType: EntityType) => void;
+    showDetails?: boolean;
+    onToggleDetails?: (entityId: string) => void;
+}
+
+interface CardShellProps extends EntityCardProps {
+    // Short facts shown under the name, e.g. "12 charts"
+    metadata: (string | undefined)[];
+    // Content of the expandable details section; no Details button without it
+    details?: React.ReactNode;
+}
+
+const formatDate = (value?: string | number) => {
+    if (!value) return undefined;
+    try {
+        return new Date(value).toLocaleDateString();
+    } catch {
+        return undefined;
+    }
+};
+
+const count = (n: number | undefined, noun: string) =>
+    n ? `${n} ${noun}${n !== 1 ? 's' : ''}` : undefined;
+
+// Common layout for all non-table entities, matching TableCard
+const CardShell: React.FC<CardShellProps> = ({ entity, onViewLineage, onOpenDetails, showDetails, onToggleDetails, metadata, details }) => {
+    const [localShowDetails, setLocalShowDetails] = useState(false);
+    const detailsVisible = onToggleDetails ? !!showDetails : localShowDetails;
+    const toggleDetails = () => onToggleDetails ? onToggleDetails(entity.id) : setLocalShowDetails(!localShowDetails);
+    const facts = [...metadata, formatDate(entity.updatedAt)].filter(Boolean);
+
+    return (
+        <div className={`table-card-compact entity-card ${entity.entityType}`}>
+            <div className="table-card-main">
+                <div className="table-info">
+                    <div className="table-name-compact">
+                        <span className="entity-type-badge">{ENTITY_TYPE_LABELS[entity.entityType]}</span>
+                        <span className="table-name-text">{entity.displayName || entity.name}</span>
+                        {entity.service && (
+                            <span className="table-path-compact">
+                                <span className="database">{entity.service}</span>
+                            </span>
+                        )}
+                    </div>
+                    {entity.description && (
+                        <div className="table-description-compact">{entity.description}</div>
+                    )}
+                </div>
+
+                <div className="table-actions-compact">
+                    {onOpenDetails && (
+                        <button
+                            className="action-button open"
+                            onClick={() => onOpenDetails(entity.fullyQualifiedName, entity.name, entity.entityType)}
+                            title="Show all details"
+                        >
+                            Open
+                        </button>
+                    )}
+                    {onViewLineage && hasLineage(entity.entityType) && (
+                        <button
+                            className="action-button lineage"
+                            onClick={() => onViewLineage(entity.fullyQualifiedName, entity.name, entity.entityType)}
+                            title="View data lineage"
+                        >
+                            Lineage
+                        </button>
+                    )}
+                    {details && (
+                        <button
+                            className={`action-button details ${detailsVisible ? 'active' : ''}`}
+                            onClick={toggleDetails}
+                            title="Toggle details"
+                        >
+                            ▼ Details
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="table-metadata-compact">
+                {facts.map((fact, index) => (
+                    <React.Fragment key={index}>
+                        {index > 0 && <div className="metadata-separator">•</div>}
+                        <div className="metadata-item">
+                            <span className="metadata-value">{fact}</span>
+                        </div>
+                    </React.Fragment>
+                ))}
+                {entity.tags && entity.tags.length > 0 && (
+                    <>
+                        {facts.length > 0 && <div className="metadata-separator">•</div>}
+                        <div className="table-tags-compact">
+                            {entity.tags.slice(0, 2).map((tag, index) => (
+                                <span key={index} className="tag-compact">
+                                    {tag}
+                                </span>
+                            ))}
+                            {entity.tags.length > 2 && (
+                                <span className="tag-compact more">+{entity.tags.length - 2}</span>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {details && detailsVisible && (
+                <div className="table-details-compact">{details}</div>
+            )}
+        </div>
+    );
+};
+
+// Names of charts, tasks, fields etc. laid out like table columns
+const NameGrid: React.FC<{ names?: string[]; empty: string }> = ({ names, empty }) => {
+    const [showAll, setShowAll] = useState(false);
+
+    if (!names || names.length === 0) {
+        return <div className="no-columns-compact">{empty}</div>;
+    }
+
+    return (
+        <div className="columns-grid">
+            {(showAll ? names : names.slice(0, 8)).map((name, index) => (
+                <div key={index} className="column-item-compact" title={name}>
+                    <span className="column-name-compact">{name}</span>
+                </div>
+            ))}
+            {names.length > 8 && (
+                <div
+                    className="column-item-compact more-columns-compact clickable"
+                    onClick={() => setShowAll(!showAll)}
+                >
+                    {showAll ? 'Show less' : `+${names.length - 8} more`}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const DashboardCard: React.FC<EntityCardProps<DashboardResult>> = (props) => (
+    <CardShell
+        {...props}
+        metadata={[props.entity.dashboardType, count(props.entity.charts?.length, 'chart')]}
+        details={<NameGrid names={props.entity.charts} empty="No charts" />}
+    />
+);
+
+export const PipelineCard: React.FC<EntityCardProps<PipelineResult>> = (props) => (
+    <CardShell
+        {...props}
+        metadata={[count(props.entity.tasks?.length, 'task')]}
+        details={<NameGrid names={props.entity.tasks} empty="No tasks" />}
+    />
+);
+
+export const TopicCard: React.FC<EntityCardProps<TopicResult>> = (props) => (
+    <CardShell
+        {...props}
+        metadata={[count(props.entity.partitions, 'partition'), props.entity.messageSchemaType]}
+        details={<NameGrid names={props.entity.schemaFields} empty="No message schema" />}
+    />
+);
+
+export const MlModelCard: React.FC<EntityCardProps<MlModelResult>> = (props) => (
+    <CardShell
+        {...props}
+        metadata={[props.entity.algorithm, count(props.entity.features?.length, 'feature')]}
+        details={<NameGrid names={props.entity.features} empty="No features" />}
+    />
+);
+
+export const ContainerCard: React.FC<EntityCardProps<ContainerResult>> = (props) => (
+    <CardShell
+        {...props}
+        metadata={[props.entity.prefix, props.entity.fileFormats?.join(', '), count(props.entity.columns?.length, 'col')]}
+        details={props.entity.columns && (
+            <NameGrid names={props.entity.columns.map(column => column.name)} empty="No data model" />
+        )}
+    />
+);
+
+export const StoredProcedureCard: React.FC<EntityCardProps<StoredProcedureResult>> = (props) => (
+    <CardShell
+        {...props}
+        metadata={[
+            props.entity.language,
+            [props.entity.database, props.entity.schema].filter(Boolean).join('.') || undefined
+        ]}
+        details={props.entity.code && <pre className="entity-code">{props.entity.code}</pre>}
+    />
+);
+
+export const SearchIndexCard: React.FC<EntityCardProps<SearchIndexResult>> = (props) => (
+    <CardShell
+        {...props}
+        metadata={[count(props.entity.fields?.length, 'field')]}
+        details={<NameGrid names={props.entity.fields} empty="No fields" />}
+    />
+);
+
+export const ApiEndpointCard: React.FC<EntityCardProps<ApiEndpointResult>> = (props) => (
+    <CardShell
+        {...props}
+        metadata={[props.entity.requestMethod, props.entity.endpointUrl]}
+    />
+);
+
+export const GlossaryTermCard: React.FC<EntityCardProps<GlossaryTermResult>> = (props) => (
+    <CardShell
+        {...props}
+        metadata={[props.entity.glossary, count(props.entity.synonyms?.length, 'synonym')]}
+        details={props.entity.synonyms && props.entity.synonyms.length > 0 && (
+            <NameGrid names={props.entity.synonyms} empty="No synonyms" />
+        )}
+    />
+);
+
+// Picks the card for the entity's type
+export const EntityCard: React.FC<EntityCardProps> = ({ entity, ...props }) => {
+    switch (entity.entityType) {
+        case 'dashboard': return <DashboardCard entity={entity} {...props} />;
+        case 'pipeline': return <PipelineCard entity={entity} {...props} />;
+        case 'topic': return <TopicCard entity={entity} {...props} />;
+        case 'mlmodel': return <MlModelCard entity={entity} {...props} />;
+        case 'container': return <ContainerCard entity={entity} {...props} />;
+        case 'storedProcedure': return <StoredProcedureCard entity={entity} {...props} />;
+        case 'searchIndex': return <SearchIndexCard entity={entity} {...props} />;
+        case 'apiEndpoint': return <ApiEndpointCard entity={entity} {...props} />;
+        case 'glossaryTerm': return <GlossaryTermCard entity={entity} {...props} />;
+        default:
+            return (
+                <TableCard
+                    table={entity}
+                    showDetails={props.showDetails}
+                    onToggleDetails={props.onToggleDetails}
+                    onViewLineage={props.onViewLineage && ((fqn, name) => props.onViewLineage!(fqn, name, 'table'))}
+                    onOpenDetails={props.onOpenDetails && ((fqn, name) => props.onOpenDetails!(fqn, name, 'table'))}
+                />
+            );
+    }
+};
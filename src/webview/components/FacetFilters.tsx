@@ -0,0 +1,76 @@
+import React from 'react';
+import { Facet, FACET_LABELS, FacetField, SearchFilters } from '../../shared/protocol';
+
+interface FacetFiltersProps {
+    facets: Facet[];
+    filters: SearchFilters;
+    onFiltersChange: (filters: SearchFilters) => void;
+}
+
+export const FacetFilters: React.FC<FacetFiltersProps> = ({ facets, filters, onFiltersChange }) => {
+    const active = (Object.keys(FACET_LABELS) as FacetField[])
+        .flatMap(field => (filters[field] || []).map(value => ({ field, value })));
+
+    if (facets.length === 0 && active.length === 0) {
+        return null;
+    }
+
+    const addFilter = (field: FacetField, value: string) => {
+        onFiltersChange({ ...filters, [field]: [...(filters[field] || []), value] });
+    };
+
+    const removeFilter = (field: FacetField, value: string) => {
+        const remaining = (filters[field] || []).filter(v => v !== value);
+        const next = { ...filters, [field]: remaining };
+        if (remaining.length === 0) {
+            delete next[field];
+        }
+        onFiltersChange(next);
+    };
+
+    return (
+        <div className="facet-filters">
+            {facets.map(facet => {
+                const selected = filters[facet.field] || [];
+                const options = facet.buckets.filter(bucket => !selected.includes(bucket.value));
+                if (options.length === 0) return null;
+
+                return (
+                    <select
+                        key={facet.field}
+                        className="facet-select"
+                        value=""
+                        onChange={(e) => e.target.value && addFilter(facet.field, e.target.value)}
+                        title={`Filter by ${FACET_LABELS[facet.field].toLowerCase()}`}
+                    >
+                        <option value="">{FACET_LABELS[facet.field]}</option>
+                        {options.map(bucket => (
+                            <option key={bucket.value} value={bucket.value}>
+                                {bucket.value} ({bucket.count})
+                            </option>
+                        ))}
+                    </select>
+                );
+            })}
+
+            {active.map(({ field, value }) => (
+                <span key={`${field}:${value}`} className="filter-chip">
+                    <span className="filter-chip-label">{FACET_LABELS[field]}:</span> {value}
+                    <button
+                        className="filter-chip-remove"
+                        onClick={() => removeFilter(field, value)}
+                        title="Remove filter"
+                    >
+                        ×
+                    </button>
+                </span>
+            ))}
+
+            {active.length > 1 && (
+                <button className="filter-clear-button" onClick={() => onFiltersChange({})}>
+                    Clear filters
+                </button>
+            )}
+        </div>
+    );
+};
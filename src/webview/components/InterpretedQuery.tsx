@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ENTITY_TYPE_LABELS, FACET_LABELS, FacetField, StructuredQuery } from '../../shared/protocol';
+
+interface InterpretedQueryProps {
+    query: StructuredQuery;
+    // Runs the search again with the edited interpretation
+    onChange: (query: StructuredQuery) => void;
+    // Runs the original text as a plain keyword search
+    onUseKeywords: () => void;
+}
+
+const isEmpty = (query: StructuredQuery) =>
+    query.terms.length === 0 && !query.entityTypes?.length && !query.filters
+    && !query.updatedAfter && !query.updatedBefore;
+
+// Shows how the LLM read a question, as chips that can be edited or removed
+export const InterpretedQuery: React.FC<InterpretedQueryProps> = ({ query, onChange, onUseKeywords }) => {
+    const [editingTerm, setEditingTerm] = useState<number | null>(null);
+    const [draft, setDraft] = useState('');
+
+    const update = (next: StructuredQuery) => {
+        setEditingTerm(null);
+        if (isEmpty(next)) {
+            onUseKeywords();
+        } else {
+            onChange(next);
+        }
+    };
+
+    const editTerm = (index: number) => {
+        setEditingTerm(index);
+        setDraft(query.terms[index]);
+    };
+
+    const commitTerm = () => {
+        if (editingTerm === null) return;
+        const value = draft.trim();
+        if (value === query.terms[editingTerm]) {
+            setEditingTerm(null);
+            return;
+        }
+        update({
+            ...query,
+            terms: value
+                ? query.terms.map((term, index) => index === editingTerm ? value : term)
+                : query.terms.filter((_, index) => index !== editingTerm)
+        });
+    };
+
+    const removeFilter = (field: FacetField, value: string) => {
+        const filters = { ...query.filters, [field]: (query.filters?.[field] || []).filter(v => v !== value) };
+        if (filters[field]!.length === 0) {
+            delete filters[field];
+        }
+        update({ ...query, filters: Object.keys(filters).length > 0 ? filters : undefined });
+    };
+
+    const removeChip = (label: string, onRemove: () => void) => (
+        <button className="filter-chip-remove" onClick={onRemove} title={`Remove ${label}`}>
+            ×
+        </button>
+    );
+
+    return (
+        <div className="interpreted-query">
+            <span className="interpreted-query-label">Searched for</span>
+
+            {query.terms.map((term, index) => editingTerm === index ? (
+                <input
+                    key={`term:${index}`}
+                    className="interpreted-term-input"
+                    value={draft}
+                    autoFocus
+                    onChange={(e) => setDraft(e.target.value)}
+                    onBlur={commitTerm}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitTerm();
+                        if (e.key === 'Escape') setEditingTerm(null);
+                    }}
+                />
+            ) : (
+                <span key={`term:${index}`} className="filter-chip interpreted-term">
+                    <span onClick={() => editTerm(index)} title="Click to edit">{term}</span>
+                    {removeChip('term', () => update({ ...query, terms: query.terms.filter((_, i) => i !== index) }))}
+                </span>
+            ))}
+
+            {query.entityTypes?.map(type => (
+                <span key={`type:${type}`} className="filter-chip">
+                    <span className="filter-chip-label">Type:</span> {ENTITY_TYPE_LABELS[type]}
+                    {removeChip('type', () => update({
+                        ...query,
+                        entityTypes: query.entityTypes!.filter(t => t !== type)
+                    }))}
+                </span>
+            ))}
+
+            {(Object.keys(query.filters || {}) as FacetField[]).flatMap(field =>
+                query.filters![field]!.map(value => (
+                    <span key={`${field}:${value}`} className="filter-chip">
+                        <span className="filter-chip-label">{FACET_LABELS[field]}:</span> {value}
+                        {removeChip('filter', () => removeFilter(field, value))}
+                    </span>
+                ))
+            )}
+
+            {query.updatedAfter && (
+                <span className="filter-chip">
+                    <span className="filter-chip-label">Updated after:</span> {query.updatedAfter}
+                    {removeChip('date', () => update({ ...query, updatedAfter: undefined }))}
+                </span>
+            )}
+            {query.updatedBefore && (
+                <span className="filter-chip">
+                    <span className="filter-chip-label">Updated before:</span> {query.updatedBefore}
+                    {removeChip('date', () => update({ ...query, updatedBefore: undefined }))}
+                </span>
+            )}
+
+            <button className="filter-clear-button" onClick={onUseKeywords} title="Search for the words as typed">
+                Use keywords
+            </button>
+        </div>
+    );
+};
@@ -5,42 +5,45 @@
  * http://www.apache.org/licenses/LICENSE-2.0
  */
 
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { createRequestId, EntityType, isEntityType, isHostMessage, LineageDirection, LineageGraph } from '../../../shared/protocol';
 import { EntityReference } from '../../../services/LineageService';
+import { Viewport } from 'reactflow';
+import { loadState, postToHost, saveState } from '../../vscodeApi';
 import LineageViewer from './LineageViewer';
 
-// Use the global VS Code API instance from App.tsx
-declare global {
-    interface Window {
-        vscodeApi?: any;
-    }
-}
-
 export interface LineageModalProps {
     tableFqn: string;
     tableName: string;
+    entityType: EntityType;
     isOpen: boolean;
     onClose: () => void;
+    // Clicking a node opens its details
+    onOpenDetails?: (fqn: string, name: string, entityType: EntityType) => void;
 }
 
 const LineageModal: React.FC<LineageModalProps> = ({
     tableFqn,
     tableName,
+    entityType,
     isOpen,
     onClose,
+    onOpenDetails,
 }) => {
-    // Use the global VS Code API instance
-    const vscode = window.vscodeApi;
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [lineageData, setLineageData] = useState<{
-        nodes: EntityReference[];
-        edges: any[];
-        centerNode: EntityReference;
-    } | null>(null);
+    const [lineageData, setLineageData] = useState<LineageGraph | null>(null);
+    // IDs of requests sent for the table currently shown; replies to anything else are stale
+    const pendingRequests = useRef<Set<string>>(new Set());
+
+    const sendRequest = useCallback((send: (requestId: string) => void) => {
+        const requestId = createRequestId();
+        pendingRequests.current.add(requestId);
+        send(requestId);
+    }, []);
 
     // Handle merging expanded lineage data with existing data
-    const handleExpandedLineageData = useCallback((expandedData: any, nodeId: string, direction: string) => {
+    const handleExpandedLineageData = useCallback((expandedData: LineageGraph, nodeId: string, direction: LineageDirection) => {
         if (!lineageData || !expandedData.nodes.length) {
             console.log('No additional lineage data found for node:', nodeId);
             return;
@@ -48,13 +51,13 @@ const LineageModal: React.FC<LineageModalProps> = ({
 
         // Merge nodes (avoid duplicates)
         const existingNodeIds = new Set(lineageData.nodes.map(n => n.id));
-        const newNodes = expandedData.nodes.filter((node: any) => !existingNodeIds.has(node.id));
+        const newNodes = expandedData.nodes.filter(node => !existingNodeIds.has(node.id));
         
         // Merge edges (avoid duplicates)
-        const existingEdgeKeys = new Set(lineageData.edges.map((e: any) => 
+        const existingEdgeKeys = new Set(lineageData.edges.map(e => 
             `${e.fromEntity.id}-${e.toEntity.id}`
         ));
-        const newEdges = expandedData.edges.filter((edge: any) => 
+        const newEdges = expandedData.edges.filter(edge => 
             !existingEdgeKeys.has(`${edge.fromEntity.id}-${edge.toEntity.id}`)
         );
 
@@ -70,27 +73,30 @@ const LineageModal: React.FC<LineageModalProps> = ({
 
     // Fetch lineage data when modal opens
     const fetchLineageData = useCallback(() => {
-        if (!tableFqn || !isOpen || !vscode) return;
+        if (!tableFqn || !isOpen) return;
 
         console.log('Fetching lineage data for:', tableFqn);
         setLoading(true);
         setError(null);
 
         // Request lineage data from the extension backend  
-        vscode.postMessage({
+        sendRequest(requestId => postToHost({
             type: 'getLineage',
+            requestId: requestId,
             tableFqn: tableFqn,
-            entityType: 'table'
-        });
-    }, [tableFqn, isOpen, vscode]);
+            entityType: entityType
+        }));
+    }, [tableFqn, entityType, isOpen, sendRequest]);
 
     // Handle messages from the extension
     useEffect(() => {
         const handleMessage = (event: MessageEvent) => {
             const message = event.data;
-            
-            // Only handle messages for this specific table
-            if (message.tableFqn !== tableFqn) return;
+            if (!isHostMessage(message) || !('requestId' in message)) return;
+
+            // Only handle replies to requests this modal made for the table it shows
+            if (!pendingRequests.current.has(message.requestId) || !('tableFqn' in message) || message.tableFqn !== tableFqn) return;
+            pendingRequests.current.delete(message.requestId);
             
             switch (message.type) {
                 case 'lineageData':
@@ -128,9 +134,12 @@ const LineageModal: React.FC<LineageModalProps> = ({
         if (isOpen) {
             fetchLineageData();
         } else {
-            // Reset state when modal closes
+            // Reset state when modal closes; requests still running on the host are cancelled
+            pendingRequests.current.forEach(requestId => postToHost({ type: 'cancel', requestId }));
+            pendingRequests.current.clear();
             setLineageData(null);
             setError(null);
+            saveState({ lineageViewport: undefined });
         }
     }, [isOpen, fetchLineageData]);
 
@@ -164,44 +173,54 @@ const LineageModal: React.FC<LineageModalProps> = ({
         }
     }, [onClose]);
 
-    // Handle node click - could navigate to that table's details or lineage
+    // Nodes of types without a detail view, e.g. dashboard data models, are ignored
     const handleNodeClick = useCallback((node: EntityReference) => {
-        console.log('Clicked on node:', node);
-        // Future: Could open that node's lineage or navigate to its details
-        // For now, just log it
-    }, []);
+        if (onOpenDetails && isEntityType(node.type)) {
+            onOpenDetails(node.fullyQualifiedName, node.displayName || node.name, node.type);
+        }
+    }, [onOpenDetails]);
 
     // Handle expanding a node to get more lineage data
-    const handleExpandNode = useCallback((nodeId: string, direction: string) => {
-        if (!vscode) return;
-        
+    const handleExpandNode = useCallback((nodeId: string, direction: LineageDirection) => {
         console.log('Expanding node:', nodeId, 'in direction:', direction);
+
+        // Nodes can be of any type, e.g. a dashboard fed by the table
+        const node = lineageData?.nodes.find(n => (n.fullyQualifiedName || n.id) === nodeId);
+        const nodeType = node && isEntityType(node.type) ? node.type : entityType;
         
         // Request additional lineage data from the extension backend
-        vscode.postMessage({
+        sendRequest(requestId => postToHost({
             type: 'expandLineage',
+            requestId: requestId,
             tableFqn: tableFqn,
             nodeId: nodeId,
             direction: direction,
-            entityType: 'table'
-        });
-    }, [tableFqn, vscode]);
+            entityType: nodeType
+        }));
+    }, [tableFqn, entityType, lineageData, sendRequest]);
 
     // Handle collapsing a node
-    const handleCollapseNode = useCallback((nodeId: string, direction: string) => {
-        if (!vscode) return;
-        
+    const handleCollapseNode = useCallback((nodeId: string, direction: LineageDirection) => {
         console.log('Collapsing node:', nodeId, 'in direction:', direction);
         
         // For now, we'll handle collapse locally in the viewer
         // In the future, we might want to update the backend state too
-        vscode.postMessage({
+        sendRequest(requestId => postToHost({
             type: 'collapseLineage',
+            requestId: requestId,
             tableFqn: tableFqn,
             nodeId: nodeId,
             direction: direction
-        });
-    }, [tableFqn, vscode]);
+        }));
+    }, [tableFqn, sendRequest]);
+
+    const handleViewportChange = useCallback((viewport: Viewport) => {
+        saveState({ lineageViewport: { tableFqn, ...viewport } });
+    }, [tableFqn]);
+
+    // Viewport the user left this graph at before the webview was reloaded
+    const savedViewport = loadState().lineageViewport;
+    const initialViewport = savedViewport?.tableFqn === tableFqn ? savedViewport : undefined;
 
     if (!isOpen) return null;
 
@@ -251,6 +270,8 @@ const LineageModal: React.FC<LineageModalProps> = ({
                             onNodeClick={handleNodeClick}
                             onExpandNode={handleExpandNode}
                             onCollapseNode={handleCollapseNode}
+                            initialViewport={initialViewport}
+                            onViewportChange={handleViewportChange}
                         />
                     )}
 
@@ -17,10 +17,12 @@ import ReactFlow, {
     ReactFlowInstance,
     useEdgesState,
     useNodesState,
+    Viewport,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 
 import { EdgeDetails, EntityReference } from '../../../services/LineageService';
+import { LineageDirection } from '../../../shared/protocol';
 import CustomEdge from './CustomEdge';
 import LayersPanel from './LayersPanel';
 import LineageNode from './LineageNode';
@@ -42,8 +44,11 @@ export interface LineageViewerProps {
     loading?: boolean;
     onNodeClick?: (node: EntityReference) => void;
     onClose?: () => void;
-    onExpandNode?: (nodeId: string, direction: string) => void;
-    onCollapseNode?: (nodeId: string, direction: string) => void;
+    onExpandNode?: (nodeId: string, direction: LineageDirection) => void;
+    onCollapseNode?: (nodeId: string, direction: LineageDirection) => void;
+    // Shown instead of fitting the graph to the view, e.g. after a reload
+    initialViewport?: Viewport;
+    onViewportChange?: (viewport: Viewport) => void;
 }
 
 export interface LineageNodeData {
@@ -57,8 +62,8 @@ export interface LineageNodeData {
     downstreamHidden?: boolean;
     canExpandUpstream?: boolean;
     canExpandDownstream?: boolean;
-    onExpand?: (entity: EntityReference, direction: string) => void;
-    onCollapse?: (entity: EntityReference, direction: string) => void;
+    onExpand?: (entity: EntityReference, direction: LineageDirection) => void;
+    onCollapse?: (entity: EntityReference, direction: LineageDirection) => void;
 }
 
 const LineageViewer: React.FC<LineageViewerProps> = ({
@@ -70,6 +75,8 @@ const LineageViewer: React.FC<LineageViewerProps> = ({
     onClose,
     onExpandNode,
     onCollapseNode,
+    initialViewport,
+    onViewportChange,
 }) => {
     const [reactFlowNodes, setReactFlowNodes, onNodesChange] = useNodesState<LineageNodeData>([]);
     const [reactFlowEdges, setReactFlowEdges, onEdgesChange] = useEdgesState([]);
@@ -273,6 +280,10 @@ const LineageViewer: React.FC<LineageViewerProps> = ({
     const onInit = useCallback(
         (instance: ReactFlowInstance) => {
             setReactFlowInstance(instance);
+            if (initialViewport) {
+                instance.setViewport(initialViewport);
+                return;
+            }
             // OpenMetadata-style fitView - simple and effective
             setTimeout(() => {
                 instance.fitView({ 
@@ -286,6 +297,7 @@ const LineageViewer: React.FC<LineageViewerProps> = ({
                 }, 100);
             }, 200);
         },
+        // Only the viewport at mount time matters
         []
     );
 
@@ -301,7 +313,7 @@ const LineageViewer: React.FC<LineageViewerProps> = ({
     );
 
     // Handle expand/collapse actions
-    const handleExpand = useCallback((entity: EntityReference, direction: string) => {
+    const handleExpand = useCallback((entity: EntityReference, direction: LineageDirection) => {
         const nodeId = entity.fullyQualifiedName || entity.id;
         console.log('Expanding', direction, 'for entity:', entity.name);
         
@@ -324,7 +336,7 @@ const LineageViewer: React.FC<LineageViewerProps> = ({
         onExpandNode?.(nodeId, direction);
     }, [onExpandNode]);
 
-    const handleCollapse = useCallback((entity: EntityReference, direction: string) => {
+    const handleCollapse = useCallback((entity: EntityReference, direction: LineageDirection) => {
         const nodeId = entity.fullyQualifiedName || entity.id;
         console.log('Collapsing', direction, 'for entity:', entity.name);
         
@@ -388,11 +400,12 @@ const LineageViewer: React.FC<LineageViewerProps> = ({
                     onNodesChange={onNodesChange}
                     onEdgesChange={onEdgesChange}
                     onInit={onInit}
+                    onMoveEnd={(_event, viewport) => onViewportChange?.(viewport)}
                     onNodeClick={handleNodeClick}
                     nodeTypes={nodeTypes}
                     edgeTypes={edgeTypes}
                     connectionMode={ConnectionMode.Strict}
-                    fitView
+                    fitView={!initialViewport}
                     fitViewOptions={{ 
                         padding: 50, 
                         minZoom: 0.1,
@@ -1,35 +1,66 @@
-import React from 'react';
-import { TableCard } from './TableCard';
-
-interface TableResult {
-    id: string;
-    name: string;
-    fullyQualifiedName: string;
-    description?: string;
-    tableType?: string;
-    columns?: any[];
-    rowCount?: number;
-    database?: string;
-    schema?: string;
-    updatedAt?: string;
-    tags?: string[];
-    aiAnalysis?: string;
-}
+import React, { useEffect, useRef } from 'react';
+import { EntityResult, EntityType, SEARCH_SORT_LABELS, SearchSort } from '../../shared/protocol';
+import { EntityCard } from './EntityCard';
 
 interface ResultsListProps {
-    results: TableResult[];
+    results: EntityResult[];
     loading: boolean;
     searchQuery: string;
-    onViewLineage?: (tableFqn: string, tableName: string) => void;
-    
+    onViewLineage?: (fqn: string, name: string, entityType: EntityType) => void;
+    onOpenDetails?: (fqn: string, name: string, entityType: EntityType) => void;
+    expandedResults?: Set<string>;
+    onToggleDetails?: (tableId: string) => void;
+    // Hit count of the whole search, when known
+    total?: number;
+    sort?: SearchSort;
+    onSortChange?: (sort: SearchSort) => void;
+    // Given while more results can be loaded
+    onLoadMore?: () => void;
+    loadingMore?: boolean;
+    loadMoreError?: string;
 }
 
+// Loads the next page once the end of the list scrolls into view
+const LoadMoreTrigger: React.FC<{ onLoadMore: () => void; loading: boolean; error?: string }> = ({ onLoadMore, loading, error }) => {
+    const sentinel = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        // After a failure the user retries with the button instead
+        if (!sentinel.current || loading || error) return;
+
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                onLoadMore();
+            }
+        }, { rootMargin: '200px' });
+        observer.observe(sentinel.current);
+        return () => observer.disconnect();
+    }, [onLoadMore, loading, error]);
+
+    return (
+        <div className="load-more" ref={sentinel}>
+            {error && <div className="load-more-error">{error}</div>}
+            <button className="load-more-button" onClick={onLoadMore} disabled={loading}>
+                {loading ? 'Loading...' : error ? 'Try Again' : 'Load more'}
+            </button>
+        </div>
+    );
+};
+
 export const ResultsList: React.FC<ResultsListProps> = ({ 
     results, 
     loading, 
     searchQuery,
     onViewLineage,
-
+    onOpenDetails,
+    expandedResults,
+    onToggleDetails,
+    total,
+    sort = 'relevance',
+    onSortChange,
+    onLoadMore,
+    loadingMore = false,
+    loadMoreError,
 }) => {
     if (loading) {
         return (
@@ -100,21 +131,45 @@ export const ResultsList: React.FC<ResultsListProps> = ({
     return (
         <div className="results-section">
             <div className="results-header">
-                <h3>Found {results.length} table{results.length !== 1 ? 's' : ''}</h3>
+                <h3>
+                    Found {(total ?? results.length).toLocaleString()} result{(total ?? results.length) !== 1 ? 's' : ''}
+                    {total !== undefined && total > results.length && (
+                        <span className="results-shown"> (showing {results.length})</span>
+                    )}
+                </h3>
                 {searchQuery && (
                     <p>Results for: <strong>"{searchQuery}"</strong></p>
                 )}
+                {onSortChange && (
+                    <select
+                        className="results-sort-select"
+                        value={sort}
+                        onChange={(e) => onSortChange(e.target.value as SearchSort)}
+                        title="Sort results"
+                    >
+                        {(Object.keys(SEARCH_SORT_LABELS) as SearchSort[]).map(option => (
+                            <option key={option} value={option}>Sort: {SEARCH_SORT_LABELS[option]}</option>
+                        ))}
+                    </select>
+                )}
             </div>
             
             <div className="results-list">
                 {results.map((result) => (
-                    <TableCard 
-                        key={result.id} 
-                        table={result}
+                    <EntityCard
+                        key={result.id}
+                        entity={result}
                         onViewLineage={onViewLineage}
+                        onOpenDetails={onOpenDetails}
+                        showDetails={expandedResults?.has(result.id)}
+                        onToggleDetails={onToggleDetails}
                     />
                 ))}
             </div>
+
+            {onLoadMore && (
+                <LoadMoreTrigger onLoadMore={onLoadMore} loading={loadingMore} error={loadMoreError} />
+            )}
         </div>
     );
 };
\ No newline at end of file
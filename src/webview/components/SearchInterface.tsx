@@ -1,4 +1,12 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { ENTITY_TYPE_LABELS, EntityType, Suggestion } from '../../shared/protocol';
+
+const SUGGESTION_GROUPS: { kind: Suggestion['kind']; label: string }[] = [
+    { kind: 'asset', label: 'Data assets' },
+    { kind: 'tag', label: 'Tags' },
+    { kind: 'glossaryTerm', label: 'Glossary terms' },
+    { kind: 'owner', label: 'Owners' }
+];
 
 interface SearchInterfaceProps {
     searchQuery: string;
@@ -7,6 +15,14 @@ interface SearchInterfaceProps {
     onKeyPress: (event: React.KeyboardEvent) => void;
     loading: boolean;
     onExampleSearch: (query: string) => void;
+    // Shown as a stop button while a search or its AI insights are running
+    onCancel?: () => void;
+    // Empty for all entity types
+    entityType?: EntityType | '';
+    onEntityTypeChange?: (entityType: EntityType | '') => void;
+    // Type-ahead for the text typed so far
+    suggestions?: Suggestion[];
+    onSuggestionSelect?: (suggestion: Suggestion) => void;
 
     compact?: boolean;
 }
@@ -18,9 +34,59 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
     onKeyPress,
     loading,
     onExampleSearch,
+    onCancel,
+    entityType = '',
+    onEntityTypeChange,
+    suggestions = [],
+    onSuggestionSelect,
 
     compact = false
 }) => {
+    // Index into `ordered`, -1 when nothing is highlighted
+    const [highlighted, setHighlighted] = useState(-1);
+    const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+
+    // Grouped by kind; keyboard navigation follows the displayed order
+    const ordered = SUGGESTION_GROUPS.flatMap(group => suggestions.filter(s => s.kind === group.kind));
+    const showSuggestions = suggestionsOpen && ordered.length > 0 && !!onSuggestionSelect;
+
+    useEffect(() => {
+        setHighlighted(-1);
+        setSuggestionsOpen(suggestions.length > 0);
+    }, [suggestions]);
+
+    const selectSuggestion = (suggestion: Suggestion) => {
+        setSuggestionsOpen(false);
+        onSuggestionSelect?.(suggestion);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        if (!showSuggestions) return;
+
+        switch (event.key) {
+            case 'ArrowDown':
+                event.preventDefault();
+                setHighlighted((highlighted + 1) % ordered.length);
+                break;
+            case 'ArrowUp':
+                event.preventDefault();
+                setHighlighted(highlighted <= 0 ? ordered.length - 1 : highlighted - 1);
+                break;
+            case 'Enter':
+                // Without a highlighted entry Enter searches for the typed text
+                if (highlighted >= 0) {
+                    event.preventDefault();
+                    selectSuggestion(ordered[highlighted]);
+                } else {
+                    setSuggestionsOpen(false);
+                }
+                break;
+            case 'Escape':
+                setSuggestionsOpen(false);
+                break;
+        }
+    };
+
     const exampleQueries = [
         'customer',
         'orders',
@@ -37,19 +103,87 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
         'What user data is available?'
     ];
 
+    const entityTypeSelect = onEntityTypeChange && (
+        <select
+            className="entity-type-select"
+            value={entityType}
+            onChange={(e) => onEntityTypeChange(e.target.value as EntityType | '')}
+            title="Entity type to search"
+        >
+            <option value="">All types</option>
+            {(Object.keys(ENTITY_TYPE_LABELS) as EntityType[]).map(type => (
+                <option key={type} value={type}>{ENTITY_TYPE_LABELS[type]}</option>
+            ))}
+        </select>
+    );
+
+    const suggestionList = showSuggestions && (
+        <ul className="typeahead-list" role="listbox">
+            {SUGGESTION_GROUPS.map(group => {
+                const items = ordered.filter(s => s.kind === group.kind);
+                if (items.length === 0) return null;
+
+                return (
+                    <React.Fragment key={group.kind}>
+                        <li className="typeahead-group" role="presentation">{group.label}</li>
+                        {items.map(suggestion => {
+                            const index = ordered.indexOf(suggestion);
+                            return (
+                                <li
+                                    key={`${suggestion.kind}:${suggestion.value}:${index}`}
+                                    className={`typeahead-item ${index === highlighted ? 'highlighted' : ''}`}
+                                    role="option"
+                                    aria-selected={index === highlighted}
+                                    // Before the input's blur closes the list
+                                    onMouseDown={(e) => {
+                                        e.preventDefault();
+                                        selectSuggestion(suggestion);
+                                    }}
+                                    onMouseEnter={() => setHighlighted(index)}
+                                >
+                                    {suggestion.entityType && (
+                                        <span className="entity-type-badge">{ENTITY_TYPE_LABELS[suggestion.entityType]}</span>
+                                    )}
+                                    <span className="typeahead-label">{suggestion.label}</span>
+                                    {suggestion.detail && <span className="typeahead-detail">{suggestion.detail}</span>}
+                                </li>
+                            );
+                        })}
+                    </React.Fragment>
+                );
+            })}
+        </ul>
+    );
+
     if (compact) {
         return (
             <div className="search-input-container-compact">
+                {entityTypeSelect}
                 <input
                     type="text"
                     className="search-input-compact"
                     value={searchQuery}
                     onChange={(e) => onSearchQueryChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
                     onKeyPress={onKeyPress}
+                    onBlur={() => setSuggestionsOpen(false)}
+                    onFocus={() => setSuggestionsOpen(true)}
                     placeholder="Ask anything about your data"
-                    disabled={loading}
+                    role="combobox"
+                    aria-expanded={showSuggestions}
+                    aria-autocomplete="list"
                 />
+                {suggestionList}
                 {loading && <div className="search-loading-indicator">🤖</div>}
+                {onCancel && (
+                    <button
+                        className="search-stop-button"
+                        onClick={onCancel}
+                        title="Stop search"
+                    >
+                        ⏹
+                    </button>
+                )}
             </div>
         );
     }
@@ -57,15 +191,23 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
     return (
         <div className="search-section">
             <div className="search-input-container">
+                {entityTypeSelect}
                 <input
                     type="text"
                     className="search-input"
                     value={searchQuery}
                     onChange={(e) => onSearchQueryChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
                     onKeyPress={onKeyPress}
+                    onBlur={() => setSuggestionsOpen(false)}
+                    onFocus={() => setSuggestionsOpen(true)}
                     placeholder="Ask me anything about your data: 'What customer information do I have?'"
                     disabled={loading}
+                    role="combobox"
+                    aria-expanded={showSuggestions}
+                    aria-autocomplete="list"
                 />
+                {suggestionList}
                 <button 
                     className="search-button"
                     onClick={onSearch}
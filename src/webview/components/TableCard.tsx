@@ -1,29 +1,30 @@
 import React, { useState } from 'react';
-
-interface TableResult {
-    id: string;
-    name: string;
-    fullyQualifiedName: string;
-    description?: string;
-    tableType?: string;
-    columns?: any[];
-    rowCount?: number;
-    database?: string;
-    schema?: string;
-    updatedAt?: string;
-    tags?: string[];
-    aiAnalysis?: string;
-}
+import { TableResult, TIER_PREFIX } from '../../shared/protocol';
+import { DataQualityStrip } from './Details/DataQuality';
+import { TagEditor, useTagUpdates } from './TagEditor';
 
 interface TableCardProps {
     table: TableResult;
     onViewLineage?: (tableFqn: string, tableName: string) => void;
+    // Opens the detail panel with owners, constraints and all columns
+    onOpenDetails?: (tableFqn: string, tableName: string) => void;
+    // Controlled by the parent when given, so the expanded state can be persisted
+    showDetails?: boolean;
+    onToggleDetails?: (tableId: string) => void;
 }
 
-export const TableCard: React.FC<TableCardProps> = ({ table, onViewLineage }) => {
-    const [showDetails, setShowDetails] = useState(false);
+export const TableCard: React.FC<TableCardProps> = ({ table, onViewLineage, onOpenDetails, showDetails: controlledShowDetails, onToggleDetails }) => {
+    const [localShowDetails, setLocalShowDetails] = useState(false);
+    const showDetails = onToggleDetails ? !!controlledShowDetails : localShowDetails;
+    const toggleDetails = () => onToggleDetails ? onToggleDetails(table.id) : setLocalShowDetails(!localShowDetails);
     const [showAI, setShowAI] = useState(false);
     const [showAllColumns, setShowAllColumns] = useState(false);
+    const tagUpdates = useTagUpdates(table.fullyQualifiedName, table.version);
+    const tagState = tagUpdates.tagsOf(undefined, {
+        tags: (table.tags || []).filter(tag => !tag.startsWith(TIER_PREFIX)),
+        tier: table.tier || table.tags?.find(tag => tag.startsWith(TIER_PREFIX))
+    });
+    const tags = tagState.tier ? [tagState.tier, ...tagState.tags] : tagState.tags;
 
     const formatDate = (dateString?: string) => {
         if (!dateString) return 'Unknown';
@@ -53,6 +54,7 @@ export const TableCard: React.FC<TableCardProps> = ({ table, onViewLineage }) =>
             <div className="table-card-main">
                 <div className="table-info">
                     <div className="table-name-compact">
+                        <span className="entity-type-badge">Table</span>
                         <span className="table-icon">{getTableTypeIcon(table.tableType)}</span>
                         <span className="table-name-text">{table.name}</span>
                         <span className="table-path-compact">
@@ -66,6 +68,15 @@ export const TableCard: React.FC<TableCardProps> = ({ table, onViewLineage }) =>
                 </div>
                 
                 <div className="table-actions-compact">
+                    {onOpenDetails && (
+                        <button
+                            className="action-button open"
+                            onClick={() => onOpenDetails(table.fullyQualifiedName, table.name)}
+                            title="Show all details"
+                        >
+                            Open
+                        </button>
+                    )}
                     {onViewLineage && (
                         <button
                             className="action-button lineage"
@@ -77,7 +88,7 @@ export const TableCard: React.FC<TableCardProps> = ({ table, onViewLineage }) =>
                     )}
                     <button
                         className={`action-button details ${showDetails ? 'active' : ''}`}
-                        onClick={() => setShowDetails(!showDetails)}
+                        onClick={toggleDetails}
                         title="Toggle details"
                     >
                         ▼ Details
@@ -99,17 +110,31 @@ export const TableCard: React.FC<TableCardProps> = ({ table, onViewLineage }) =>
                 <div className="metadata-item">
                     <span className="metadata-value">{formatDate(table.updatedAt)}</span>
                 </div>
-                {table.tags && table.tags.length > 0 && (
+                {table.usage?.weekly && (
+                    <>
+                        <div className="metadata-separator">•</div>
+                        <div
+                            className="metadata-item"
+                            title={table.usage.weekly.percentileRank !== undefined
+                                ? `Busier than ${Math.round(table.usage.weekly.percentileRank)}% of tables`
+                                : undefined}
+                        >
+                            <span className="metadata-value">{formatNumber(table.usage.weekly.count)}</span>
+                            <span className="metadata-label">queries/wk</span>
+                        </div>
+                    </>
+                )}
+                {tags.length > 0 && (
                     <>
                         <div className="metadata-separator">•</div>
                         <div className="table-tags-compact">
-                            {table.tags.slice(0, 2).map((tag, index) => (
+                            {tags.slice(0, 2).map((tag, index) => (
                                 <span key={index} className="tag-compact">
                                     {tag}
                                 </span>
                             ))}
-                            {table.tags.length > 2 && (
-                                <span className="tag-compact more">+{table.tags.length - 2}</span>
+                            {tags.length > 2 && (
+                                <span className="tag-compact more">+{tags.length - 2}</span>
                             )}
                         </div>
                     </>
@@ -118,6 +143,14 @@ export const TableCard: React.FC<TableCardProps> = ({ table, onViewLineage }) =>
 
             {showDetails && (
                 <div className="table-details-compact">
+                    <DataQualityStrip fqn={table.fullyQualifiedName} />
+                    <TagEditor
+                        state={tagState}
+                        onChange={(change) => tagUpdates.update(undefined, tagState, change)}
+                        showTier
+                        busy={tagUpdates.busy}
+                        error={tagUpdates.errorOf()}
+                    />
                     {table.columns && table.columns.length > 0 ? (
                         <div className="columns-grid">
                             {(showAllColumns ? table.columns : table.columns.slice(0, 8)).map((column, index) => (
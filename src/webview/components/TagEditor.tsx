@@ -0,0 +1,255 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    createRequestId,
+    EXCLUSIVE_TAG_PREFIXES,
+    isHostMessage,
+    TagChange,
+    TagOption,
+    TagState,
+    TIER_PREFIX
+} from '../../shared/protocol';
+import { postToHost } from '../vscodeApi';
+
+const TIERS = [1, 2, 3, 4, 5].map(level => `${TIER_PREFIX}Tier${level}`);
+const MAX_MATCHES = 20;
+
+const SOURCE_LABELS: Record<TagOption['source'], string> = {
+    Classification: 'Tag',
+    Glossary: 'Glossary'
+};
+
+// The change as the server will apply it, for showing it before the server answers
+function applyTagChange(state: TagState, change: TagChange): TagState {
+    let { tags, tier } = state;
+    if (change.remove) {
+        tags = tags.filter(tag => tag !== change.remove);
+        tier = tier === change.remove ? undefined : tier;
+    }
+    if (change.add?.fqn.startsWith(TIER_PREFIX)) {
+        tier = change.add.fqn;
+    } else if (change.add && !tags.includes(change.add.fqn)) {
+        const exclusive = EXCLUSIVE_TAG_PREFIXES.find(prefix => change.add!.fqn.startsWith(prefix));
+        tags = [...tags.filter(tag => !exclusive || !tag.startsWith(exclusive)), change.add.fqn];
+    }
+    return { ...state, tags, tier };
+}
+
+/**
+ * Tag edits for one table and its columns. Changes show immediately and are
+ * rolled back if the server refuses them; one edit is sent at a time so each
+ * is checked against the version the previous one produced.
+ */
+export function useTagUpdates(fqn: string, initialVersion?: number) {
+    const [version, setVersion] = useState(initialVersion);
+    // Latest known tags by column name, '' for the table itself
+    const [edited, setEdited] = useState<Record<string, TagState>>({});
+    const [error, setError] = useState<{ key: string; message: string } | null>(null);
+    const [busy, setBusy] = useState(false);
+    const pending = useRef<{ requestId: string; key: string; previous: TagState } | null>(null);
+
+    useEffect(() => {
+        setVersion(initialVersion);
+        setEdited({});
+        setError(null);
+    }, [fqn, initialVersion]);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            const request = pending.current;
+            if (!isHostMessage(message) || !('requestId' in message) || message.requestId !== request?.requestId) return;
+
+            if (message.type === 'tagsUpdated') {
+                pending.current = null;
+                setBusy(false);
+                setEdited(previous => ({ ...previous, [request.key]: message.state }));
+                setVersion(message.state.version);
+            } else if (message.type === 'tagsUpdateError') {
+                pending.current = null;
+                setBusy(false);
+                // On a conflict the latest tags replace ours; otherwise ours are rolled back
+                const restored = message.current || request.previous;
+                setEdited(previous => ({ ...previous, [request.key]: restored }));
+                if (message.current) {
+                    setVersion(message.current.version);
+                }
+                setError({ key: request.key, message: message.error });
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const tagsOf = (column: string | undefined, initial: TagState) => edited[column ?? ''] ?? initial;
+
+    const update = (column: string | undefined, current: TagState, change: TagChange) => {
+        const key = column ?? '';
+        const requestId = createRequestId();
+        pending.current = { requestId, key, previous: current };
+        setEdited(previous => ({ ...previous, [key]: applyTagChange(current, change) }));
+        setBusy(true);
+        setError(null);
+        postToHost({ type: 'updateTags', requestId, fqn, column, change, version });
+    };
+
+    const errorOf = (column?: string) => error?.key === (column ?? '') ? error.message : undefined;
+
+    return { tagsOf, update, busy, errorOf };
+}
+
+// Options are the same for every picker, so they are loaded once per webview
+let cachedOptions: TagOption[] | null = null;
+
+const TagPicker: React.FC<{ exclude: string[]; onPick: (option: TagOption) => void; onClose: () => void }> = ({ exclude, onPick, onClose }) => {
+    const [options, setOptions] = useState<TagOption[] | null>(cachedOptions);
+    const [error, setError] = useState<string | null>(null);
+    const [query, setQuery] = useState('');
+
+    useEffect(() => {
+        if (cachedOptions) return;
+
+        const requestId = createRequestId();
+        let done = false;
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (!isHostMessage(message) || !('requestId' in message) || message.requestId !== requestId) return;
+
+            done = true;
+            if (message.type === 'tagOptions') {
+                cachedOptions = message.options;
+                setOptions(message.options);
+            } else if (message.type === 'tagOptionsError') {
+                setError(message.error);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        postToHost({ type: 'getTagOptions', requestId });
+
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            if (!done) {
+                postToHost({ type: 'cancel', requestId });
+            }
+        };
+    }, []);
+
+    // Escape closes the picker first; the window sees the key before the detail panel's document listener
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                event.stopPropagation();
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [onClose]);
+
+    const needle = query.trim().toLowerCase();
+    const matches = (options || [])
+        .filter(option => !option.fqn.startsWith(TIER_PREFIX) && !exclude.includes(option.fqn))
+        .filter(option => !needle || option.fqn.toLowerCase().includes(needle))
+        .slice(0, MAX_MATCHES);
+
+    return (
+        <div className="tag-picker">
+            <input
+                className="search-input-compact"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && matches.length > 0 && onPick(matches[0])}
+                placeholder="Search tags and glossary terms..."
+                aria-label="Search tags and glossary terms"
+                autoFocus
+            />
+            {error && <div className="error-message">❌ {error}</div>}
+            {!error && !options && <div className="detail-muted">Loading tags...</div>}
+            {options && (
+                <ul className="tag-picker-options" role="listbox">
+                    {matches.map(option => (
+                        <li
+                            key={`${option.source}:${option.fqn}`}
+                            role="option"
+                            aria-selected={false}
+                            className="tag-picker-option"
+                            title={option.description}
+                            onClick={() => onPick(option)}
+                        >
+                            <span className="tag-picker-source">{SOURCE_LABELS[option.source]}</span>
+                            {option.fqn}
+                        </li>
+                    ))}
+                    {matches.length === 0 && <li className="detail-muted">No matching tags</li>}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+interface TagEditorProps {
+    state: TagState;
+    onChange: (change: TagChange) => void;
+    // Tiers apply to tables, not columns
+    showTier?: boolean;
+    busy?: boolean;
+    error?: string;
+}
+
+/**
+ * Removable tag chips, an "add" picker backed by the classification and
+ * glossary APIs and, for tables, a tier selector.
+ */
+export const TagEditor: React.FC<TagEditorProps> = ({ state, onChange, showTier, busy, error }) => {
+    const [picking, setPicking] = useState(false);
+
+    const pick = (option: TagOption) => {
+        setPicking(false);
+        // Picked while the previous edit is still saving: it would be checked against a stale version
+        if (!busy) onChange({ add: option });
+    };
+
+    const setTier = (tier: string) => onChange(tier
+        ? { add: { fqn: tier, source: 'Classification' } }
+        : { remove: state.tier });
+
+    return (
+        <div className="tag-editor">
+            <div className="tag-editor-row">
+                {showTier && (
+                    <select
+                        className="facet-select"
+                        value={state.tier || ''}
+                        disabled={busy}
+                        onChange={(e) => setTier(e.target.value)}
+                        aria-label="Tier"
+                    >
+                        <option value="">No tier</option>
+                        {TIERS.map(tier => <option key={tier} value={tier}>{tier.slice(TIER_PREFIX.length)}</option>)}
+                    </select>
+                )}
+                {state.tags.map(tag => (
+                    <span key={tag} className="tag-compact tag-editable">
+                        {tag}
+                        <button
+                            className="tag-remove-button"
+                            disabled={busy}
+                            onClick={() => onChange({ remove: tag })}
+                            aria-label={`Remove ${tag}`}
+                        >
+                            ×
+                        </button>
+                    </span>
+                ))}
+                {!picking && (
+                    <button className="tag-add-button" disabled={busy} onClick={() => setPicking(true)}>
+                        + Tag
+                    </button>
+                )}
+            </div>
+            {picking && <TagPicker exclude={state.tags} onPick={pick} onClose={() => setPicking(false)} />}
+            {error && <div className="error-message">❌ {error}</div>}
+        </div>
+    );
+};
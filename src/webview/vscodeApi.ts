@@ -0,0 +1,76 @@
+import { EntityResult, EntityType, Facet, SearchCursor, SearchFilters, SearchSort, StructuredQuery, WebviewRequest, withVersion } from '../shared/protocol';
+
+// VS Code API type
+declare const acquireVsCodeApi: () => any;
+
+// Global VS Code API instance to avoid multiple acquisitions
+declare global {
+    interface Window {
+        vscodeApi?: any;
+    }
+}
+
+export const getVsCodeApi = () => {
+    if (!window.vscodeApi) {
+        try {
+            window.vscodeApi = acquireVsCodeApi();
+        } catch (error) {
+            console.warn('VS Code API already acquired by another extension:', error);
+            // Create a mock API that logs messages instead of sending them and keeps state in memory
+            let mockState: any;
+            window.vscodeApi = {
+                postMessage: (message: any) => {
+                    console.log('Mock VS Code API - would send message:', message);
+                },
+                getState: () => mockState,
+                setState: (state: any) => {
+                    mockState = state;
+                }
+            };
+        }
+    }
+    return window.vscodeApi;
+};
+
+// Send a typed request to the extension host
+export const postToHost = (message: WebviewRequest) => {
+    getVsCodeApi().postMessage(withVersion(message));
+};
+
+export interface LineageViewport {
+    tableFqn: string;
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+// Webview state that survives the panel being hidden and the webview being reloaded
+export interface PersistedState {
+    searchQuery?: string;
+    // Empty for all entity types
+    entityType?: EntityType | '';
+    filters?: SearchFilters;
+    facets?: Facet[];
+    sort?: SearchSort;
+    total?: number;
+    nextCursor?: SearchCursor;
+    // How the LLM read the current query, if it did
+    interpretedQuery?: StructuredQuery;
+    results?: EntityResult[];
+    aiInsights?: string;
+    error?: string;
+    scrollTop?: number;
+    // IDs of result cards with their details expanded
+    expandedResults?: string[];
+    lineageModal?: { tableFqn: string; tableName: string; entityType: EntityType };
+    lineageViewport?: LineageViewport;
+    // Entity shown in the detail panel
+    detailEntity?: { fqn: string; name: string; entityType: EntityType };
+}
+
+export const loadState = (): PersistedState => getVsCodeApi().getState() || {};
+
+// Merges the update into the stored state
+export const saveState = (update: Partial<PersistedState>) => {
+    getVsCodeApi().setState({ ...loadState(), ...update });
+};